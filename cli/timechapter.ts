@@ -0,0 +1,284 @@
+#!/usr/bin/env node
+/* ------------------------------------------------------------------
+   timechapter: command-line companion for a Time Chapter server
+   Authenticates with a personal API token (Settings → API tokens):
+
+     TIMECHAPTER_URL=https://time.example.com TIMECHAPTER_TOKEN=tc_... \
+       timechapter log "Deployed release"
+
+   Days print the way the dashboard's copy button copies them:
+   "time - content" for logs and "- content" for todos.
+--------------------------------------------------------------------- */
+
+interface LogItem {
+  id: string;
+  time: string;
+  content: string;
+  rawTimestamp?: number;
+  endTime?: string;
+}
+
+interface TodoItem {
+  id: string;
+  content: string;
+  manualOverride: boolean | null;
+}
+
+interface DayEntries {
+  date: string;
+  logs: LogItem[];
+  todos: TodoItem[];
+}
+
+const USAGE = `Usage: timechapter <command> [options]
+
+Commands:
+  log <content...>           Add a log, stamped now unless --time/--date are given
+                             (content may also be "[YYYY-MM-DD ]HH:MM[-HH:MM] - content")
+  todo add <content...>      Add a todo for today, or for --date
+  today                      Print today's logs and todos
+  export --from D [--to D]   Print every day with logs or todos in the range
+
+Options:
+  --date YYYY-MM-DD          Day to add to (log, todo add)
+  --time HH:MM               Time of the log, e.g. "9:30 AM" or "21:30"
+  --end HH:MM|DURATION       When the log ended, e.g. "10:15" or "45m"
+  --time-format 12|24        How new log times are written (default 12)
+  --url URL                  Server address (default $TIMECHAPTER_URL or http://localhost:3000)
+  --token TOKEN              API token (default $TIMECHAPTER_TOKEN)
+  -h, --help                 Show this help`;
+
+/** A failure worth showing as one line, without a stack trace. */
+class CliError extends Error {}
+
+interface ParsedArgs {
+  positional: string[];
+  options: Record<string, string | true>;
+}
+
+/** "--name value", "--name=value" and bare "--flag"; "--" ends options. */
+/** Options holding a time of day, which may be written "9:30 AM" unquoted. */
+const TIME_OPTIONS = ['time', 'end'];
+
+function parseArgs(argv: string[]): ParsedArgs {
+  const positional: string[] = [];
+  const options: Record<string, string | true> = {};
+  for (let i = 0; i < argv.length; i++) {
+    const arg = argv[i];
+    if (arg === '--') {
+      positional.push(...argv.slice(i + 1));
+      break;
+    }
+    if (arg === '-h') {
+      options.help = true;
+    } else if (arg.startsWith('--')) {
+      const eq = arg.indexOf('=');
+      const name = eq === -1 ? arg.slice(2) : arg.slice(2, eq);
+      if (eq !== -1) {
+        options[name] = arg.slice(eq + 1);
+      } else if (i + 1 < argv.length && !argv[i + 1].startsWith('--')) {
+        options[name] = argv[++i];
+      } else {
+        options[name] = true;
+      }
+      // "--time 9:30 AM": the AM/PM belongs to the time, not the content
+      if (
+        TIME_OPTIONS.includes(name) &&
+        typeof options[name] === 'string' &&
+        /^(am|pm)$/i.test(argv[i + 1] || '')
+      ) {
+        options[name] += ` ${argv[++i]}`;
+      }
+    } else {
+      positional.push(arg);
+    }
+  }
+  return { positional, options };
+}
+
+function option(args: ParsedArgs, name: string): string | undefined {
+  const value = args.options[name];
+  if (value === true) throw new CliError(`--${name} needs a value`);
+  return value;
+}
+
+function requireDateOption(args: ParsedArgs, name: string): string | undefined {
+  const value = option(args, name);
+  if (value !== undefined && !/^\d{4}-\d{2}-\d{2}$/.test(value)) {
+    throw new CliError(`--${name} must be a YYYY-MM-DD date`);
+  }
+  return value;
+}
+
+/** This machine's timezone, which the server uses to place times. */
+function localTimezone(): string {
+  return Intl.DateTimeFormat().resolvedOptions().timeZone;
+}
+
+/** Today's "YYYY-MM-DD" on this machine. */
+function localToday(): string {
+  const now = new Date();
+  const pad = (n: number) => String(n).padStart(2, '0');
+  return `${now.getFullYear()}-${pad(now.getMonth() + 1)}-${pad(now.getDate())}`;
+}
+
+/* --------------------------------
+   Server requests
+---------------------------------- */
+
+interface Connection {
+  url: string;
+  token: string;
+}
+
+function connection(args: ParsedArgs): Connection {
+  const url = option(args, 'url') || process.env.TIMECHAPTER_URL || 'http://localhost:3000';
+  const token = option(args, 'token') || process.env.TIMECHAPTER_TOKEN;
+  if (!token) {
+    throw new CliError(
+      'No API token. Create one under Settings → API tokens and set TIMECHAPTER_TOKEN.'
+    );
+  }
+  return { url: url.replace(/\/+$/, ''), token };
+}
+
+async function call<T>(
+  conn: Connection,
+  path: string,
+  init: { method?: string; body?: string; contentType?: string } = {}
+): Promise<T> {
+  let res: Response;
+  try {
+    res = await fetch(conn.url + path, {
+      method: init.method || 'GET',
+      body: init.body,
+      headers: {
+        Authorization: `Bearer ${conn.token}`,
+        ...(init.contentType ? { 'Content-Type': init.contentType } : {})
+      }
+    });
+  } catch (error) {
+    throw new CliError(`Could not reach ${conn.url} (${(error as Error).message})`);
+  }
+  const body = await res.json().catch(() => null);
+  if (!res.ok) {
+    throw new CliError(body?.error || `Request failed (${res.status})`);
+  }
+  return body as T;
+}
+
+/* --------------------------------
+   Output
+---------------------------------- */
+
+/** "time - content", or "time-end - content" when the log's end is known. */
+function formatLog(log: LogItem, endTime = log.endTime): string {
+  return `${endTime ? `${log.time}-${endTime}` : log.time} - ${log.content}`;
+}
+
+function formatTodo(todo: TodoItem): string {
+  return `- ${todo.content}`;
+}
+
+function formatDay(day: DayEntries): string {
+  const lines = [day.date];
+  // like the dashboard, a log without an end runs until the next one
+  const logs = day.logs.map((log, i) => formatLog(log, log.endTime ?? day.logs[i + 1]?.time));
+  if (logs.length) lines.push('', 'Logs:', ...logs);
+  if (day.todos.length) lines.push('', 'Todos:', ...day.todos.map(formatTodo));
+  return lines.join('\n');
+}
+
+/* --------------------------------
+   Commands
+---------------------------------- */
+
+async function addLog(args: ParsedArgs) {
+  const content = args.positional.slice(1).join(' ');
+  if (!content.trim()) throw new CliError('Nothing to log. Usage: timechapter log <content...>');
+  const params = new URLSearchParams({ timezone: localTimezone() });
+  const date = requireDateOption(args, 'date');
+  const time = option(args, 'time');
+  const end = option(args, 'end');
+  const timeFormat = option(args, 'time-format');
+  if (date) params.set('date', date);
+  if (time) params.set('time', time);
+  if (end) params.set('endTime', end);
+  if (timeFormat) params.set('timeFormat', timeFormat);
+
+  const created = await call<{ date: string; item: LogItem }>(
+    connection(args),
+    `/api/quick-log?${params}`,
+    { method: 'POST', body: content, contentType: 'text/plain' }
+  );
+  console.log(`${created.date} ${formatLog(created.item)}`);
+}
+
+async function addTodo(args: ParsedArgs) {
+  if (args.positional[1] !== 'add') {
+    throw new CliError('Usage: timechapter todo add <content...>');
+  }
+  const content = args.positional.slice(2).join(' ');
+  if (!content.trim()) throw new CliError('Usage: timechapter todo add <content...>');
+  const date = requireDateOption(args, 'date') || localToday();
+
+  const created = await call<{ date: string; item: TodoItem }>(connection(args), '/api/todos', {
+    method: 'POST',
+    body: JSON.stringify({ date, content }),
+    contentType: 'application/json'
+  });
+  console.log(`${created.date} ${formatTodo(created.item)}`);
+}
+
+async function printDays(conn: Connection, from: string, to: string) {
+  const params = new URLSearchParams({ from, to });
+  const { days } = await call<{ days: DayEntries[] }>(conn, `/api/days?${params}`);
+  if (!days.length) {
+    console.log(from === to ? `Nothing for ${from}.` : `Nothing from ${from} to ${to}.`);
+    return;
+  }
+  console.log(days.map(formatDay).join('\n\n'));
+}
+
+async function today(args: ParsedArgs) {
+  const date = localToday();
+  await printDays(connection(args), date, date);
+}
+
+async function exportDays(args: ParsedArgs) {
+  const from = requireDateOption(args, 'from');
+  if (!from) throw new CliError('Usage: timechapter export --from YYYY-MM-DD [--to YYYY-MM-DD]');
+  const to = requireDateOption(args, 'to') || localToday();
+  if (from > to) throw new CliError('--from must not be after --to');
+  await printDays(connection(args), from, to);
+}
+
+async function main(argv: string[]) {
+  const args = parseArgs(argv);
+  const command = args.positional[0];
+  if (!command || args.options.help) {
+    console.log(USAGE);
+    return;
+  }
+  switch (command) {
+    case 'log':
+      return addLog(args);
+    case 'todo':
+      return addTodo(args);
+    case 'today':
+      return today(args);
+    case 'export':
+      return exportDays(args);
+    default:
+      throw new CliError(`Unknown command "${command}". Run timechapter --help.`);
+  }
+}
+
+main(process.argv.slice(2)).catch((error) => {
+  if (error instanceof CliError) {
+    console.error(`timechapter: ${error.message}`);
+  } else {
+    console.error(error);
+  }
+  process.exitCode = 1;
+});
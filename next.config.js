@@ -1,11 +1,10 @@
 /** @type {import('next').NextConfig} */
 const nextConfig = {
-  output: 'export',
+  // Served by server.js (not a static export) so the /api routes can run
   images: {
     unoptimized: true,
   },
   basePath: '',          // Ensures no base path is set
-  assetPrefix: './',     // Uses relative paths for assets
   typescript: {
     ignoreBuildErrors: true,
   },
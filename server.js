@@ -0,0 +1,32 @@
+/* ------------------------------------------------------------------
+   Production server (`npm start`)
+   `next start` with one difference: forwarding headers a client sends
+   itself are dropped unless TIMECHAPTER_TRUSTED_PROXIES says a proxy
+   adds them, so X-Forwarded-For and X-Forwarded-Proto (which Next fills
+   in from the socket when they're missing) are always real. Sign-in
+   throttling, the audit log and the session cookie rely on them.
+--------------------------------------------------------------------- */
+const http = require('http');
+const next = require('next');
+
+const port = Number(process.env.PORT) || 3000;
+const hostname = process.env.HOSTNAME || '0.0.0.0';
+const trustedProxies = Number(process.env.TIMECHAPTER_TRUSTED_PROXIES) || 0;
+
+const app = next({ dev: false, hostname, port });
+const handle = app.getRequestHandler();
+
+app.prepare().then(() => {
+  http
+    .createServer((req, res) => {
+      if (trustedProxies <= 0) {
+        delete req.headers['x-forwarded-for'];
+        delete req.headers['x-real-ip'];
+        delete req.headers['x-forwarded-proto'];
+      }
+      handle(req, res);
+    })
+    .listen(port, hostname, () => {
+      console.log(`> Ready on http://${hostname}:${port}`);
+    });
+});
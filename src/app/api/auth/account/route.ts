@@ -0,0 +1,30 @@
+import { NextResponse } from 'next/server';
+import { deleteUser } from '@/lib/server/users';
+import {
+  currentSession,
+  deleteUserSessions,
+  clearSessionCookie
+} from '@/lib/server/sessions';
+import { deleteAuthEvents } from '@/lib/server/audit';
+import { deleteUserItems } from '@/lib/server/items';
+import { deleteUserSync } from '@/lib/server/syncStore';
+import { deleteUserApiTokens } from '@/lib/server/apiTokens';
+import { deleteUserWebhooks } from '@/lib/server/webhooks';
+
+export async function DELETE() {
+  const session = await currentSession();
+  if (!session) {
+    return NextResponse.json({ error: 'Not signed in' }, { status: 401 });
+  }
+
+  await deleteUser(session.username);
+  await deleteUserSessions(session.username);
+  await deleteAuthEvents(session.username);
+  await deleteUserItems(session.username);
+  await deleteUserSync(session.username);
+  await deleteUserApiTokens(session.username);
+  await deleteUserWebhooks(session.username);
+  const response = NextResponse.json({ ok: true });
+  clearSessionCookie(response);
+  return response;
+}
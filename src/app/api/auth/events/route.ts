@@ -0,0 +1,13 @@
+import { NextResponse } from 'next/server';
+import { currentSession } from '@/lib/server/sessions';
+import { listAuthEvents } from '@/lib/server/audit';
+
+export const dynamic = 'force-dynamic';
+
+export async function GET() {
+  const session = await currentSession();
+  if (!session) {
+    return NextResponse.json({ error: 'Not signed in' }, { status: 401 });
+  }
+  return NextResponse.json({ events: await listAuthEvents(session.username) });
+}
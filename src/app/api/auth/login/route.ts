@@ -0,0 +1,56 @@
+import { NextResponse } from 'next/server';
+import { findUser, verifyCredentials } from '@/lib/server/users';
+import { createSession, setSessionCookie } from '@/lib/server/sessions';
+import {
+  attemptKeys,
+  lockedUntil,
+  recordFailure,
+  clearFailures
+} from '@/lib/server/throttle';
+import { clientAddress, recordAuthEvent } from '@/lib/server/audit';
+
+function tooManyAttempts(until: number) {
+  const seconds = Math.ceil((until - Date.now()) / 1000);
+  const wait = seconds >= 90 ? `${Math.ceil(seconds / 60)} minutes` : `${seconds} seconds`;
+  return NextResponse.json(
+    { error: `Too many failed attempts. Try again in ${wait}.` },
+    { status: 429, headers: { 'Retry-After': String(seconds) } }
+  );
+}
+
+export async function POST(request: Request) {
+  const body = await request.json().catch(() => null);
+  const username = typeof body?.username === 'string' ? body.username.trim() : '';
+  const password = typeof body?.password === 'string' ? body.password : '';
+  const rememberMe = body?.rememberMe === true;
+
+  if (!username || !password) {
+    return NextResponse.json({ error: 'Please enter username/password' }, { status: 400 });
+  }
+
+  const keys = attemptKeys(username, clientAddress(request));
+  const lockedAt = await lockedUntil(keys);
+  if (lockedAt) return tooManyAttempts(lockedAt);
+
+  const user = await verifyCredentials(username, password);
+  if (!user) {
+    const lockout = await recordFailure(keys);
+    // only real accounts get an audit trail
+    if (await findUser(username)) {
+      await recordAuthEvent(username, 'loginFailed', request);
+      if (lockout) await recordAuthEvent(username, 'lockout', request);
+    }
+    if (lockout) return tooManyAttempts(lockout);
+    return NextResponse.json({ error: 'Invalid credentials' }, { status: 401 });
+  }
+
+  // the client counter keeps running so one address can't sweep many accounts
+  await clearFailures([keys[0]]);
+  await recordAuthEvent(user.username, 'login', request);
+  const { token, session } = await createSession(user.username, rememberMe);
+  const response = NextResponse.json({
+    user: { username: user.username, expiresAt: session.expiresAt }
+  });
+  setSessionCookie(request, response, token, session);
+  return response;
+}
@@ -0,0 +1,26 @@
+import { NextResponse } from 'next/server';
+import { cookies } from 'next/headers';
+import {
+  getSession,
+  deleteSession,
+  deleteUserSessions,
+  clearSessionCookie,
+  SESSION_COOKIE
+} from '@/lib/server/sessions';
+import { recordAuthEvent } from '@/lib/server/audit';
+
+export async function POST(request: Request) {
+  const body = await request.json().catch(() => null);
+  const token = cookies().get(SESSION_COOKIE)?.value;
+  const session = token ? await getSession(token) : null;
+  if (session && body?.allDevices === true) {
+    await deleteUserSessions(session.username);
+    await recordAuthEvent(session.username, 'logoutAll', request);
+  } else if (token) {
+    await deleteSession(token);
+    if (session) await recordAuthEvent(session.username, 'logout', request);
+  }
+  const response = NextResponse.json({ ok: true });
+  clearSessionCookie(response);
+  return response;
+}
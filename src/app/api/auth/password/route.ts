@@ -0,0 +1,57 @@
+import { NextResponse } from 'next/server';
+import { cookies } from 'next/headers';
+import { passwordProblem } from '@/lib/accounts';
+import { verifyCredentials, setPassword } from '@/lib/server/users';
+import {
+  currentSession,
+  deleteUserSessions,
+  SESSION_COOKIE
+} from '@/lib/server/sessions';
+import {
+  attemptKeys,
+  lockedUntil,
+  recordFailure,
+  clearFailures
+} from '@/lib/server/throttle';
+import { clientAddress, recordAuthEvent } from '@/lib/server/audit';
+
+export async function POST(request: Request) {
+  const session = await currentSession();
+  if (!session) {
+    return NextResponse.json({ error: 'Not signed in' }, { status: 401 });
+  }
+
+  const body = await request.json().catch(() => null);
+  const currentPassword =
+    typeof body?.currentPassword === 'string' ? body.currentPassword : '';
+  const newPassword = typeof body?.newPassword === 'string' ? body.newPassword : '';
+
+  // shares the sign-in counters, so a session can't be used to guess the password
+  const keys = attemptKeys(session.username, clientAddress(request));
+  const until = await lockedUntil(keys);
+  if (until) {
+    const seconds = Math.ceil((until - Date.now()) / 1000);
+    return NextResponse.json(
+      { error: 'Too many failed attempts. Try again later.' },
+      { status: 429, headers: { 'Retry-After': String(seconds) } }
+    );
+  }
+
+  if (!(await verifyCredentials(session.username, currentPassword))) {
+    const lockout = await recordFailure(keys);
+    await recordAuthEvent(session.username, 'passwordChangeFailed', request);
+    if (lockout) await recordAuthEvent(session.username, 'lockout', request);
+    return NextResponse.json({ error: 'Current password is wrong' }, { status: 403 });
+  }
+  await clearFailures([keys[0]]);
+  const problem = passwordProblem(newPassword);
+  if (problem) {
+    return NextResponse.json({ error: problem }, { status: 400 });
+  }
+
+  await setPassword(session.username, newPassword);
+  await recordAuthEvent(session.username, 'passwordChanged', request);
+  // other devices signed in with the old password have to sign in again
+  await deleteUserSessions(session.username, cookies().get(SESSION_COOKIE)?.value);
+  return NextResponse.json({ ok: true });
+}
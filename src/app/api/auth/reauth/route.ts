@@ -0,0 +1,41 @@
+import { NextResponse } from 'next/server';
+import { verifyCredentials } from '@/lib/server/users';
+import { currentSession } from '@/lib/server/sessions';
+import {
+  attemptKeys,
+  lockedUntil,
+  recordFailure,
+  clearFailures
+} from '@/lib/server/throttle';
+import { clientAddress, recordAuthEvent } from '@/lib/server/audit';
+
+/** Confirm the signed-in user's password, e.g. to unlock an idle screen. */
+export async function POST(request: Request) {
+  const session = await currentSession();
+  if (!session) {
+    return NextResponse.json({ error: 'Not signed in' }, { status: 401 });
+  }
+
+  const body = await request.json().catch(() => null);
+  const password = typeof body?.password === 'string' ? body.password : '';
+
+  const keys = attemptKeys(session.username, clientAddress(request));
+  const until = await lockedUntil(keys);
+  if (until) {
+    const seconds = Math.ceil((until - Date.now()) / 1000);
+    return NextResponse.json(
+      { error: 'Too many failed attempts. Try again later.' },
+      { status: 429, headers: { 'Retry-After': String(seconds) } }
+    );
+  }
+
+  if (!(await verifyCredentials(session.username, password))) {
+    const lockout = await recordFailure(keys);
+    await recordAuthEvent(session.username, 'unlockFailed', request);
+    if (lockout) await recordAuthEvent(session.username, 'lockout', request);
+    return NextResponse.json({ error: 'Wrong password' }, { status: 403 });
+  }
+
+  await clearFailures([keys[0]]);
+  return NextResponse.json({ ok: true });
+}
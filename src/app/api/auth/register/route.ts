@@ -0,0 +1,31 @@
+import { NextResponse } from 'next/server';
+import { usernameProblem, passwordProblem } from '@/lib/accounts';
+import { createUser } from '@/lib/server/users';
+import { createSession, setSessionCookie } from '@/lib/server/sessions';
+import { recordAuthEvent } from '@/lib/server/audit';
+
+export async function POST(request: Request) {
+  const body = await request.json().catch(() => null);
+  const username = typeof body?.username === 'string' ? body.username.trim() : '';
+  const password = typeof body?.password === 'string' ? body.password : '';
+  const rememberMe = body?.rememberMe === true;
+
+  const problem = usernameProblem(username) || passwordProblem(password);
+  if (problem) {
+    return NextResponse.json({ error: problem }, { status: 400 });
+  }
+
+  const user = await createUser(username, password);
+  if (!user) {
+    return NextResponse.json({ error: 'That username is taken' }, { status: 409 });
+  }
+
+  await recordAuthEvent(user.username, 'login', request);
+  const { token, session } = await createSession(user.username, rememberMe);
+  const response = NextResponse.json(
+    { user: { username: user.username, expiresAt: session.expiresAt } },
+    { status: 201 }
+  );
+  setSessionCookie(request, response, token, session);
+  return response;
+}
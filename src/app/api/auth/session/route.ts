@@ -0,0 +1,11 @@
+import { NextResponse } from 'next/server';
+import { currentSession } from '@/lib/server/sessions';
+
+export const dynamic = 'force-dynamic';
+
+export async function GET() {
+  const session = await currentSession();
+  return NextResponse.json({
+    user: session ? { username: session.username, expiresAt: session.expiresAt } : null
+  });
+}
@@ -0,0 +1,28 @@
+import { NextResponse } from 'next/server';
+import { authenticate } from '@/lib/server/apiTokens';
+import { ItemError, listDayRange, requireDate } from '@/lib/server/items';
+
+export const dynamic = 'force-dynamic';
+
+/**
+ * GET /api/days?from=YYYY-MM-DD&to=YYYY-MM-DD
+ * Logs and todos together, one entry per non-empty day; `to` defaults to
+ * `from`. Used by the CLI's `today` and `export`.
+ */
+export async function GET(request: Request) {
+  const caller = await authenticate(request, 'read');
+  if ('error' in caller) {
+    return NextResponse.json({ error: caller.error }, { status: caller.status });
+  }
+  const params = new URL(request.url).searchParams;
+  try {
+    const from = requireDate(params.get('from'), 'from');
+    const to = params.has('to') ? requireDate(params.get('to'), 'to') : from;
+    return NextResponse.json({ days: await listDayRange(caller.username, from, to) });
+  } catch (error) {
+    if (error instanceof ItemError) {
+      return NextResponse.json({ error: error.message }, { status: error.status });
+    }
+    throw error;
+  }
+}
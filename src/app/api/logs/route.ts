@@ -0,0 +1,5 @@
+import { createCollectionHandlers } from '@/lib/server/itemRoutes';
+
+export const dynamic = 'force-dynamic';
+
+export const { GET, POST } = createCollectionHandlers('logs');
@@ -0,0 +1,48 @@
+import { NextResponse } from 'next/server';
+import { authenticate } from '@/lib/server/apiTokens';
+import { createQuickLog, QuickLogInput } from '@/lib/server/quickLog';
+import { ItemError } from '@/lib/server/items';
+
+/**
+ * POST /api/quick-log
+ * JSON { content, time?, endTime?, date?, timezone?, timeFormat? }, or a
+ * plain-text body holding one import-format line ("2024-05-01 9:30 AM -
+ * content"), with the other fields as query parameters. Answers
+ * { date, item }.
+ */
+export async function POST(request: Request) {
+  const caller = await authenticate(request, 'write');
+  if ('error' in caller) {
+    return NextResponse.json({ error: caller.error }, { status: caller.status });
+  }
+
+  const params = new URL(request.url).searchParams;
+  const fromQuery: QuickLogInput = {
+    date: params.get('date'),
+    time: params.get('time'),
+    endTime: params.get('endTime'),
+    timezone: params.get('timezone'),
+    timeFormat: params.get('timeFormat')
+  };
+  const isJSON = (request.headers.get('content-type') || '').includes('application/json');
+  let input: QuickLogInput;
+  if (isJSON) {
+    const body = await request.json().catch(() => null);
+    if (typeof body !== 'object' || body === null || Array.isArray(body)) {
+      return NextResponse.json({ error: 'Expected a JSON object' }, { status: 400 });
+    }
+    input = { ...fromQuery, ...body };
+  } else {
+    input = { ...fromQuery, content: await request.text() };
+  }
+
+  try {
+    const created = await createQuickLog(caller.username, input, !isJSON);
+    return NextResponse.json(created, { status: 201 });
+  } catch (error) {
+    if (error instanceof ItemError) {
+      return NextResponse.json({ error: error.message }, { status: error.status });
+    }
+    throw error;
+  }
+}
@@ -0,0 +1,25 @@
+import { NextResponse } from 'next/server';
+import { currentSession } from '@/lib/server/sessions';
+import { syncUser } from '@/lib/server/syncStore';
+import { isItemRecord } from '@/lib/replication';
+
+export async function POST(request: Request) {
+  const session = await currentSession();
+  if (!session) {
+    return NextResponse.json({ error: 'Not signed in' }, { status: 401 });
+  }
+
+  const body = await request.json().catch(() => null);
+  const valid =
+    typeof body?.node === 'string' &&
+    body.node !== 'server' &&
+    typeof body.clock === 'number' &&
+    typeof body.cursor === 'number' &&
+    Array.isArray(body.changes) &&
+    body.changes.every(isItemRecord);
+  if (!valid) {
+    return NextResponse.json({ error: 'Malformed sync request' }, { status: 400 });
+  }
+
+  return NextResponse.json(await syncUser(session.username, body));
+}
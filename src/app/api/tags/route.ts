@@ -0,0 +1,20 @@
+import { NextResponse } from 'next/server';
+import { authenticate } from '@/lib/server/apiTokens';
+import { readUserItems } from '@/lib/server/items';
+import { buildTagIndex } from '@/lib/tags';
+
+export const dynamic = 'force-dynamic';
+
+/**
+ * GET /api/tags
+ * Every #tag and @project in the caller's logs and todos, with how often
+ * and on which days it's used, most used first.
+ */
+export async function GET(request: Request) {
+  const caller = await authenticate(request, 'read');
+  if ('error' in caller) {
+    return NextResponse.json({ error: caller.error }, { status: caller.status });
+  }
+  const items = await readUserItems(caller.username);
+  return NextResponse.json({ tags: buildTagIndex(items.logs, items.todos) });
+}
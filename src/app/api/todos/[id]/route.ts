@@ -0,0 +1,3 @@
+import { createItemHandlers } from '@/lib/server/itemRoutes';
+
+export const { PATCH, DELETE } = createItemHandlers('todos');
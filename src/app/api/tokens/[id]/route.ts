@@ -0,0 +1,16 @@
+import { NextResponse } from 'next/server';
+import { currentSession } from '@/lib/server/sessions';
+import { revokeApiToken } from '@/lib/server/apiTokens';
+import { recordAuthEvent } from '@/lib/server/audit';
+
+export async function DELETE(request: Request, { params }: { params: { id: string } }) {
+  const session = await currentSession();
+  if (!session) {
+    return NextResponse.json({ error: 'Not signed in' }, { status: 401 });
+  }
+  if (!(await revokeApiToken(session.username, params.id))) {
+    return NextResponse.json({ error: 'Not found' }, { status: 404 });
+  }
+  await recordAuthEvent(session.username, 'tokenRevoked', request);
+  return NextResponse.json({ ok: true });
+}
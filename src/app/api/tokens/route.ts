@@ -0,0 +1,46 @@
+import { NextResponse } from 'next/server';
+import { MAX_TOKEN_NAME_LENGTH } from '@/lib/accounts';
+import { currentSession } from '@/lib/server/sessions';
+import { createApiToken, listApiTokens } from '@/lib/server/apiTokens';
+import { recordAuthEvent } from '@/lib/server/audit';
+
+export const dynamic = 'force-dynamic';
+
+export async function GET() {
+  const session = await currentSession();
+  if (!session) {
+    return NextResponse.json({ error: 'Not signed in' }, { status: 401 });
+  }
+  return NextResponse.json({ tokens: await listApiTokens(session.username) });
+}
+
+/** Create a token. Its value is only ever returned here. */
+export async function POST(request: Request) {
+  // tokens can't mint more tokens; this needs a browser session
+  const session = await currentSession();
+  if (!session) {
+    return NextResponse.json({ error: 'Not signed in' }, { status: 401 });
+  }
+
+  const body = await request.json().catch(() => null);
+  const name = typeof body?.name === 'string' ? body.name.trim() : '';
+  if (!name || name.length > MAX_TOKEN_NAME_LENGTH) {
+    return NextResponse.json(
+      { error: `Name must be 1-${MAX_TOKEN_NAME_LENGTH} characters` },
+      { status: 400 }
+    );
+  }
+  if (body.scope !== 'read' && body.scope !== 'write') {
+    return NextResponse.json({ error: 'Scope must be "read" or "write"' }, { status: 400 });
+  }
+
+  const created = await createApiToken(session.username, name, body.scope);
+  if (!created) {
+    return NextResponse.json(
+      { error: 'Too many tokens; revoke one you no longer use' },
+      { status: 409 }
+    );
+  }
+  await recordAuthEvent(session.username, 'tokenCreated', request);
+  return NextResponse.json(created, { status: 201 });
+}
@@ -0,0 +1,14 @@
+import { NextResponse } from 'next/server';
+import { currentSession } from '@/lib/server/sessions';
+import { deleteWebhook } from '@/lib/server/webhooks';
+
+export async function DELETE(_request: Request, { params }: { params: { id: string } }) {
+  const session = await currentSession();
+  if (!session) {
+    return NextResponse.json({ error: 'Not signed in' }, { status: 401 });
+  }
+  if (!(await deleteWebhook(session.username, params.id))) {
+    return NextResponse.json({ error: 'Not found' }, { status: 404 });
+  }
+  return NextResponse.json({ ok: true });
+}
@@ -0,0 +1,15 @@
+import { NextResponse } from 'next/server';
+import { currentSession } from '@/lib/server/sessions';
+import { sendTestDelivery } from '@/lib/server/webhooks';
+
+/** Queue a "ping" delivery so a receiver can be checked without real events. */
+export async function POST(_request: Request, { params }: { params: { id: string } }) {
+  const session = await currentSession();
+  if (!session) {
+    return NextResponse.json({ error: 'Not signed in' }, { status: 401 });
+  }
+  if (!(await sendTestDelivery(session.username, params.id))) {
+    return NextResponse.json({ error: 'Not found' }, { status: 404 });
+  }
+  return NextResponse.json({ ok: true });
+}
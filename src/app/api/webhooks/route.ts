@@ -0,0 +1,66 @@
+import { NextResponse } from 'next/server';
+import { WEBHOOK_EVENT_TYPES, WebhookEventType, webhookUrlProblem } from '@/lib/webhooks';
+import { currentSession } from '@/lib/server/sessions';
+import {
+  createWebhook,
+  listDeliveries,
+  listWebhooks,
+  resumeDeliveries
+} from '@/lib/server/webhooks';
+
+export const dynamic = 'force-dynamic';
+
+/** Subscriptions and recent deliveries (newest first). */
+export async function GET() {
+  const session = await currentSession();
+  if (!session) {
+    return NextResponse.json({ error: 'Not signed in' }, { status: 401 });
+  }
+  resumeDeliveries();
+  return NextResponse.json({
+    webhooks: await listWebhooks(session.username),
+    deliveries: await listDeliveries(session.username)
+  });
+}
+
+/** Subscribe { url, events, secret? }. The secret is only ever returned here. */
+export async function POST(request: Request) {
+  const session = await currentSession();
+  if (!session) {
+    return NextResponse.json({ error: 'Not signed in' }, { status: 401 });
+  }
+
+  const body = await request.json().catch(() => null);
+  const url = typeof body?.url === 'string' ? body.url.trim() : '';
+  const problem = webhookUrlProblem(url);
+  if (problem) {
+    return NextResponse.json({ error: problem }, { status: 400 });
+  }
+  const events: unknown[] = Array.isArray(body.events) ? body.events : [];
+  if (
+    !events.length ||
+    !events.every((event) => WEBHOOK_EVENT_TYPES.includes(event as WebhookEventType))
+  ) {
+    return NextResponse.json(
+      { error: `Pick at least one event: ${WEBHOOK_EVENT_TYPES.join(', ')}` },
+      { status: 400 }
+    );
+  }
+  if (body.secret !== undefined && typeof body.secret !== 'string') {
+    return NextResponse.json({ error: 'Secret must be a string' }, { status: 400 });
+  }
+
+  const created = await createWebhook(
+    session.username,
+    url,
+    Array.from(new Set(events as WebhookEventType[])),
+    body.secret?.trim() || undefined
+  );
+  if (!created) {
+    return NextResponse.json(
+      { error: 'Too many webhooks; delete one you no longer use' },
+      { status: 409 }
+    );
+  }
+  return NextResponse.json(created, { status: 201 });
+}
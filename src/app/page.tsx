@@ -2,11 +2,13 @@
 import React, {
   useState,
   useEffect,
+  useMemo,
   useRef,
   FormEvent,
   ChangeEvent,
   RefObject
 } from 'react';
+import { createPortal } from 'react-dom';
 import {
   Settings,
   Copy,
@@ -18,7 +20,19 @@ import {
   Trash2,
   ArrowRight,
   ArrowLeft,
-  Upload
+  Upload,
+  Undo2,
+  Redo2,
+  ArchiveRestore,
+  UserPlus,
+  Lock,
+  Cloud,
+  CloudOff,
+  RefreshCw,
+  AlertTriangle,
+  Play,
+  Square,
+  BarChart3
 } from 'lucide-react';
 import { Button } from "@/components/ui/button";
 import { Card, CardHeader, CardTitle, CardContent } from "@/components/ui/card";
@@ -41,39 +55,177 @@ import {
 } from "@/components/ui/dialog";
 import { Textarea } from "@/components/ui/textarea";
 import { Checkbox } from "@/components/ui/checkbox";
+import type {
+  TimeFormat,
+  LogItem,
+  LogsByDate,
+  TodoItem,
+  TodosByDate
+} from '@/lib/types';
+import {
+  createStorageAdapter,
+  changedDays,
+  deleteUserData,
+  SETTING_NAMES,
+  DayKind,
+  SettingName,
+  StorageAdapter
+} from '@/lib/storage';
+import {
+  migrateData,
+  CURRENT_SCHEMA_VERSION,
+  LEGACY_SCHEMA_VERSION,
+  MigrationResult
+} from '@/lib/migrations';
+import {
+  openTabChannel,
+  changesFromSignal,
+  applyDayChanges,
+  createRemoteTracker,
+  SYNCED_SETTINGS,
+  DayChange,
+  RemoteTracker,
+  TabChannel
+} from '@/lib/sync';
+import {
+  createHistoryEntry,
+  pushHistory,
+  isUndoable,
+  applyDays,
+  entryDates,
+  EMPTY_HISTORY,
+  HistoryEntry,
+  HistoryState
+} from '@/lib/history';
+import {
+  reconcileTrash,
+  purgeExpired,
+  entriesToDays,
+  trashEntryKey,
+  DEFAULT_TRASH_RETENTION_DAYS,
+  TrashEntry
+} from '@/lib/trash';
+import { dateKeyInTimezone, sortLogsByTimestamp, splitTimeRange } from '@/lib/time';
+import { generateId } from '@/lib/ids';
+import { todoMatchesLog } from '@/lib/todos';
+import {
+  logSpans,
+  formatDuration,
+  formatLogLine,
+  resolveLogEnd
+} from '@/lib/durations';
+import {
+  fetchSession,
+  login,
+  logout,
+  register,
+  changePassword,
+  deleteAccount,
+  fetchAuthEvents,
+  verifyPassword,
+  fetchApiTokens,
+  createApiToken,
+  revokeApiToken,
+  fetchWebhooks,
+  createWebhook,
+  deleteWebhook,
+  testWebhook,
+  ApiError
+} from '@/lib/api';
+import {
+  WEBHOOK_EVENT_TYPES,
+  WEBHOOK_EVENT_LABELS,
+  WebhookDelivery,
+  WebhookEventType,
+  WebhookInfo,
+  webhookUrlProblem
+} from '@/lib/webhooks';
+import {
+  usernameProblem,
+  passwordProblem,
+  AUTH_EVENT_LABELS,
+  AuthEvent,
+  ApiTokenInfo,
+  ApiTokenScope,
+  MAX_TOKEN_NAME_LENGTH
+} from '@/lib/accounts';
+import {
+  checkIntegrity,
+  applyIntegrityFixes,
+  IntegrityIssue
+} from '@/lib/integrity';
+import {
+  createBackup,
+  parseBackup,
+  previewRestore,
+  applyRestore,
+  BackupDocument,
+  RestoreMode
+} from '@/lib/backup';
+import {
+  createEncryptionMeta,
+  unlockWithPassphrase,
+  readEncryptionMeta,
+  clearEncryptionMeta,
+  createEncryptedAdapter,
+  PendingEncryption,
+  readPendingEncryption,
+  writePendingEncryption,
+  clearPendingEncryption,
+  commitPendingEncryption,
+  rewriteEncryption,
+  EncryptionMeta
+} from '@/lib/crypto';
+import {
+  hashPin,
+  verifyPin,
+  pinProblem,
+  readIdleLock,
+  writeIdleLock,
+  clearIdleLock,
+  DEFAULT_IDLE_LOCK_MINUTES,
+  MAX_PIN_ATTEMPTS,
+  IdleLockState
+} from '@/lib/idleLock';
+import { syncRound, applyIncoming, SyncStatus } from '@/lib/serverSync';
+import {
+  parseTimer,
+  serializeTimer,
+  formatElapsed,
+  trackedTime,
+  ActiveTimer
+} from '@/lib/timer';
+import { splitTags, hasTags, tagKind, buildTagIndex } from '@/lib/tags';
+import { parseMarkdown, markdownToPlainText, InlineNode } from '@/lib/markdown';
+import {
+  parseProjects,
+  serializeProjects,
+  projectNameProblem,
+  withProject,
+  dayProjectTotals,
+  rangeProjectTotals,
+  PROJECT_COLORS,
+  MAX_PROJECT_NAME_LENGTH,
+  NO_PROJECT,
+  Project,
+  ProjectTotals
+} from '@/lib/projects';
+import {
+  runSearch,
+  SEARCH_RESULT_LIMIT,
+  highlightMatches,
+  formatSearchResults,
+  parseSavedSearches,
+  serializeSavedSearches,
+  SavedSearch,
+  SearchResult
+} from '@/lib/search';
+import type { SyncConflict } from '@/lib/replication';
 
 /* ------------------------------------------------------------------
    Types & Interfaces
 --------------------------------------------------------------------- */
 
-/** Allowed time formats. */
-type TimeFormat = '12' | '24';
-
-/** A single log item. */
-interface LogItem {
-  id: string;
-  time: string;
-  content: string;
-  rawTimestamp?: number;
-  date?: string;
-}
-
-/** Logs are grouped by date string, e.g. "2025-01-07" => array of logs. */
-type LogsByDate = Record<string, LogItem[]>;
-
-/** A single todo item. */
-interface TodoItem {
-  id: string;
-  content: string;
-  manualOverride: boolean | null;
-  date?: string;
-}
-
-
-
-/** Todos are grouped by date, e.g. "2025-01-07" => array of todos. */
-type TodosByDate = Record<string, TodoItem[]>;
-
 /** Minimal user object. */
 interface UserObject {
   username: string;
@@ -88,30 +240,17 @@ interface ConfirmModalState {
 }
 
 /* ------------------------------------------------------------------
-   Mock Users & Utilities
+   Utilities
 --------------------------------------------------------------------- */
 
-const users: Record<string, { password: string }> = {
-  admin: { password: 'admin' },
-  user: { password: 'user' }
-};
+/** Longest wait between session checks (setTimeout can't span a long session). */
+const SESSION_CHECK_MAX_DELAY = 24 * 60 * 60 * 1000;
 
-/* Generate a unique ID. */
-function generateId(): string {
-  if (typeof crypto !== 'undefined' && crypto.randomUUID) {
-    return crypto.randomUUID();
-  }
-  return 'id-' + Date.now() + '-' + Math.floor(Math.random() * 1000000);
-}
+/** Quiet period after an edit before syncing it to the server. */
+const SYNC_DEBOUNCE_MS = 2000;
 
-/* Sort logs by their rawTimestamp. */
-function sortLogsByTimestamp(logs: LogItem[]): LogItem[] {
-  return [...logs].sort((a, b) => {
-    const ta = a.rawTimestamp ?? 0;
-    const tb = b.rawTimestamp ?? 0;
-    return ta - tb;
-  });
-}
+/** How often to pull changes made elsewhere. */
+const SYNC_INTERVAL_MS = 60 * 1000;
 
 /**
  * Convert all logs from one timezone/format to another, using rawTimestamp as source of truth.
@@ -130,15 +269,19 @@ function convertAllLogs(
         // older logs might not have rawTimestamp => skip or fallback
         return log;
       }
-      const d = new Date(log.rawTimestamp);
       const hour12 = newFormat === '12';
-      const newTime = d.toLocaleTimeString('en-US', {
-        hour12,
-        timeZone: newTz,
-        hour: 'numeric',
-        minute: '2-digit'
-      });
-      return { ...log, time: newTime };
+      const format = (timestamp: number) =>
+        new Date(timestamp).toLocaleTimeString('en-US', {
+          hour12,
+          timeZone: newTz,
+          hour: 'numeric',
+          minute: '2-digit'
+        });
+      const converted = { ...log, time: format(log.rawTimestamp) };
+      if (typeof log.endTimestamp === 'number') {
+        converted.endTime = format(log.endTimestamp);
+      }
+      return converted;
     });
     dayLogs = sortLogsByTimestamp(dayLogs);
     updated[dateKey] = dayLogs;
@@ -146,11 +289,608 @@ function convertAllLogs(
   return updated;
 }
 
-/* Word-boundary matching for log vs. todo content. */
-function todoMatchesLog(todoContent: string, logContent: string): boolean {
-  const escaped = todoContent.replace(/[.*+?^${}()|[\]\\]/g, '\\$&');
-  const regex = new RegExp(`\\b${escaped}\\b`, 'i');
-  return regex.test(logContent);
+/* Trigger a browser download of the given text. */
+function downloadTextFile(filename: string, text: string, mimeType: string) {
+  const blob = new Blob([text], { type: mimeType });
+  const url = URL.createObjectURL(blob);
+  const a = document.createElement('a');
+  a.href = url;
+  a.download = filename;
+  document.body.appendChild(a);
+  a.click();
+  document.body.removeChild(a);
+  URL.revokeObjectURL(url);
+}
+
+/* ------------------------------------------------------------------
+   Tag chips
+--------------------------------------------------------------------- */
+function tagChipClass(tag: string, isDark: boolean, active: boolean): string {
+  const colors =
+    tagKind(tag) === 'project'
+      ? isDark
+        ? 'bg-purple-900 text-purple-200'
+        : 'bg-purple-100 text-purple-800'
+      : isDark
+        ? 'bg-blue-900 text-blue-200'
+        : 'bg-blue-100 text-blue-800';
+  return (
+    `inline-block px-1.5 rounded text-sm hover:underline ${colors}` +
+    (active ? ' ring-1 ring-current' : '')
+  );
+}
+
+interface TaggedContentProps {
+  content: string;
+  isDark: boolean;
+  activeTags: string[];
+  onTagClick: (tag: string) => void;
+}
+
+/* Content with its #tags and @projects as clickable chips. */
+function TaggedContent({ content, isDark, activeTags, onTagClick }: TaggedContentProps) {
+  return (
+    <>
+      {splitTags(content).map((part, i) =>
+        part.type === 'text' ? (
+          <React.Fragment key={i}>{part.text}</React.Fragment>
+        ) : (
+          <button
+            key={i}
+            onClick={() => onTagClick(part.tag)}
+            className={tagChipClass(part.tag, isDark, activeTags.includes(part.tag))}
+            title={
+              activeTags.includes(part.tag) ? `Stop filtering by ${part.tag}` : `Filter by ${part.tag}`
+            }
+          >
+            {part.text}
+          </button>
+        )
+      )}
+    </>
+  );
+}
+
+/* ------------------------------------------------------------------
+   Markdown content
+--------------------------------------------------------------------- */
+/*
+  Log/todo content rendered from lib/markdown's tree (never as HTML).
+  A single line stays inline next to the time label; lists and
+  multi-line entries become blocks. Plain text keeps its tag chips.
+*/
+function MarkdownContent({ content, isDark, activeTags, onTagClick }: TaggedContentProps) {
+  const codeClass =
+    'px-1 rounded font-mono text-[0.9em] ' + (isDark ? 'bg-gray-600' : 'bg-gray-200');
+
+  function renderInline(nodes: InlineNode[], inLink = false): React.ReactNode {
+    return nodes.map((node, i) => {
+      switch (node.type) {
+        case 'text':
+          return inLink || node.escaped ? (
+            <React.Fragment key={i}>{node.text}</React.Fragment>
+          ) : (
+            <TaggedContent
+              key={i}
+              content={node.text}
+              isDark={isDark}
+              activeTags={activeTags}
+              onTagClick={onTagClick}
+            />
+          );
+        case 'strong':
+          return <strong key={i}>{renderInline(node.children, inLink)}</strong>;
+        case 'em':
+          return <em key={i}>{renderInline(node.children, inLink)}</em>;
+        case 'code':
+          return (
+            <code key={i} className={codeClass}>
+              {node.text}
+            </code>
+          );
+        case 'link':
+          return (
+            <a
+              key={i}
+              href={node.href}
+              target="_blank"
+              rel="noopener noreferrer nofollow"
+              className={'underline ' + (isDark ? 'text-blue-300' : 'text-blue-600')}
+            >
+              {renderInline(node.children, true)}
+            </a>
+          );
+      }
+    });
+  }
+
+  const blocks = parseMarkdown(content);
+  if (blocks.length === 1 && blocks[0].type === 'paragraph' && blocks[0].lines.length === 1) {
+    return <>{renderInline(blocks[0].lines[0])}</>;
+  }
+  return (
+    <div className="mt-1 space-y-1">
+      {blocks.map((block, i) =>
+        block.type === 'paragraph' ? (
+          <div key={i}>
+            {block.lines.map((line, j) => (
+              <React.Fragment key={j}>
+                {j > 0 && <br />}
+                {renderInline(line)}
+              </React.Fragment>
+            ))}
+          </div>
+        ) : block.ordered ? (
+          <ol key={i} className="list-decimal ml-5">
+            {block.items.map((item, j) => (
+              <li key={j}>{renderInline(item)}</li>
+            ))}
+          </ol>
+        ) : (
+          <ul key={i} className="list-disc ml-5">
+            {block.items.map((item, j) => (
+              <li key={j}>{renderInline(item)}</li>
+            ))}
+          </ul>
+        )
+      )}
+    </div>
+  );
+}
+
+/* ------------------------------------------------------------------
+   Projects: picker, management and time report
+--------------------------------------------------------------------- */
+interface ProjectSelectProps {
+  projects: Project[];
+  value: string;
+  onChange: (projectId: string) => void;
+  className: string;
+}
+
+/* Active projects, plus the current one even if it's archived. */
+function ProjectSelect({ projects, value, onChange, className }: ProjectSelectProps) {
+  const choices = projects.filter((project) => !project.archived || project.id === value);
+  return (
+    <select
+      value={value}
+      onChange={(e) => onChange(e.target.value)}
+      className={className}
+      title="Project"
+    >
+      <option value="">No project</option>
+      {choices.map((project) => (
+        <option key={project.id} value={project.id}>
+          {project.name}
+          {project.archived ? ' (archived)' : ''}
+        </option>
+      ))}
+    </select>
+  );
+}
+
+function projectLabel(projectId: string, projects: Project[]): string {
+  if (projectId === NO_PROJECT) return 'No project';
+  return projects.find((project) => project.id === projectId)?.name ?? 'Unknown project';
+}
+
+interface ProjectTotalsListProps {
+  totals: ProjectTotals;
+  projects: Project[];
+}
+
+/* "● Acme 2h 30m" per project, biggest first. */
+function ProjectTotalsList({ totals, projects }: ProjectTotalsListProps) {
+  const entries = Object.entries(totals).sort((a, b) => b[1] - a[1]);
+  return (
+    <>
+      {entries.map(([projectId, ms]) => (
+        <span key={projectId} className="inline-flex items-center gap-1 mr-3">
+          <span
+            className="inline-block h-2.5 w-2.5 rounded-full"
+            style={{
+              backgroundColor:
+                projects.find((project) => project.id === projectId)?.color ?? '#d1d5db'
+            }}
+          />
+          {projectLabel(projectId, projects)} {formatDuration(ms)}
+        </span>
+      ))}
+    </>
+  );
+}
+
+interface ProjectsModalProps {
+  projects: Project[];
+  onSave: (projects: Project[]) => void;
+  onClose: () => void;
+}
+
+function ProjectsModal({ projects, onSave, onClose }: ProjectsModalProps) {
+  const [draft, setDraft] = useState<Project[]>(projects);
+  const [error, setError] = useState<string | null>(null);
+
+  function update(id: string, changes: Partial<Project>) {
+    setDraft((prev) =>
+      prev.map((project) => (project.id === id ? { ...project, ...changes } : project))
+    );
+  }
+
+  function addProject() {
+    setDraft((prev) => [
+      ...prev,
+      {
+        id: generateId(),
+        name: '',
+        color: PROJECT_COLORS[prev.length % PROJECT_COLORS.length],
+        archived: false
+      }
+    ]);
+  }
+
+  function handleSave() {
+    const cleaned = draft.map((project) => ({ ...project, name: project.name.trim() }));
+    for (const project of cleaned) {
+      const problem = projectNameProblem(project.name, cleaned, project.id);
+      if (problem) {
+        setError(project.name ? `${project.name}: ${problem}` : problem);
+        return;
+      }
+    }
+    onSave(cleaned);
+    onClose();
+  }
+
+  return (
+    <div className="fixed inset-0 bg-black bg-opacity-50 flex items-center justify-center z-50">
+      <div className="bg-white text-black rounded p-4 w-[90%] max-w-2xl max-h-[80vh] overflow-y-auto">
+        <h2 className="text-xl font-bold mb-2">Projects</h2>
+        <p className="text-sm mb-4">
+          Pick a project when adding or editing a log or todo. Archived projects
+          keep their colour and totals but no longer show up in the pickers.
+        </p>
+        {error && <div className="mb-4 text-red-600 font-medium">{error}</div>}
+        {draft.length === 0 && <p className="text-sm text-gray-600 mb-4">No projects yet.</p>}
+        <ul className="mb-4">
+          {draft.map((project) => (
+            <li
+              key={project.id}
+              className={
+                'flex flex-wrap items-center gap-2 py-2 border-b border-gray-200' +
+                (project.archived ? ' opacity-60' : '')
+              }
+            >
+              <input
+                type="text"
+                value={project.name}
+                maxLength={MAX_PROJECT_NAME_LENGTH}
+                onChange={(e) => update(project.id, { name: e.target.value })}
+                className="flex-1 min-w-0 p-1 border border-gray-300 rounded text-black"
+                placeholder="Project name"
+              />
+              <div className="flex gap-1">
+                {PROJECT_COLORS.map((color) => (
+                  <button
+                    key={color}
+                    onClick={() => update(project.id, { color })}
+                    className={
+                      'h-5 w-5 rounded-full' +
+                      (project.color === color ? ' ring-2 ring-offset-1 ring-gray-800' : '')
+                    }
+                    style={{ backgroundColor: color }}
+                    title={color}
+                  />
+                ))}
+              </div>
+              <label className="flex items-center gap-1 text-sm">
+                <input
+                  type="checkbox"
+                  checked={project.archived}
+                  onChange={(e) => update(project.id, { archived: e.target.checked })}
+                />
+                Archived
+              </label>
+            </li>
+          ))}
+        </ul>
+        <div className="flex justify-between gap-2">
+          <button
+            onClick={addProject}
+            className="px-4 py-2 bg-gray-200 text-gray-800 rounded hover:bg-gray-300"
+          >
+            Add project
+          </button>
+          <div className="flex gap-2">
+            <button
+              onClick={onClose}
+              className="px-4 py-2 bg-gray-200 text-gray-800 rounded hover:bg-gray-300"
+            >
+              Cancel
+            </button>
+            <button
+              onClick={handleSave}
+              className="px-4 py-2 bg-blue-500 text-white rounded hover:bg-blue-600"
+            >
+              Save
+            </button>
+          </div>
+        </div>
+      </div>
+    </div>
+  );
+}
+
+interface ProjectReportModalProps {
+  logs: LogsByDate;
+  projects: Project[];
+  /** Last day of the initial range, which covers the week up to it. */
+  endDate: string;
+  onClose: () => void;
+}
+
+function ProjectReportModal({ logs, projects, endDate, onClose }: ProjectReportModalProps) {
+  const [from, setFrom] = useState<string>(() => {
+    const d = new Date(endDate);
+    d.setDate(d.getDate() - 6);
+    return d.toISOString().split('T')[0];
+  });
+  const [to, setTo] = useState<string>(endDate);
+  const report = from && to && from <= to ? rangeProjectTotals(logs, from, to) : null;
+  const total = report
+    ? Object.values(report.totals).reduce((sum, ms) => sum + ms, 0)
+    : 0;
+
+  return (
+    <div className="fixed inset-0 bg-black bg-opacity-50 flex items-center justify-center z-50">
+      <div className="bg-white text-black rounded p-4 w-[90%] max-w-2xl max-h-[80vh] overflow-y-auto">
+        <h2 className="text-xl font-bold mb-2">Time by project</h2>
+        <div className="flex items-center gap-2 mb-4 text-sm">
+          <input
+            type="date"
+            value={from}
+            onChange={(e) => setFrom(e.target.value)}
+            className="p-1 border border-gray-300 rounded text-black"
+          />
+          <span>to</span>
+          <input
+            type="date"
+            value={to}
+            onChange={(e) => setTo(e.target.value)}
+            className="p-1 border border-gray-300 rounded text-black"
+          />
+        </div>
+        {!report && <p className="text-sm text-red-600 mb-4">Pick a start on or before the end.</p>}
+        {report && report.days.length === 0 && (
+          <p className="text-sm text-gray-600 mb-4">No logged time in this range.</p>
+        )}
+        {report && report.days.length > 0 && (
+          <>
+            <div className="mb-4">
+              <div className="font-medium mb-1">Total {formatDuration(total)}</div>
+              <div className="text-sm">
+                <ProjectTotalsList totals={report.totals} projects={projects} />
+              </div>
+            </div>
+            <ul className="text-sm mb-4">
+              {report.days.map((day) => (
+                <li key={day.date} className="py-1 border-b border-gray-200">
+                  <span className="font-medium mr-3">{day.date}</span>
+                  <ProjectTotalsList totals={day.totals} projects={projects} />
+                </li>
+              ))}
+            </ul>
+          </>
+        )}
+        <p className="text-xs text-gray-600 mb-4">
+          A log without an end counts until the next log starts; the last open log of a
+          day is not counted.
+        </p>
+        <div className="flex justify-end">
+          <button
+            onClick={onClose}
+            className="px-4 py-2 bg-gray-200 text-gray-800 rounded hover:bg-gray-300"
+          >
+            Close
+          </button>
+        </div>
+      </div>
+    </div>
+  );
+}
+
+/* ------------------------------------------------------------------
+   Search across all dates
+--------------------------------------------------------------------- */
+/* Briefly highlight an element and bring it into view. */
+function flashElement(element: HTMLElement, className: string) {
+  element.classList.add(className);
+  setTimeout(() => element.classList.remove(className), 1500);
+  element.scrollIntoView({ behavior: 'smooth', block: 'center' });
+}
+
+interface SearchBoxProps {
+  logs: LogsByDate;
+  todos: TodosByDate;
+  projects: Project[];
+  savedSearches: SavedSearch[];
+  isDark: boolean;
+  /** Kept by the page so the saved-search sidebar can run a search. */
+  query: string;
+  onQueryChange: (query: string) => void;
+  /** Focusing the input opens the results. */
+  inputRef: RefObject<HTMLInputElement>;
+  onSelect: (result: SearchResult) => void;
+  onSaveSearch: (query: string) => void;
+}
+
+function SearchBox({
+  logs,
+  todos,
+  projects,
+  savedSearches,
+  isDark,
+  query,
+  onQueryChange,
+  inputRef,
+  onSelect,
+  onSaveSearch
+}: SearchBoxProps) {
+  const [isOpen, setIsOpen] = useState<boolean>(false);
+  const { results, terms, error } = useMemo(
+    () => runSearch(logs, todos, query, { projects }),
+    [logs, todos, query, projects]
+  );
+  const isSaved = savedSearches.some((saved) => saved.query === query.trim());
+
+  function exportResults() {
+    const all = runSearch(logs, todos, query, { projects, limit: Infinity }).results;
+    if (!all.length) return;
+    downloadTextFile('search-results.txt', formatSearchResults(all, logs), 'text/plain');
+  }
+
+  return (
+    <div className="relative max-w-xl mx-auto mb-4">
+      <div className="flex gap-2">
+        <input
+          ref={inputRef}
+          type="search"
+          value={query}
+          onChange={(e) => {
+            onQueryChange(e.target.value);
+            setIsOpen(true);
+          }}
+          onFocus={() => setIsOpen(true)}
+          onBlur={() => setIsOpen(false)}
+          onKeyDown={(e) => {
+            if (e.key === 'Escape') setIsOpen(false);
+            if (e.key === 'Enter' && results.length) {
+              onSelect(results[0]);
+              setIsOpen(false);
+            }
+          }}
+          placeholder='Search, e.g. deploy tag:acme from:2025-01-01 NOT "standup"'
+          className={
+            `flex-1 p-2 border rounded ` +
+            (isDark
+              ? 'bg-gray-700 text-gray-100 border-gray-600'
+              : 'text-gray-900 border-gray-300')
+          }
+        />
+        <button
+          onClick={() => onSaveSearch(query.trim())}
+          disabled={!query.trim() || !!error || isSaved}
+          className={
+            'px-3 rounded text-sm disabled:opacity-40 ' +
+            (isDark ? 'bg-gray-700 hover:bg-gray-600' : 'bg-gray-100 hover:bg-gray-200')
+          }
+          title={isSaved ? 'Already saved' : 'Pin this search'}
+        >
+          Save
+        </button>
+      </div>
+      {isOpen && query.trim() && (
+        <div
+          // keep focus in the input so clicking a result doesn't close the list first
+          onMouseDown={(e) => e.preventDefault()}
+          className={
+            `absolute z-20 mt-1 w-full max-h-96 overflow-y-auto rounded border shadow ` +
+            (isDark ? 'bg-gray-800 border-gray-600' : 'bg-white border-gray-200')
+          }
+        >
+          {error && <div className="p-2 text-sm text-red-500">{error}</div>}
+          {!error && results.length === 0 && <div className="p-2 text-sm">No matches</div>}
+          {results.length > 0 && (
+            <div
+              className={
+                'flex justify-between items-center px-2 py-1 text-xs ' +
+                (isDark ? 'text-gray-400' : 'text-gray-500')
+              }
+            >
+              <span>
+                {results.length === SEARCH_RESULT_LIMIT
+                  ? `Top ${SEARCH_RESULT_LIMIT} results`
+                  : `${results.length} result(s)`}
+              </span>
+              <button onClick={exportResults} className="hover:underline">
+                Export all
+              </button>
+            </div>
+          )}
+          {results.map((result) => (
+            <button
+              key={`${result.kind}:${result.id}`}
+              onClick={() => {
+                onSelect(result);
+                setIsOpen(false);
+              }}
+              className={
+                'block w-full text-left p-2 text-sm ' +
+                (isDark ? 'hover:bg-gray-700' : 'hover:bg-gray-100')
+              }
+            >
+              <span className={isDark ? 'text-gray-400 mr-2' : 'text-gray-500 mr-2'}>
+                {result.date} · {result.kind === 'logs' ? `Log ${result.time}` : 'Todo'}
+              </span>
+              {highlightMatches(markdownToPlainText(result.content), terms).map((part, i) =>
+                part.match ? (
+                  <mark
+                    key={i}
+                    className={isDark ? 'bg-yellow-700 text-gray-100' : 'bg-yellow-200'}
+                  >
+                    {part.text}
+                  </mark>
+                ) : (
+                  <React.Fragment key={i}>{part.text}</React.Fragment>
+                )
+              )}
+            </button>
+          ))}
+        </div>
+      )}
+    </div>
+  );
+}
+
+interface SavedSearchListProps {
+  savedSearches: SavedSearch[];
+  isDark: boolean;
+  onRun: (saved: SavedSearch) => void;
+  onRemove: (id: string) => void;
+}
+
+/* Pinned searches, shown in the sidebar next to the cards. */
+function SavedSearchList({ savedSearches, isDark, onRun, onRemove }: SavedSearchListProps) {
+  return (
+    <div className={'p-3 rounded-lg border ' + (isDark ? 'border-gray-700' : 'border-gray-200')}>
+      <h2 className="text-sm font-semibold mb-2">Saved searches</h2>
+      <ul className="space-y-1">
+        {savedSearches.map((saved) => (
+          <li
+            key={saved.id}
+            className={
+              'flex items-center rounded text-sm ' +
+              (isDark ? 'hover:bg-gray-700' : 'hover:bg-gray-100')
+            }
+          >
+            <button
+              onClick={() => onRun(saved)}
+              className="flex-1 min-w-0 px-2 py-1 text-left truncate"
+              title={`Run "${saved.query}"`}
+            >
+              {saved.query}
+            </button>
+            <button
+              onClick={() => onRemove(saved.id)}
+              className="px-2 opacity-60 hover:opacity-100"
+              title="Unpin"
+            >
+              ✕
+            </button>
+          </li>
+        ))}
+      </ul>
+    </div>
+  );
 }
 
 /* ------------------------------------------------------------------
@@ -164,7 +904,7 @@ interface ConfirmModalProps {
 
 function ConfirmModal({ message, onConfirm, onCancel }: ConfirmModalProps) {
   return (
-    <div className="fixed inset-0 bg-black bg-opacity-50 flex items-center justify-center z-50">
+    <div className="fixed inset-0 bg-black bg-opacity-50 flex items-center justify-center z-[60]">
       <div className="bg-white text-black rounded p-6 w-96">
         <p className="text-lg mb-6">{message}</p>
         <div className="flex justify-end gap-2">
@@ -187,29 +927,1426 @@ function ConfirmModal({ message, onConfirm, onCancel }: ConfirmModalProps) {
 }
 
 /* ------------------------------------------------------------------
-   Import Modal
+   Migration Report Modal
 --------------------------------------------------------------------- */
-interface ImportModalProps {
-  type: 'logs' | 'todos';
-  isOpen: boolean;
+interface MigrationReportModalProps {
+  report: MigrationResult;
   onClose: () => void;
-  onImportConfirm: (items: ParsedItem[]) => void;
-  timeFormat: TimeFormat;
-  timezone: string;
-}
-
-interface ParsedItem {
-  id: string;
-  date?: string;
-  time?: string;
-  content: string;
-  rawTimestamp?: number;
 }
 
-function ImportModal({
-  type,
-  isOpen,
-  onClose,
+function MigrationReportModal({ report, onClose }: MigrationReportModalProps) {
+  return (
+    <div className="fixed inset-0 bg-black bg-opacity-50 flex items-center justify-center z-50">
+      <div className="bg-white text-black rounded p-6 w-[90%] max-w-lg">
+        <h2 className="text-xl font-bold mb-2">Data upgrade report</h2>
+        <p className="text-sm mb-4">
+          Your saved data was upgraded from version {report.fromVersion} to{' '}
+          {report.toVersion}. {report.issues.length} item(s) could not be fully
+          migrated and were kept as-is or dropped:
+        </p>
+        <div className="max-h-64 overflow-auto border p-2 rounded mb-4">
+          {report.issues.map((issue, i) => (
+            <div key={i} className="text-sm mb-1">
+              <span className="font-medium">
+                [{issue.date}] {issue.kind}
+              </span>
+              {issue.content && <span> - {issue.content}</span>}
+              <div className="text-red-600 text-xs">{issue.reason}</div>
+            </div>
+          ))}
+        </div>
+        <div className="flex justify-end">
+          <button
+            onClick={onClose}
+            className="px-4 py-2 bg-blue-500 text-white rounded hover:bg-blue-600"
+          >
+            OK
+          </button>
+        </div>
+      </div>
+    </div>
+  );
+}
+
+/* ------------------------------------------------------------------
+   Trash Modal
+--------------------------------------------------------------------- */
+interface TrashModalProps {
+  entries: TrashEntry[];
+  retentionDays: number;
+  onClose: () => void;
+  onRestore: (entries: TrashEntry[]) => void;
+  onDeleteForever: (entries: TrashEntry[]) => void;
+}
+
+function TrashModal({
+  entries,
+  retentionDays,
+  onClose,
+  onRestore,
+  onDeleteForever
+}: TrashModalProps) {
+  const [selectedMap, setSelectedMap] = useState<Record<string, boolean>>({});
+  const selected = entries.filter((e) => selectedMap[trashEntryKey(e)]);
+
+  // newest deletions first
+  const sorted = [...entries].sort((a, b) => b.deletedAt - a.deletedAt);
+
+  function toggleSelect(key: string) {
+    setSelectedMap((prev) => ({ ...prev, [key]: !prev[key] }));
+  }
+
+  return (
+    <div className="fixed inset-0 bg-black bg-opacity-50 z-50 flex items-center justify-center">
+      <div className="bg-white text-black w-[90%] max-w-2xl rounded p-4 relative">
+        <h2 className="text-xl font-bold mb-2">Trash</h2>
+        <p className="text-sm mb-4">
+          {retentionDays > 0
+            ? `Deleted items are kept for ${retentionDays} day(s), then purged.`
+            : 'Deleted items are kept until you delete them forever.'}
+        </p>
+
+        <div className="flex gap-2 mb-2">
+          <button
+            onClick={() => {
+              const all: Record<string, boolean> = {};
+              entries.forEach((e) => {
+                all[trashEntryKey(e)] = true;
+              });
+              setSelectedMap(all);
+            }}
+            className="text-sm px-2 py-1 bg-gray-100 rounded hover:bg-gray-200"
+          >
+            Select All
+          </button>
+          <button
+            onClick={() => setSelectedMap({})}
+            className="text-sm px-2 py-1 bg-gray-100 rounded hover:bg-gray-200"
+          >
+            Deselect All
+          </button>
+        </div>
+
+        <div className="max-h-72 overflow-auto border p-2 rounded mb-4">
+          {sorted.map((entry) => {
+            const key = trashEntryKey(entry);
+            return (
+              <div key={key} className="flex items-center gap-2 mb-1 text-sm">
+                <input
+                  type="checkbox"
+                  checked={!!selectedMap[key]}
+                  onChange={() => toggleSelect(key)}
+                />
+                <span className="font-medium">
+                  [{entry.date}] {entry.kind === 'logs' ? entry.item.time : 'Todo'}
+                </span>
+                <span className="flex-1 break-all"> - {entry.item.content}</span>
+                <span className="text-xs text-gray-500 whitespace-nowrap">
+                  deleted {new Date(entry.deletedAt).toLocaleString()}
+                </span>
+                <button
+                  onClick={() => onRestore([entry])}
+                  className="text-blue-500 font-medium"
+                  title="Restore to its original day"
+                >
+                  Restore
+                </button>
+              </div>
+            );
+          })}
+          {entries.length === 0 && (
+            <p className="text-gray-400 text-sm">Trash is empty.</p>
+          )}
+        </div>
+
+        <div className="flex justify-end gap-2">
+          <button
+            onClick={() => {
+              onDeleteForever(selected);
+              setSelectedMap({});
+            }}
+            disabled={!selected.length}
+            className="px-4 py-2 bg-red-500 text-white rounded hover:bg-red-600 disabled:opacity-50"
+          >
+            Delete forever
+          </button>
+          <button
+            onClick={() => {
+              onRestore(selected);
+              setSelectedMap({});
+            }}
+            disabled={!selected.length}
+            className="px-4 py-2 bg-blue-500 text-white rounded hover:bg-blue-600 disabled:opacity-50"
+          >
+            Restore selected
+          </button>
+          <button
+            onClick={onClose}
+            className="px-4 py-2 bg-gray-200 text-gray-800 rounded hover:bg-gray-300"
+          >
+            Close
+          </button>
+        </div>
+      </div>
+    </div>
+  );
+}
+
+/* ------------------------------------------------------------------
+   Restore Backup Modal
+--------------------------------------------------------------------- */
+interface RestoreModalProps {
+  currentLogs: LogsByDate;
+  currentTodos: TodosByDate;
+  /** For backups made before log timestamps existed. */
+  timezone: string;
+  onClose: () => void;
+  onRestore: (backup: BackupDocument, mode: RestoreMode) => void;
+}
+
+function RestoreModal({
+  currentLogs,
+  currentTodos,
+  timezone,
+  onClose,
+  onRestore
+}: RestoreModalProps) {
+  const [backup, setBackup] = useState<BackupDocument | null>(null);
+  const [error, setError] = useState<string | null>(null);
+  const [mode, setMode] = useState<RestoreMode>('merge');
+
+  const previews = backup
+    ? previewRestore({ logs: currentLogs, todos: currentTodos }, backup, mode)
+    : [];
+
+  function handleFileChange(e: ChangeEvent<HTMLInputElement>) {
+    const file = e.target.files?.[0];
+    if (!file) return;
+    const reader = new FileReader();
+    reader.onload = (ev) => {
+      const content = ev.target?.result;
+      if (typeof content !== 'string') return;
+      const result = parseBackup(content, timezone);
+      setBackup(result.backup ?? null);
+      setError(result.error ?? null);
+    };
+    reader.readAsText(file);
+  }
+
+  function formatCounts(c: { added: number; updated: number; removed: number }) {
+    const parts = [];
+    if (c.added) parts.push(`+${c.added}`);
+    if (c.updated) parts.push(`~${c.updated}`);
+    if (c.removed) parts.push(`-${c.removed}`);
+    return parts.join(' ') || '—';
+  }
+
+  return (
+    <div className="fixed inset-0 bg-black bg-opacity-50 z-50 flex items-center justify-center">
+      <div className="bg-white text-black w-[90%] max-w-2xl rounded p-4 relative">
+        <h2 className="text-xl font-bold mb-4">Restore Backup</h2>
+
+        <label className="block text-sm font-medium mb-1">Backup file</label>
+        <input
+          type="file"
+          accept=".json,application/json"
+          onChange={handleFileChange}
+          className="border p-2 w-full mb-2"
+        />
+        {error && <div className="mb-2 text-red-600 font-medium">{error}</div>}
+
+        {backup && (
+          <>
+            <p className="text-sm mb-2">
+              Backup of <span className="font-medium">{backup.username}</span>{' '}
+              from {new Date(backup.exportedAt).toLocaleString()}.
+            </p>
+            <div className="flex gap-4 mb-2 text-sm">
+              <label className="flex items-center gap-1">
+                <input
+                  type="radio"
+                  checked={mode === 'merge'}
+                  onChange={() => setMode('merge')}
+                />
+                Merge by id (keep everything else)
+              </label>
+              <label className="flex items-center gap-1">
+                <input
+                  type="radio"
+                  checked={mode === 'replace'}
+                  onChange={() => setMode('replace')}
+                />
+                Replace all data and settings
+              </label>
+            </div>
+
+            <h3 className="font-semibold mb-2">Changes by date</h3>
+            <div className="max-h-48 overflow-auto border p-2 rounded mb-4 text-sm">
+              {previews.map((p) => (
+                <div key={p.date} className="flex gap-4 mb-1">
+                  <span className="font-medium w-28">{p.date}</span>
+                  <span>Logs: {formatCounts(p.logs)}</span>
+                  <span>Todos: {formatCounts(p.todos)}</span>
+                </div>
+              ))}
+              {previews.length === 0 && (
+                <p className="text-gray-400">Nothing would change.</p>
+              )}
+            </div>
+          </>
+        )}
+
+        <div className="flex justify-end gap-2">
+          <button
+            onClick={onClose}
+            className="px-4 py-2 bg-gray-200 text-gray-800 rounded hover:bg-gray-300"
+          >
+            Cancel
+          </button>
+          <button
+            onClick={() => {
+              if (!backup) return;
+              onRestore(backup, mode);
+              onClose();
+            }}
+            disabled={!backup || previews.length === 0}
+            className="px-4 py-2 bg-blue-500 text-white rounded hover:bg-blue-600 disabled:opacity-50"
+          >
+            Restore
+          </button>
+        </div>
+      </div>
+    </div>
+  );
+}
+
+/* ------------------------------------------------------------------
+   Passphrase Modals
+--------------------------------------------------------------------- */
+interface UnlockModalProps {
+  username: string;
+  /** Set when a passphrase change was cut short and needs both passphrases. */
+  needsPrevious: boolean;
+  /** Resolves to an error message, or null once unlocked. */
+  onUnlock: (passphrase: string, previousPassphrase: string) => Promise<string | null>;
+  onLogout: () => void;
+}
+
+function UnlockModal({ username, needsPrevious, onUnlock, onLogout }: UnlockModalProps) {
+  const [passphrase, setPassphrase] = useState<string>('');
+  const [previous, setPrevious] = useState<string>('');
+  const [error, setError] = useState<string | null>(null);
+  const [busy, setBusy] = useState<boolean>(false);
+
+  async function handleSubmit(e: FormEvent<HTMLFormElement>) {
+    e.preventDefault();
+    if (!passphrase || (needsPrevious && !previous)) return;
+    setBusy(true);
+    const err = await onUnlock(passphrase, previous);
+    setBusy(false);
+    if (err) setError(err);
+  }
+
+  return (
+    <div className="min-h-screen bg-white flex flex-col items-center justify-center">
+      <div className="bg-white text-black rounded p-6 w-80 border shadow">
+        <h2 className="text-2xl font-bold mb-2">Unlock</h2>
+        {needsPrevious ? (
+          <p className="text-sm mb-4">
+            A passphrase change for <span className="font-medium">{username}</span>{' '}
+            was interrupted. Enter the new and the previous passphrase to finish it.
+          </p>
+        ) : (
+          <p className="text-sm mb-4">
+            Data for <span className="font-medium">{username}</span> is encrypted.
+            Enter your passphrase to continue.
+          </p>
+        )}
+        {error && <div className="mb-4 text-red-600 font-medium">{error}</div>}
+        <form onSubmit={handleSubmit}>
+          <input
+            type="password"
+            value={passphrase}
+            onChange={(e) => setPassphrase(e.target.value)}
+            className="w-full p-2 border border-gray-300 rounded text-black mb-4"
+            placeholder={needsPrevious ? 'New passphrase' : 'Passphrase'}
+            autoFocus
+          />
+          {needsPrevious && (
+            <input
+              type="password"
+              value={previous}
+              onChange={(e) => setPrevious(e.target.value)}
+              className="w-full p-2 border border-gray-300 rounded text-black mb-4"
+              placeholder="Previous passphrase"
+            />
+          )}
+          <button
+            type="submit"
+            disabled={busy}
+            className="w-full bg-blue-600 text-white rounded p-2 hover:bg-blue-700 disabled:opacity-50 mb-2"
+          >
+            {busy ? 'Unlocking...' : 'Unlock'}
+          </button>
+        </form>
+        <button
+          onClick={onLogout}
+          className="w-full bg-gray-200 text-gray-800 rounded p-2 hover:bg-gray-300"
+        >
+          Logout
+        </button>
+      </div>
+    </div>
+  );
+}
+
+type EncryptionAction = 'enable' | 'change' | 'disable';
+
+interface EncryptionModalProps {
+  action: EncryptionAction;
+  onClose: () => void;
+  /** Resolves to an error message, or null on success. */
+  onSubmit: (current: string, next: string) => Promise<string | null>;
+}
+
+function EncryptionModal({ action, onClose, onSubmit }: EncryptionModalProps) {
+  const [current, setCurrent] = useState<string>('');
+  const [next, setNext] = useState<string>('');
+  const [confirm, setConfirm] = useState<string>('');
+  const [error, setError] = useState<string | null>(null);
+  const [busy, setBusy] = useState<boolean>(false);
+
+  const needsCurrent = action !== 'enable';
+  const needsNext = action !== 'disable';
+  const title = {
+    enable: 'Enable encryption',
+    change: 'Change passphrase',
+    disable: 'Disable encryption'
+  }[action];
+
+  async function handleSubmit(e: FormEvent<HTMLFormElement>) {
+    e.preventDefault();
+    if (needsCurrent && !current) {
+      setError('Please enter your current passphrase');
+      return;
+    }
+    if (needsNext && next.length < 8) {
+      setError('Passphrase must be at least 8 characters');
+      return;
+    }
+    if (needsNext && next !== confirm) {
+      setError('Passphrases do not match');
+      return;
+    }
+    setBusy(true);
+    const err = await onSubmit(current, next);
+    setBusy(false);
+    if (err) {
+      setError(err);
+    } else {
+      onClose();
+    }
+  }
+
+  return (
+    <div className="fixed inset-0 bg-black bg-opacity-50 flex items-center justify-center z-50">
+      <div className="bg-white text-black rounded p-6 w-80">
+        <h2 className="text-xl font-bold mb-2">{title}</h2>
+        {action === 'enable' && (
+          <p className="text-sm mb-4">
+            Your data will be encrypted in this browser. If you forget the
+            passphrase it cannot be recovered.
+          </p>
+        )}
+        {error && <div className="mb-4 text-red-600 font-medium">{error}</div>}
+        <form onSubmit={handleSubmit}>
+          {needsCurrent && (
+            <input
+              type="password"
+              value={current}
+              onChange={(e) => setCurrent(e.target.value)}
+              className="w-full p-2 border border-gray-300 rounded text-black mb-2"
+              placeholder="Current passphrase"
+            />
+          )}
+          {needsNext && (
+            <>
+              <input
+                type="password"
+                value={next}
+                onChange={(e) => setNext(e.target.value)}
+                className="w-full p-2 border border-gray-300 rounded text-black mb-2"
+                placeholder="New passphrase"
+              />
+              <input
+                type="password"
+                value={confirm}
+                onChange={(e) => setConfirm(e.target.value)}
+                className="w-full p-2 border border-gray-300 rounded text-black mb-2"
+                placeholder="Confirm new passphrase"
+              />
+            </>
+          )}
+          <div className="flex justify-end gap-2 mt-2">
+            <button
+              type="button"
+              onClick={onClose}
+              className="px-4 py-2 bg-gray-200 text-gray-800 rounded hover:bg-gray-300"
+            >
+              Cancel
+            </button>
+            <button
+              type="submit"
+              disabled={busy}
+              className="px-4 py-2 bg-blue-500 text-white rounded hover:bg-blue-600 disabled:opacity-50"
+            >
+              {busy ? 'Working...' : 'Confirm'}
+            </button>
+          </div>
+        </form>
+      </div>
+    </div>
+  );
+}
+
+/* ------------------------------------------------------------------
+   Change Password Modal
+--------------------------------------------------------------------- */
+interface ChangePasswordModalProps {
+  onClose: () => void;
+}
+
+function ChangePasswordModal({ onClose }: ChangePasswordModalProps) {
+  const [current, setCurrent] = useState<string>('');
+  const [next, setNext] = useState<string>('');
+  const [confirm, setConfirm] = useState<string>('');
+  const [error, setError] = useState<string | null>(null);
+  const [done, setDone] = useState<boolean>(false);
+  const [busy, setBusy] = useState<boolean>(false);
+
+  async function handleSubmit(e: FormEvent<HTMLFormElement>) {
+    e.preventDefault();
+    if (!current) {
+      setError('Please enter your current password');
+      return;
+    }
+    const problem = passwordProblem(next);
+    if (problem) {
+      setError(problem);
+      return;
+    }
+    if (next !== confirm) {
+      setError('Passwords do not match');
+      return;
+    }
+    setBusy(true);
+    try {
+      await changePassword(current, next);
+      setError(null);
+      setDone(true);
+    } catch (err) {
+      setError(err instanceof ApiError ? err.message : 'Could not reach the server');
+    } finally {
+      setBusy(false);
+    }
+  }
+
+  return (
+    <div className="fixed inset-0 bg-black bg-opacity-50 flex items-center justify-center z-50">
+      <div className="bg-white text-black rounded p-6 w-80">
+        <h2 className="text-xl font-bold mb-2">Change password</h2>
+        {done ? (
+          <>
+            <p className="text-sm mb-4">
+              Your password was changed. Other devices have been signed out.
+            </p>
+            <div className="flex justify-end">
+              <button
+                onClick={onClose}
+                className="px-4 py-2 bg-blue-500 text-white rounded hover:bg-blue-600"
+              >
+                Close
+              </button>
+            </div>
+          </>
+        ) : (
+          <>
+            {error && <div className="mb-4 text-red-600 font-medium">{error}</div>}
+            <form onSubmit={handleSubmit}>
+              <input
+                type="password"
+                value={current}
+                onChange={(e) => setCurrent(e.target.value)}
+                className="w-full p-2 border border-gray-300 rounded text-black mb-2"
+                placeholder="Current password"
+              />
+              <input
+                type="password"
+                value={next}
+                onChange={(e) => setNext(e.target.value)}
+                className="w-full p-2 border border-gray-300 rounded text-black mb-2"
+                placeholder="New password"
+              />
+              <input
+                type="password"
+                value={confirm}
+                onChange={(e) => setConfirm(e.target.value)}
+                className="w-full p-2 border border-gray-300 rounded text-black mb-2"
+                placeholder="Confirm new password"
+              />
+              <div className="flex justify-end gap-2 mt-2">
+                <button
+                  type="button"
+                  onClick={onClose}
+                  className="px-4 py-2 bg-gray-200 text-gray-800 rounded hover:bg-gray-300"
+                >
+                  Cancel
+                </button>
+                <button
+                  type="submit"
+                  disabled={busy}
+                  className="px-4 py-2 bg-blue-500 text-white rounded hover:bg-blue-600 disabled:opacity-50"
+                >
+                  {busy ? 'Working...' : 'Confirm'}
+                </button>
+              </div>
+            </form>
+          </>
+        )}
+      </div>
+    </div>
+  );
+}
+
+/* ------------------------------------------------------------------
+   Idle Lock Modal
+--------------------------------------------------------------------- */
+interface IdleLockModalProps {
+  username: string;
+  /** False when no PIN is set or too many wrong PINs were entered. */
+  allowPin: boolean;
+  /** Each resolves to an error message, or null once unlocked. */
+  onUnlockPin: (pin: string) => Promise<string | null>;
+  onUnlockPassword: (password: string) => Promise<string | null>;
+  onLogout: () => void;
+}
+
+function IdleLockModal({
+  username,
+  allowPin,
+  onUnlockPin,
+  onUnlockPassword,
+  onLogout
+}: IdleLockModalProps) {
+  const [usePassword, setUsePassword] = useState<boolean>(!allowPin);
+  const [secret, setSecret] = useState<string>('');
+  const [error, setError] = useState<string | null>(null);
+  const [busy, setBusy] = useState<boolean>(false);
+  const withPassword = usePassword || !allowPin;
+
+  async function handleSubmit(e: FormEvent<HTMLFormElement>) {
+    e.preventDefault();
+    if (!secret) return;
+    setBusy(true);
+    const err = withPassword ? await onUnlockPassword(secret) : await onUnlockPin(secret);
+    setBusy(false);
+    if (err) {
+      setError(err);
+      setSecret('');
+    }
+  }
+
+  return (
+    <div className="fixed inset-0 bg-black bg-opacity-50 flex items-center justify-center z-[70]">
+      <div className="bg-white text-black rounded p-6 w-80">
+        <h2 className="text-2xl font-bold mb-2 flex items-center gap-2">
+          <Lock className="h-5 w-5" />
+          Locked
+        </h2>
+        <p className="text-sm mb-4">
+          Time Chapter was locked after a period of inactivity. Enter{' '}
+          {withPassword ? 'the password' : 'the PIN'} for{' '}
+          <span className="font-medium">{username}</span> to continue.
+        </p>
+        {error && <div className="mb-4 text-red-600 font-medium">{error}</div>}
+        <form onSubmit={handleSubmit}>
+          <input
+            key={withPassword ? 'password' : 'pin'}
+            type="password"
+            inputMode={withPassword ? undefined : 'numeric'}
+            value={secret}
+            onChange={(e) => setSecret(e.target.value)}
+            className="w-full p-2 border border-gray-300 rounded text-black mb-4"
+            placeholder={withPassword ? 'Password' : 'PIN'}
+            autoFocus
+          />
+          <button
+            type="submit"
+            disabled={busy}
+            className="w-full bg-blue-600 text-white rounded p-2 hover:bg-blue-700 disabled:opacity-50 mb-2"
+          >
+            {busy ? 'Unlocking...' : 'Unlock'}
+          </button>
+        </form>
+        {allowPin && (
+          <button
+            onClick={() => {
+              setUsePassword(!usePassword);
+              setSecret('');
+              setError(null);
+            }}
+            className="w-full text-sm text-blue-600 hover:underline mb-2"
+          >
+            {usePassword ? 'Use PIN instead' : 'Use password instead'}
+          </button>
+        )}
+        <button
+          onClick={onLogout}
+          className="w-full bg-gray-200 text-gray-800 rounded p-2 hover:bg-gray-300"
+        >
+          Logout
+        </button>
+      </div>
+    </div>
+  );
+}
+
+/* ------------------------------------------------------------------
+   Lock PIN Modal
+--------------------------------------------------------------------- */
+interface PinModalProps {
+  onClose: () => void;
+  onSubmit: (pin: string) => Promise<void>;
+}
+
+function PinModal({ onClose, onSubmit }: PinModalProps) {
+  const [pin, setPin] = useState<string>('');
+  const [confirm, setConfirm] = useState<string>('');
+  const [error, setError] = useState<string | null>(null);
+  const [busy, setBusy] = useState<boolean>(false);
+
+  async function handleSubmit(e: FormEvent<HTMLFormElement>) {
+    e.preventDefault();
+    const problem = pinProblem(pin);
+    if (problem) {
+      setError(problem);
+      return;
+    }
+    if (pin !== confirm) {
+      setError('PINs do not match');
+      return;
+    }
+    setBusy(true);
+    await onSubmit(pin);
+    setBusy(false);
+    onClose();
+  }
+
+  return (
+    <div className="fixed inset-0 bg-black bg-opacity-50 flex items-center justify-center z-50">
+      <div className="bg-white text-black rounded p-6 w-80">
+        <h2 className="text-xl font-bold mb-2">Lock PIN</h2>
+        <p className="text-sm mb-4">
+          Used to unlock Time Chapter after it locks itself. Your password
+          always works too.
+        </p>
+        {error && <div className="mb-4 text-red-600 font-medium">{error}</div>}
+        <form onSubmit={handleSubmit}>
+          <input
+            type="password"
+            inputMode="numeric"
+            value={pin}
+            onChange={(e) => setPin(e.target.value)}
+            className="w-full p-2 border border-gray-300 rounded text-black mb-2"
+            placeholder="PIN (4-8 digits)"
+          />
+          <input
+            type="password"
+            inputMode="numeric"
+            value={confirm}
+            onChange={(e) => setConfirm(e.target.value)}
+            className="w-full p-2 border border-gray-300 rounded text-black mb-2"
+            placeholder="Confirm PIN"
+          />
+          <div className="flex justify-end gap-2 mt-2">
+            <button
+              type="button"
+              onClick={onClose}
+              className="px-4 py-2 bg-gray-200 text-gray-800 rounded hover:bg-gray-300"
+            >
+              Cancel
+            </button>
+            <button
+              type="submit"
+              disabled={busy}
+              className="px-4 py-2 bg-blue-500 text-white rounded hover:bg-blue-600 disabled:opacity-50"
+            >
+              {busy ? 'Working...' : 'Save'}
+            </button>
+          </div>
+        </form>
+      </div>
+    </div>
+  );
+}
+
+/* ------------------------------------------------------------------
+   Sync Status Modal
+--------------------------------------------------------------------- */
+interface SyncModalProps {
+  status: SyncStatus;
+  lastSyncedAt: number | null;
+  conflicts: SyncConflict[];
+  onSyncNow: () => void;
+  onClose: () => void;
+}
+
+const SYNC_STATUS_TEXT: Record<SyncStatus, string> = {
+  synced: 'Up to date with the server.',
+  syncing: 'Syncing...',
+  offline:
+    "Offline. Changes are kept in this browser and sync when you're back online.",
+  error: 'The last sync failed. It will be retried automatically.'
+};
+
+function formatConflictValue(value: unknown): string {
+  if (value === undefined) return '(none)';
+  return typeof value === 'string' ? `"${value}"` : JSON.stringify(value);
+}
+
+function SyncModal({
+  status,
+  lastSyncedAt,
+  conflicts,
+  onSyncNow,
+  onClose
+}: SyncModalProps) {
+  return (
+    <div className="fixed inset-0 bg-black bg-opacity-50 z-50 flex items-center justify-center">
+      <div className="bg-white text-black w-[90%] max-w-2xl rounded p-4 relative">
+        <h2 className="text-xl font-bold mb-2">Sync</h2>
+        <p className="text-sm mb-1">{SYNC_STATUS_TEXT[status]}</p>
+        <p className="text-xs text-gray-500 mb-4">
+          {lastSyncedAt
+            ? `Last synced ${new Date(lastSyncedAt).toLocaleString()}`
+            : 'Not synced yet in this session.'}
+        </p>
+
+        <h3 className="font-semibold mb-1">Resolved conflicts</h3>
+        <p className="text-xs text-gray-500 mb-2">
+          When the same field was changed in two places, the later change was kept.
+        </p>
+        <div className="max-h-72 overflow-auto border p-2 rounded mb-4">
+          {conflicts.map((conflict, i) => (
+            <div key={`${conflict.at}-${conflict.id}-${i}`} className="mb-2 text-sm">
+              <div>
+                <span className="font-medium">
+                  [{conflict.day}] {conflict.kind === 'logs' ? 'Log' : 'Todo'}{' '}
+                  {conflict.field}
+                </span>
+                <span className="text-xs text-gray-500 ml-2">
+                  {new Date(conflict.at).toLocaleString()}
+                </span>
+              </div>
+              <div className="break-all">
+                kept {formatConflictValue(conflict.keptValue)}, discarded{' '}
+                {formatConflictValue(conflict.discardedValue)}
+              </div>
+            </div>
+          ))}
+          {conflicts.length === 0 && (
+            <p className="text-gray-400 text-sm">No conflicts.</p>
+          )}
+        </div>
+
+        <div className="flex justify-end gap-2">
+          <button
+            onClick={onSyncNow}
+            disabled={status === 'syncing'}
+            className="px-4 py-2 bg-blue-500 text-white rounded hover:bg-blue-600 disabled:opacity-50"
+          >
+            Sync now
+          </button>
+          <button
+            onClick={onClose}
+            className="px-4 py-2 bg-gray-200 text-gray-800 rounded hover:bg-gray-300"
+          >
+            Close
+          </button>
+        </div>
+      </div>
+    </div>
+  );
+}
+
+/* ------------------------------------------------------------------
+   Sign-in Activity Modal
+--------------------------------------------------------------------- */
+interface AuthEventsModalProps {
+  onClose: () => void;
+}
+
+function AuthEventsModal({ onClose }: AuthEventsModalProps) {
+  const [events, setEvents] = useState<AuthEvent[] | null>(null);
+  const [error, setError] = useState<string | null>(null);
+
+  useEffect(() => {
+    fetchAuthEvents()
+      .then(setEvents)
+      .catch((err) => {
+        console.error('Failed to load sign-in activity:', err);
+        setError(err instanceof ApiError ? err.message : 'Could not reach the server');
+      });
+  }, []);
+
+  return (
+    <div className="fixed inset-0 bg-black bg-opacity-50 z-50 flex items-center justify-center">
+      <div className="bg-white text-black w-[90%] max-w-2xl rounded p-4 relative">
+        <h2 className="text-xl font-bold mb-2">Sign-in activity</h2>
+        <p className="text-sm mb-4">
+          Recent sign-ins, failed attempts and sign-outs for your account.
+        </p>
+        {error && <div className="mb-4 text-red-600 font-medium">{error}</div>}
+
+        <div className="max-h-72 overflow-auto border p-2 rounded mb-4">
+          {events?.map((event, i) => (
+            <div key={`${event.at}-${i}`} className="flex items-center gap-2 mb-1 text-sm">
+              <span
+                className={
+                  'font-medium ' +
+                  (event.type === 'loginFailed' || event.type === 'lockout'
+                    ? 'text-red-600'
+                    : '')
+                }
+              >
+                {AUTH_EVENT_LABELS[event.type]}
+              </span>
+              <span className="flex-1 truncate text-gray-500" title={event.userAgent}>
+                {event.ip}
+              </span>
+              <span className="text-xs text-gray-500 whitespace-nowrap">
+                {new Date(event.at).toLocaleString()}
+              </span>
+            </div>
+          ))}
+          {events?.length === 0 && (
+            <p className="text-gray-400 text-sm">No activity recorded yet.</p>
+          )}
+          {!events && !error && <p className="text-gray-400 text-sm">Loading...</p>}
+        </div>
+
+        <div className="flex justify-end">
+          <button
+            onClick={onClose}
+            className="px-4 py-2 bg-gray-200 text-gray-800 rounded hover:bg-gray-300"
+          >
+            Close
+          </button>
+        </div>
+      </div>
+    </div>
+  );
+}
+
+/* ------------------------------------------------------------------
+   API Tokens Modal
+--------------------------------------------------------------------- */
+interface ApiTokensModalProps {
+  onClose: () => void;
+}
+
+function ApiTokensModal({ onClose }: ApiTokensModalProps) {
+  const [tokens, setTokens] = useState<ApiTokenInfo[] | null>(null);
+  const [name, setName] = useState<string>('');
+  const [scope, setScope] = useState<ApiTokenScope>('write');
+  const [newToken, setNewToken] = useState<string | null>(null);
+  const [error, setError] = useState<string | null>(null);
+  const [busy, setBusy] = useState<boolean>(false);
+
+  useEffect(() => {
+    fetchApiTokens()
+      .then(setTokens)
+      .catch((err) => {
+        console.error('Failed to load API tokens:', err);
+        setError(err instanceof ApiError ? err.message : 'Could not reach the server');
+      });
+  }, []);
+
+  async function handleCreate(e: FormEvent<HTMLFormElement>) {
+    e.preventDefault();
+    if (!name.trim()) {
+      setError('Please name the token, e.g. "git hook"');
+      return;
+    }
+    setBusy(true);
+    try {
+      const created = await createApiToken(name.trim(), scope);
+      setTokens((prev) => [created.info, ...(prev || [])]);
+      setNewToken(created.token);
+      setName('');
+      setError(null);
+    } catch (err) {
+      setError(err instanceof ApiError ? err.message : 'Could not reach the server');
+    } finally {
+      setBusy(false);
+    }
+  }
+
+  async function handleRevoke(id: string) {
+    try {
+      await revokeApiToken(id);
+      setTokens((prev) => (prev || []).filter((token) => token.id !== id));
+    } catch (err) {
+      setError(err instanceof ApiError ? err.message : 'Could not reach the server');
+    }
+  }
+
+  return (
+    <div className="fixed inset-0 bg-black bg-opacity-50 z-50 flex items-center justify-center">
+      <div className="bg-white text-black w-[90%] max-w-2xl rounded p-4 relative">
+        <h2 className="text-xl font-bold mb-2">API tokens</h2>
+        <p className="text-sm mb-4">
+          Let scripts, git hooks and editor plugins add logs without signing in, e.g.{' '}
+          <code className="text-xs bg-gray-100 px-1 rounded">
+            curl -H &quot;Authorization: Bearer TOKEN&quot; -d &quot;9:30 AM - standup&quot;{' '}
+            {typeof window !== 'undefined' ? window.location.origin : ''}/api/quick-log
+          </code>
+        </p>
+        {error && <div className="mb-4 text-red-600 font-medium">{error}</div>}
+
+        {newToken && (
+          <div className="mb-4 p-2 border border-green-500 rounded bg-green-50">
+            <p className="text-sm mb-1">
+              Copy your new token now. It won&apos;t be shown again.
+            </p>
+            <div className="flex gap-2">
+              <input
+                readOnly
+                value={newToken}
+                onFocus={(e) => e.target.select()}
+                className="flex-1 p-2 border border-gray-300 rounded text-black text-xs font-mono"
+              />
+              <button
+                onClick={() => navigator.clipboard?.writeText(newToken)}
+                className="px-3 py-2 bg-gray-200 text-gray-800 rounded hover:bg-gray-300 text-sm"
+              >
+                Copy
+              </button>
+            </div>
+          </div>
+        )}
+
+        <form onSubmit={handleCreate} className="flex gap-2 mb-4">
+          <input
+            type="text"
+            value={name}
+            maxLength={MAX_TOKEN_NAME_LENGTH}
+            onChange={(e) => setName(e.target.value)}
+            className="flex-1 p-2 border border-gray-300 rounded text-black"
+            placeholder="Token name"
+          />
+          <select
+            value={scope}
+            onChange={(e) => setScope(e.target.value as ApiTokenScope)}
+            className="p-2 border border-gray-300 rounded text-black"
+          >
+            <option value="write">Read &amp; write</option>
+            <option value="read">Read only</option>
+          </select>
+          <button
+            type="submit"
+            disabled={busy}
+            className="px-4 py-2 bg-blue-500 text-white rounded hover:bg-blue-600 disabled:opacity-50"
+          >
+            Create
+          </button>
+        </form>
+
+        <div className="max-h-72 overflow-auto border p-2 rounded mb-4">
+          {tokens?.map((token) => (
+            <div key={token.id} className="flex items-center gap-2 mb-1 text-sm">
+              <span className="font-medium truncate">{token.name}</span>
+              <span className="text-xs text-gray-500">
+                {token.scope === 'write' ? 'read & write' : 'read only'}
+              </span>
+              <span className="flex-1 text-xs text-gray-500 text-right whitespace-nowrap">
+                {token.lastUsedAt
+                  ? `last used ${new Date(token.lastUsedAt).toLocaleString()}`
+                  : `created ${new Date(token.createdAt).toLocaleString()}`}
+              </span>
+              <button
+                onClick={() => handleRevoke(token.id)}
+                className="px-2 py-1 bg-red-500 text-white rounded hover:bg-red-600 text-xs"
+              >
+                Revoke
+              </button>
+            </div>
+          ))}
+          {tokens?.length === 0 && <p className="text-gray-400 text-sm">No tokens yet.</p>}
+          {!tokens && !error && <p className="text-gray-400 text-sm">Loading...</p>}
+        </div>
+
+        <div className="flex justify-end">
+          <button
+            onClick={onClose}
+            className="px-4 py-2 bg-gray-200 text-gray-800 rounded hover:bg-gray-300"
+          >
+            Close
+          </button>
+        </div>
+      </div>
+    </div>
+  );
+}
+
+/* ------------------------------------------------------------------
+   Webhooks Modal
+--------------------------------------------------------------------- */
+interface WebhooksModalProps {
+  onClose: () => void;
+}
+
+function WebhooksModal({ onClose }: WebhooksModalProps) {
+  const [webhooks, setWebhooks] = useState<WebhookInfo[] | null>(null);
+  const [deliveries, setDeliveries] = useState<WebhookDelivery[]>([]);
+  const [url, setUrl] = useState<string>('');
+  const [secret, setSecret] = useState<string>('');
+  const [events, setEvents] = useState<WebhookEventType[]>(['log.created']);
+  const [newSecret, setNewSecret] = useState<string | null>(null);
+  const [error, setError] = useState<string | null>(null);
+  const [busy, setBusy] = useState<boolean>(false);
+
+  function showError(err: unknown) {
+    setError(err instanceof ApiError ? err.message : 'Could not reach the server');
+  }
+
+  function reload() {
+    fetchWebhooks()
+      .then((result) => {
+        setWebhooks(result.webhooks);
+        setDeliveries(result.deliveries);
+      })
+      .catch((err) => {
+        console.error('Failed to load webhooks:', err);
+        showError(err);
+      });
+  }
+
+  useEffect(reload, []);
+
+  function toggleEvent(event: WebhookEventType) {
+    setEvents((prev) =>
+      prev.includes(event) ? prev.filter((e) => e !== event) : [...prev, event]
+    );
+  }
+
+  async function handleCreate(e: FormEvent<HTMLFormElement>) {
+    e.preventDefault();
+    const problem = webhookUrlProblem(url.trim());
+    if (problem) {
+      setError(problem);
+      return;
+    }
+    if (!events.length) {
+      setError('Pick at least one event');
+      return;
+    }
+    setBusy(true);
+    try {
+      const created = await createWebhook(url.trim(), events, secret.trim() || undefined);
+      setWebhooks((prev) => [...(prev || []), created.webhook]);
+      setNewSecret(secret.trim() ? null : created.secret);
+      setUrl('');
+      setSecret('');
+      setError(null);
+    } catch (err) {
+      showError(err);
+    } finally {
+      setBusy(false);
+    }
+  }
+
+  async function handleDelete(id: string) {
+    try {
+      await deleteWebhook(id);
+      setWebhooks((prev) => (prev || []).filter((webhook) => webhook.id !== id));
+    } catch (err) {
+      showError(err);
+    }
+  }
+
+  async function handleTest(id: string) {
+    try {
+      await testWebhook(id);
+      // give the first attempt a moment before showing the history
+      setTimeout(reload, 1000);
+    } catch (err) {
+      showError(err);
+    }
+  }
+
+  return (
+    <div className="fixed inset-0 bg-black bg-opacity-50 z-50 flex items-center justify-center">
+      <div className="bg-white text-black w-[90%] max-w-2xl rounded p-4 relative max-h-[90vh] overflow-auto">
+        <h2 className="text-xl font-bold mb-2">Webhooks</h2>
+        <p className="text-sm mb-4">
+          Time Chapter POSTs a signed JSON payload to each URL when a chosen event happens.
+          Changes made in this browser are sent once they sync to the server.
+        </p>
+        {error && <div className="mb-4 text-red-600 font-medium">{error}</div>}
+
+        {newSecret && (
+          <div className="mb-4 p-2 border border-green-500 rounded bg-green-50">
+            <p className="text-sm mb-1">
+              Signing secret for the new webhook. Copy it now; it won&apos;t be shown again.
+            </p>
+            <input
+              readOnly
+              value={newSecret}
+              onFocus={(e) => e.target.select()}
+              className="w-full p-2 border border-gray-300 rounded text-black text-xs font-mono"
+            />
+          </div>
+        )}
+
+        <form onSubmit={handleCreate} className="mb-4">
+          <input
+            type="text"
+            value={url}
+            onChange={(e) => setUrl(e.target.value)}
+            className="w-full p-2 border border-gray-300 rounded text-black mb-2"
+            placeholder="https://example.com/hooks/timechapter"
+          />
+          <input
+            type="text"
+            value={secret}
+            onChange={(e) => setSecret(e.target.value)}
+            className="w-full p-2 border border-gray-300 rounded text-black mb-2"
+            placeholder="Signing secret (leave empty to generate one)"
+          />
+          <div className="flex flex-wrap gap-x-4 gap-y-1 mb-2 text-sm">
+            {WEBHOOK_EVENT_TYPES.map((event) => (
+              <label key={event} className="flex items-center gap-1">
+                <input
+                  type="checkbox"
+                  checked={events.includes(event)}
+                  onChange={() => toggleEvent(event)}
+                />
+                {WEBHOOK_EVENT_LABELS[event]}
+              </label>
+            ))}
+          </div>
+          <div className="flex justify-end">
+            <button
+              type="submit"
+              disabled={busy}
+              className="px-4 py-2 bg-blue-500 text-white rounded hover:bg-blue-600 disabled:opacity-50"
+            >
+              Add webhook
+            </button>
+          </div>
+        </form>
+
+        <div className="border p-2 rounded mb-4">
+          {webhooks?.map((webhook) => (
+            <div key={webhook.id} className="flex items-center gap-2 mb-1 text-sm">
+              <div className="flex-1 min-w-0">
+                <div className="font-medium truncate">{webhook.url}</div>
+                <div className="text-xs text-gray-500">
+                  {webhook.events.map((event) => WEBHOOK_EVENT_LABELS[event]).join(', ')}
+                </div>
+              </div>
+              <button
+                onClick={() => handleTest(webhook.id)}
+                className="px-2 py-1 bg-gray-200 text-gray-800 rounded hover:bg-gray-300 text-xs"
+              >
+                Send test
+              </button>
+              <button
+                onClick={() => handleDelete(webhook.id)}
+                className="px-2 py-1 bg-red-500 text-white rounded hover:bg-red-600 text-xs"
+              >
+                Delete
+              </button>
+            </div>
+          ))}
+          {webhooks?.length === 0 && <p className="text-gray-400 text-sm">No webhooks yet.</p>}
+          {!webhooks && !error && <p className="text-gray-400 text-sm">Loading...</p>}
+        </div>
+
+        <div className="flex items-center justify-between mb-1">
+          <h3 className="font-semibold">Recent deliveries</h3>
+          <button
+            onClick={reload}
+            className="px-2 py-1 bg-gray-200 text-gray-800 rounded hover:bg-gray-300 text-xs"
+          >
+            Refresh
+          </button>
+        </div>
+        <div className="max-h-60 overflow-auto border p-2 rounded mb-4">
+          {deliveries.map((delivery) => (
+            <div key={delivery.id} className="mb-1 text-sm">
+              <div className="flex items-center gap-2">
+                <span
+                  className={
+                    'font-medium ' +
+                    (delivery.status === 'delivered'
+                      ? 'text-green-600'
+                      : delivery.status === 'failed'
+                        ? 'text-red-600'
+                        : 'text-yellow-600')
+                  }
+                >
+                  {delivery.status}
+                </span>
+                <span>{WEBHOOK_EVENT_LABELS[delivery.event]}</span>
+                <span className="flex-1 truncate text-gray-500">{delivery.url}</span>
+                <span className="text-xs text-gray-500 whitespace-nowrap">
+                  {new Date(delivery.createdAt).toLocaleString()}
+                </span>
+              </div>
+              {(delivery.error || delivery.attempts > 1) && (
+                <div className="text-xs text-gray-500">
+                  {delivery.attempts} attempt{delivery.attempts === 1 ? '' : 's'}
+                  {delivery.error && ` - ${delivery.error}`}
+                  {delivery.nextAttemptAt &&
+                    `, next try ${new Date(delivery.nextAttemptAt).toLocaleTimeString()}`}
+                </div>
+              )}
+            </div>
+          ))}
+          {deliveries.length === 0 && (
+            <p className="text-gray-400 text-sm">Nothing sent yet.</p>
+          )}
+        </div>
+
+        <div className="flex justify-end">
+          <button
+            onClick={onClose}
+            className="px-4 py-2 bg-gray-200 text-gray-800 rounded hover:bg-gray-300"
+          >
+            Close
+          </button>
+        </div>
+      </div>
+    </div>
+  );
+}
+
+/* ------------------------------------------------------------------
+   Data Check Modal
+--------------------------------------------------------------------- */
+interface DataCheckModalProps {
+  logs: LogsByDate;
+  todos: TodosByDate;
+  timezone: string;
+  onClose: () => void;
+  onApply: (issues: IntegrityIssue[]) => void;
+}
+
+function DataCheckModal({
+  logs,
+  todos,
+  timezone,
+  onClose,
+  onApply
+}: DataCheckModalProps) {
+  // scan once when opened; applying fixes closes the modal
+  const [issues] = useState<IntegrityIssue[]>(() =>
+    checkIntegrity({ logs, todos }, timezone)
+  );
+  const [selectedMap, setSelectedMap] = useState<Record<string, boolean>>(() => {
+    const all: Record<string, boolean> = {};
+    issues.forEach((issue) => {
+      all[issue.key] = true;
+    });
+    return all;
+  });
+  const approved = issues.filter((issue) => selectedMap[issue.key]);
+
+  return (
+    <div className="fixed inset-0 bg-black bg-opacity-50 z-50 flex items-center justify-center">
+      <div className="bg-white text-black w-[90%] max-w-2xl rounded p-4 relative">
+        <h2 className="text-xl font-bold mb-2">Check data</h2>
+        <p className="text-sm mb-4">
+          {issues.length
+            ? `Found ${issues.length} issue(s). Choose which fixes to apply.`
+            : 'No problems found.'}
+        </p>
+
+        <div className="max-h-72 overflow-auto border p-2 rounded mb-4">
+          {issues.map((issue) => (
+            <label key={issue.key} className="flex items-start gap-2 mb-2 text-sm">
+              <input
+                type="checkbox"
+                className="mt-1"
+                checked={!!selectedMap[issue.key]}
+                onChange={() =>
+                  setSelectedMap((prev) => ({ ...prev, [issue.key]: !prev[issue.key] }))
+                }
+              />
+              <div className="flex-1">
+                <div>
+                  <span className="font-medium">
+                    [{issue.date}] {issue.kind}
+                  </span>
+                  {issue.content && <span> - {issue.content}</span>}
+                </div>
+                <div className="text-red-600 text-xs">{issue.problem}</div>
+                <div className="text-green-700 text-xs">Fix: {issue.fix}</div>
+              </div>
+            </label>
+          ))}
+        </div>
+
+        <div className="flex justify-end gap-2">
+          <button
+            onClick={onClose}
+            className="px-4 py-2 bg-gray-200 text-gray-800 rounded hover:bg-gray-300"
+          >
+            Close
+          </button>
+          <button
+            onClick={() => {
+              onApply(approved);
+              onClose();
+            }}
+            disabled={!approved.length}
+            className="px-4 py-2 bg-blue-500 text-white rounded hover:bg-blue-600 disabled:opacity-50"
+          >
+            Apply {approved.length} fix(es)
+          </button>
+        </div>
+      </div>
+    </div>
+  );
+}
+
+/* ------------------------------------------------------------------
+   Import Modal
+--------------------------------------------------------------------- */
+interface ImportModalProps {
+  type: 'logs' | 'todos';
+  isOpen: boolean;
+  onClose: () => void;
+  onImportConfirm: (items: ParsedItem[]) => void;
+  timeFormat: TimeFormat;
+  timezone: string;
+}
+
+interface ParsedItem {
+  id: string;
+  date?: string;
+  time?: string;
+  content: string;
+  rawTimestamp?: number;
+  endTimestamp?: number;
+}
+
+function ImportModal({
+  type,
+  isOpen,
+  onClose,
   onImportConfirm,
   timeFormat,
   timezone
@@ -304,10 +2441,13 @@ function ImportModal({
         }
 
         let rawTimestamp = Date.now();
+        let endTimestamp: number | undefined;
         try {
           // If datePart is missing, assume "today"
           const dateStr = datePart || new Date().toISOString().slice(0, 10);
-          const [hour, minute] = parseTimePart(timePart, timeFormat);
+          // "9:00 AM-10:30 AM" carries an end time
+          const range = splitTimeRange(timePart);
+          const [hour, minute] = parseTimePart(range.start, timeFormat);
           // use a Date w/ user’s chosen TZ
           const dt = new Date(
             new Date().toLocaleString('en-US', { timeZone: timezone })
@@ -316,6 +2456,14 @@ function ImportModal({
           dt.setFullYear(yyyy, mm - 1, dd);
           dt.setHours(hour ?? 0, minute ?? 0, 0, 0);
           rawTimestamp = dt.getTime();
+          if (range.end) {
+            const end = resolveLogEnd(range.end, rawTimestamp, (h, m) => {
+              const endDt = new Date(dt);
+              endDt.setHours(h, m, 0, 0);
+              return endDt.getTime();
+            });
+            endTimestamp = end ?? undefined;
+          }
         } catch {
           rawTimestamp = Date.now();
         }
@@ -325,7 +2473,8 @@ function ImportModal({
           date: datePart,
           time: timePart,
           content: contentPart,
-          rawTimestamp
+          rawTimestamp,
+          endTimestamp
         };
       });
     } else {
@@ -565,11 +2714,15 @@ export default function Page(): JSX.Element {
   /* --------------------------------
      Auth State
   ---------------------------------- */
-  const [isLoggedIn, setIsLoggedIn] = useState<boolean>(false);
   const [user, setUser] = useState<UserObject | null>(null);
+  const [sessionChecked, setSessionChecked] = useState<boolean>(false);
+  const [sessionExpiresAt, setSessionExpiresAt] = useState<number | null>(null);
+  const isLoggedIn = user !== null;
   const [loginUsername, setLoginUsername] = useState<string>('');
   const [loginPassword, setLoginPassword] = useState<string>('');
+  const [loginPasswordConfirm, setLoginPasswordConfirm] = useState<string>('');
   const [showLoginModal, setShowLoginModal] = useState<boolean>(false);
+  const [authMode, setAuthMode] = useState<'login' | 'signup'>('login');
   const [alert, setAlert] = useState<{ type: string; message: string } | null>(
     null
   );
@@ -582,6 +2735,11 @@ export default function Page(): JSX.Element {
   const [todos, setTodos] = useState<TodosByDate>({});
   const [newLog, setNewLog] = useState<string>('');
   const [newTodo, setNewTodo] = useState<string>('');
+  // Project picked for the next log / todo ('' = none)
+  const [newLogProjectId, setNewLogProjectId] = useState<string>('');
+  const [newTodoProjectId, setNewTodoProjectId] = useState<string>('');
+  // Tags the Todos and Logs cards are narrowed to (an item needs all of them)
+  const [tagFilter, setTagFilter] = useState<string[]>([]);
   const [selectedDate, setSelectedDate] = useState<string>(
     new Date().toISOString().split('T')[0]
   );
@@ -604,13 +2762,22 @@ export default function Page(): JSX.Element {
   // Editing logs & todos
   const [editingTodoId, setEditingTodoId] = useState<string | null>(null);
   const [editedTodoContent, setEditedTodoContent] = useState<string>('');
+  const [editedTodoProjectId, setEditedTodoProjectId] = useState<string>('');
   const [editingLogId, setEditingLogId] = useState<string | null>(null);
-  const [editedLogTime, setEditedLogTime] = useState<string>('');
+  const [editedLogStart, setEditedLogStart] = useState<string>('');
+  // end time or duration; empty means "until the next log"
+  const [editedLogEnd, setEditedLogEnd] = useState<string>('');
   const [editedLogContent, setEditedLogContent] = useState<string>('');
+  const [editedLogProjectId, setEditedLogProjectId] = useState<string>('');
   const [editError, setEditError] = useState<string | null>(null);
 
   // Refs for logs so "Jump" can highlight them
   const logRefs = useRef<Record<string, RefObject<HTMLDivElement>>>({});
+  // Pinned search queries, and the log to highlight once its day is on screen
+  const [savedSearches, setSavedSearches] = useState<SavedSearch[]>([]);
+  const [searchQuery, setSearchQuery] = useState<string>('');
+  const searchInputRef = useRef<HTMLInputElement>(null);
+  const [pendingHighlight, setPendingHighlight] = useState<string | null>(null);
 
   // Confirm modal for clearing items
   const [confirmModal, setConfirmModal] = useState<ConfirmModalState>({
@@ -620,100 +2787,924 @@ export default function Page(): JSX.Element {
     onCancel: () => {}
   });
 
+  // Issues left over after upgrading stored data, shown once after load
+  const [migrationReport, setMigrationReport] = useState<MigrationResult | null>(
+    null
+  );
+
+  // Undo/redo history and the toast offering to undo the last change
+  const [history, setHistory] = useState<HistoryState>(EMPTY_HISTORY);
+  const [undoToast, setUndoToast] = useState<{ label: string; undoable: boolean } | null>(
+    null
+  );
+  const undoToastTimer = useRef<ReturnType<typeof setTimeout> | null>(null);
+
+  // Trash bin for deleted logs/todos
+  const [trash, setTrash] = useState<TrashEntry[]>([]);
+  const [trashRetentionDays, setTrashRetentionDays] = useState<number>(
+    DEFAULT_TRASH_RETENTION_DAYS
+  );
+  const [isTrashOpen, setIsTrashOpen] = useState<boolean>(false);
+
+  // Encryption at rest: the unlocked key, and whether we're waiting for it
+  const [encryptionKey, setEncryptionKey] = useState<CryptoKey | null>(null);
+  const [isEncrypted, setIsEncrypted] = useState<boolean>(false);
+  const [needsUnlock, setNeedsUnlock] = useState<boolean>(false);
+  // A rewrite that was cut short, finished by the next unlock
+  const [pendingEncryption, setPendingEncryption] = useState<PendingEncryption | null>(
+    null
+  );
+  const [encryptionAction, setEncryptionAction] = useState<EncryptionAction | null>(
+    null
+  );
+
+  // Integrity checker
+  const [isDataCheckOpen, setIsDataCheckOpen] = useState<boolean>(false);
+
+  // Full-account restore
+  const [isRestoreOpen, setIsRestoreOpen] = useState<boolean>(false);
+
+  // Account management
+  const [isChangePasswordOpen, setIsChangePasswordOpen] = useState<boolean>(false);
+  const [isAuthEventsOpen, setIsAuthEventsOpen] = useState<boolean>(false);
+  const [isApiTokensOpen, setIsApiTokensOpen] = useState<boolean>(false);
+  const [isWebhooksOpen, setIsWebhooksOpen] = useState<boolean>(false);
+
+  // Idle auto-lock: timeout, PIN hash ('' = none) and the active lock, if any
+  const [idleLockMinutes, setIdleLockMinutes] = useState<number>(
+    DEFAULT_IDLE_LOCK_MINUTES
+  );
+  const [lockPin, setLockPin] = useState<string>('');
+  const [idleLock, setIdleLock] = useState<IdleLockState | null>(null);
+  const [isPinModalOpen, setIsPinModalOpen] = useState<boolean>(false);
+  const lastActivityRef = useRef<number>(Date.now());
+  const dashboardRef = useRef<HTMLDivElement>(null);
+
+  // Server sync: status for the header, and whether a round is running
+  const [syncStatus, setSyncStatus] = useState<SyncStatus>('synced');
+  const [lastSyncedAt, setLastSyncedAt] = useState<number | null>(null);
+  const [syncConflicts, setSyncConflicts] = useState<SyncConflict[]>([]);
+  const [isSyncOpen, setIsSyncOpen] = useState<boolean>(false);
+  const syncInFlightRef = useRef<boolean>(false);
+  const syncAgainRef = useRef<boolean>(false);
+
+  // Projects, and the modals to manage them and see their time
+  const [projects, setProjects] = useState<Project[]>([]);
+  const [isProjectsOpen, setIsProjectsOpen] = useState<boolean>(false);
+  const [isProjectReportOpen, setIsProjectReportOpen] = useState<boolean>(false);
+
+  // Running timer, and the clock it's shown against (ticks while running)
+  const [activeTimer, setActiveTimer] = useState<ActiveTimer | null>(null);
+  const [timerNow, setTimerNow] = useState<number>(Date.now());
+
   // Import modals for logs/todos
   const [importLogsOpen, setImportLogsOpen] = useState<boolean>(false);
   const [importTodosOpen, setImportTodosOpen] = useState<boolean>(false);
 
-  // user-specific localStorage key
+  // user-specific storage key
   const userKey = user ? `timeChapter_${user.username}_` : null;
 
+  // Storage backend for the current user and the snapshots last written to it
+  const storageRef = useRef<StorageAdapter | null>(null);
+  const savedLogsRef = useRef<LogsByDate>({});
+  const savedTodosRef = useRef<TodosByDate>({});
+  const savedSettingsRef = useRef<Partial<Record<SettingName, string>>>({});
+  const [isDataLoaded, setIsDataLoaded] = useState<boolean>(false);
+
+  // Cross-tab sync: this tab's id, its channel, and what arrived from elsewhere
+  const [tabId] = useState<string>(generateId);
+  const [remoteTracker] = useState<RemoteTracker>(createRemoteTracker);
+  const tabChannelRef = useRef<TabChannel | null>(null);
+
   /* --------------------------------
-     On mount => check if user was remembered
+     On mount => ask the server who we are
   ---------------------------------- */
   useEffect(() => {
-    const savedRemember = localStorage.getItem('timeChapter_rememberMe');
-    const savedUser = localStorage.getItem('timeChapter_savedUser');
-    if (savedRemember === 'true' && savedUser) {
-      try {
-        const parsed = JSON.parse(savedUser) as UserObject;
-        setUser(parsed);
-        setIsLoggedIn(true);
-      } catch {}
-    }
+    // pre-session builds kept the "remembered" user in localStorage
+    localStorage.removeItem('timeChapter_rememberMe');
+    localStorage.removeItem('timeChapter_savedUser');
+
+    fetchSession()
+      .then((sessionUser) => {
+        setUser(sessionUser);
+        setSessionExpiresAt(sessionUser?.expiresAt ?? null);
+      })
+      .catch((error) => console.error('Failed to check session:', error))
+      .finally(() => setSessionChecked(true));
   }, []);
 
+  /* --------------------------------
+     Session expiry => log out automatically
+  ---------------------------------- */
+  useEffect(() => {
+    if (!user || sessionExpiresAt === null) return;
+    const username = user.username;
+    let cancelled = false;
+
+    // Ask the server whether the session is still good; log out if not
+    function recheck() {
+      fetchSession()
+        .then((sessionUser) => {
+          if (cancelled) return;
+          if (sessionUser?.username === username) {
+            setSessionExpiresAt(sessionUser.expiresAt);
+            return;
+          }
+          resetSignedInState();
+          setAuthMode('login');
+          setAlert({ type: 'error', message: 'Your session has expired. Please log in again.' });
+          setShowLoginModal(true);
+        })
+        .catch((error) => console.error('Failed to check session:', error));
+    }
+
+    const delay = Math.min(
+      Math.max(sessionExpiresAt - Date.now(), 0),
+      SESSION_CHECK_MAX_DELAY
+    );
+    const timer = setTimeout(recheck, delay);
+    function handleVisibility() {
+      if (document.visibilityState === 'visible') recheck();
+    }
+    document.addEventListener('visibilitychange', handleVisibility);
+    return () => {
+      cancelled = true;
+      clearTimeout(timer);
+      document.removeEventListener('visibilitychange', handleVisibility);
+    };
+  }, [user, sessionExpiresAt]);
+
   /* --------------------------------
      Once user is set => load their data
   ---------------------------------- */
   useEffect(() => {
     if (!user || !userKey) return;
-    const savedLogs = localStorage.getItem(userKey + 'logs');
-    const savedTodos = localStorage.getItem(userKey + 'todos');
-    const savedTZ = localStorage.getItem(userKey + 'timezone');
-    const savedFormat = localStorage.getItem(userKey + 'timeFormat');
-    const savedTheme = localStorage.getItem(userKey + 'theme');
-    const savedDate = localStorage.getItem(userKey + 'selectedDate');
-
-    if (savedLogs) setLogs(JSON.parse(savedLogs));
-    if (savedTodos) setTodos(JSON.parse(savedTodos));
-    if (savedTZ) setTimezone(savedTZ);
-    if (savedFormat) setTimeFormat(savedFormat as TimeFormat);
-    if (savedTheme === 'dark' || savedTheme === 'light') setTheme(savedTheme);
-    if (savedDate) setSelectedDate(savedDate);
-  }, [user, userKey]);
+    let cancelled = false;
+
+    (async () => {
+      try {
+        const baseStorage = await createStorageAdapter(userKey);
+        const meta = readEncryptionMeta(userKey);
+        const pending = readPendingEncryption(userKey);
+        if (cancelled) return;
+        setIsEncrypted(!!meta);
+        setPendingEncryption(pending);
+        if (pending || (meta && !encryptionKey)) {
+          setNeedsUnlock(true);
+          return;
+        }
+        const storage = encryptionKey
+          ? createEncryptedAdapter(baseStorage, encryptionKey)
+          : baseStorage;
+        const [
+          loadedLogs,
+          loadedTodos,
+          settingValues,
+          storedVersion,
+          savedHistory,
+          savedTrash
+        ] = await Promise.all([
+          storage.loadDays('logs'),
+          storage.loadDays('todos'),
+          Promise.all(SETTING_NAMES.map((name) => storage.getSetting(name))),
+          storage.getSchemaVersion(),
+          storage.getRecord<HistoryState>('history'),
+          storage.getRecord<TrashEntry[]>('trash')
+        ]);
+        if (cancelled) return;
+
+        // Upgrade older payloads before anything else sees them
+        let savedLogs = loadedLogs;
+        let savedTodos = loadedTodos;
+        const hasData =
+          Object.keys(loadedLogs).length > 0 || Object.keys(loadedTodos).length > 0;
+        const fromVersion =
+          storedVersion ?? (hasData ? LEGACY_SCHEMA_VERSION : CURRENT_SCHEMA_VERSION);
+        if (fromVersion < CURRENT_SCHEMA_VERSION) {
+          const savedZone = settingValues[SETTING_NAMES.indexOf('timezone')];
+          const result = migrateData(
+            { logs: loadedLogs, todos: loadedTodos },
+            fromVersion,
+            savedZone || Intl.DateTimeFormat().resolvedOptions().timeZone
+          );
+          savedLogs = result.logs;
+          savedTodos = result.todos;
+          await storage.saveDays('logs', changedDays(loadedLogs, savedLogs));
+          await storage.saveDays('todos', changedDays(loadedTodos, savedTodos));
+          if (result.issues.length) setMigrationReport(result);
+        }
+        if (storedVersion !== CURRENT_SCHEMA_VERSION) {
+          await storage.setSchemaVersion(CURRENT_SCHEMA_VERSION);
+        }
+        if (cancelled) return;
+
+        const saved = {} as Partial<Record<SettingName, string>>;
+        SETTING_NAMES.forEach((name, i) => {
+          const value = settingValues[i];
+          if (value !== null) saved[name] = value;
+        });
+
+        storageRef.current = storage;
+        savedLogsRef.current = savedLogs;
+        savedTodosRef.current = savedTodos;
+        savedSettingsRef.current = saved;
+
+        setLogs(savedLogs);
+        setTodos(savedTodos);
+        setHistory(savedHistory ?? EMPTY_HISTORY);
+        setTrash(savedTrash ?? []);
+        if (saved.timezone) setTimezone(saved.timezone);
+        if (saved.timeFormat) setTimeFormat(saved.timeFormat as TimeFormat);
+        if (saved.theme === 'dark' || saved.theme === 'light') setTheme(saved.theme);
+        if (saved.selectedDate) setSelectedDate(saved.selectedDate);
+        if (saved.trashRetentionDays) {
+          setTrashRetentionDays(Number(saved.trashRetentionDays) || 0);
+        }
+        if (saved.idleLockMinutes) {
+          setIdleLockMinutes(Number(saved.idleLockMinutes) || 0);
+        }
+        setLockPin(saved.lockPin || '');
+        setActiveTimer(parseTimer(saved.activeTimer));
+        setProjects(parseProjects(saved.projects));
+        setSavedSearches(parseSavedSearches(saved.savedSearches));
+        setIdleLock(readIdleLock(userKey));
+        setIsDataLoaded(true);
+      } catch (error) {
+        console.error('Failed to load saved data:', error);
+      }
+    })();
+
+    return () => {
+      cancelled = true;
+    };
+  }, [user, userKey, encryptionKey, needsUnlock]);
 
   /* --------------------------------
-     Save to localStorage whenever data changes
+     Persist only what changed since the last save
   ---------------------------------- */
   useEffect(() => {
-    if (!user || !userKey) return;
-    localStorage.setItem(userKey + 'logs', JSON.stringify(logs));
-    localStorage.setItem(userKey + 'todos', JSON.stringify(todos));
-    localStorage.setItem(userKey + 'timezone', timezone);
-    localStorage.setItem(userKey + 'timeFormat', timeFormat);
-    localStorage.setItem(userKey + 'theme', theme);
-    localStorage.setItem(userKey + 'selectedDate', selectedDate);
-  }, [logs, todos, timezone, timeFormat, theme, selectedDate, user, userKey]);
+    const storage = storageRef.current;
+    if (!isDataLoaded || !storage) return;
+    const prev = savedLogsRef.current;
+    const dirty = changedDays(prev, logs);
+    savedLogsRef.current = logs;
+    if (!Object.keys(dirty).length) return;
+    const changes = remoteTracker.localChanges(prev, dirty);
+    storage
+      .saveDays('logs', dirty)
+      .then(() => {
+        if (!Object.keys(changes).length) return;
+        tabChannelRef.current?.post({
+          type: 'days',
+          source: tabId,
+          kind: 'logs',
+          changes
+        });
+      })
+      .catch((error) => {
+        console.error('Failed to save logs:', error);
+      });
+  }, [logs, isDataLoaded, remoteTracker, tabId]);
+
+  useEffect(() => {
+    const storage = storageRef.current;
+    if (!isDataLoaded || !storage) return;
+    const prev = savedTodosRef.current;
+    const dirty = changedDays(prev, todos);
+    savedTodosRef.current = todos;
+    if (!Object.keys(dirty).length) return;
+    const changes = remoteTracker.localChanges(prev, dirty);
+    storage
+      .saveDays('todos', dirty)
+      .then(() => {
+        if (!Object.keys(changes).length) return;
+        tabChannelRef.current?.post({
+          type: 'days',
+          source: tabId,
+          kind: 'todos',
+          changes
+        });
+      })
+      .catch((error) => {
+        console.error('Failed to save todos:', error);
+      });
+  }, [todos, isDataLoaded, remoteTracker, tabId]);
+
+  useEffect(() => {
+    const storage = storageRef.current;
+    if (!isDataLoaded || !storage) return;
+    const current: Record<SettingName, string> = {
+      timezone,
+      timeFormat,
+      theme,
+      selectedDate,
+      trashRetentionDays: String(trashRetentionDays),
+      idleLockMinutes: String(idleLockMinutes),
+      lockPin,
+      activeTimer: serializeTimer(activeTimer),
+      projects: serializeProjects(projects),
+      savedSearches: serializeSavedSearches(savedSearches)
+    };
+    for (const name of SETTING_NAMES) {
+      if (savedSettingsRef.current[name] === current[name]) continue;
+      savedSettingsRef.current[name] = current[name];
+      const value = current[name];
+      storage
+        .setSetting(name, value)
+        .then(() => {
+          if (!SYNCED_SETTINGS.includes(name)) return;
+          tabChannelRef.current?.post({ type: 'setting', source: tabId, name, value });
+        })
+        .catch((error) => {
+          console.error(`Failed to save ${name}:`, error);
+        });
+    }
+  }, [
+    timezone,
+    timeFormat,
+    theme,
+    selectedDate,
+    trashRetentionDays,
+    idleLockMinutes,
+    lockPin,
+    activeTimer,
+    projects,
+    savedSearches,
+    isDataLoaded,
+    tabId
+  ]);
+
+  useEffect(() => {
+    const storage = storageRef.current;
+    if (!isDataLoaded || !storage) return;
+    storage.setRecord('history', history).catch((error) => {
+      console.error('Failed to save undo history:', error);
+    });
+  }, [history, isDataLoaded]);
+
+  useEffect(() => {
+    const storage = storageRef.current;
+    if (!isDataLoaded || !storage) return;
+    storage.setRecord('trash', trash).catch((error) => {
+      console.error('Failed to save trash:', error);
+    });
+  }, [trash, isDataLoaded]);
+
+  // Purge trashed items past the retention period
+  useEffect(() => {
+    if (!isDataLoaded) return;
+    setTrash((prev) => purgeExpired(prev, trashRetentionDays));
+  }, [trashRetentionDays, isDataLoaded]);
+
+  /* --------------------------------
+     Live sync with other open tabs
+  ---------------------------------- */
+  useEffect(() => {
+    if (!isDataLoaded || !userKey) return;
+    function applyRemoteDays(kind: DayKind, changes: Record<string, DayChange<{ id: string }>>) {
+      remoteTracker.markApplied(changes);
+      if (kind === 'logs') {
+        setLogs((prev) =>
+          applyDayChanges(
+            prev,
+            changes as Record<string, DayChange<LogItem>>,
+            sortLogsByTimestamp
+          )
+        );
+      } else {
+        setTodos((prev) =>
+          applyDayChanges(prev, changes as Record<string, DayChange<TodoItem>>)
+        );
+      }
+    }
+
+    function applyRemoteSetting(name: SettingName, value: string) {
+      // the other tab already persisted it; just adopt the value
+      savedSettingsRef.current[name] = value;
+      if (name === 'timezone') setTimezone(value);
+      if (name === 'timeFormat') setTimeFormat(value as TimeFormat);
+      if (name === 'theme' && (value === 'dark' || value === 'light')) {
+        setTheme(value);
+      }
+      if (name === 'trashRetentionDays') {
+        setTrashRetentionDays(Number(value) || 0);
+      }
+      if (name === 'idleLockMinutes') {
+        setIdleLockMinutes(Number(value) || 0);
+      }
+      if (name === 'lockPin') setLockPin(value);
+      if (name === 'activeTimer') setActiveTimer(parseTimer(value));
+      if (name === 'projects') setProjects(parseProjects(value));
+      if (name === 'savedSearches') {
+        setSavedSearches(parseSavedSearches(value));
+      }
+    }
+
+    const channel = openTabChannel(userKey, (message) => {
+      if (message.source === tabId) return;
+      if (message.type === 'days') {
+        applyRemoteDays(message.kind, message.changes);
+        return;
+      }
+      if (message.type === 'setting') {
+        applyRemoteSetting(message.name, message.value);
+        return;
+      }
+      // signals only: read what changed back through our own adapter
+      const storage = storageRef.current;
+      if (!storage) return;
+      const reread =
+        message.type === 'daysChanged'
+          ? storage
+              .loadDays(message.kind)
+              .then((stored) =>
+                applyRemoteDays(
+                  message.kind,
+                  changesFromSignal(stored, message.days)
+                )
+              )
+          : storage.getSetting(message.name).then((value) => {
+              if (value !== null) applyRemoteSetting(message.name, value);
+            });
+      reread.catch((error) => {
+        console.error('Failed to read changes from another tab:', error);
+      });
+    });
+    tabChannelRef.current = channel;
+    return () => {
+      tabChannelRef.current = null;
+      channel.close();
+    };
+  }, [isDataLoaded, userKey, remoteTracker, tabId]);
 
   /* --------------------------------
      Login / Logout
   ---------------------------------- */
-  function handleLoginSubmit(e: FormEvent<HTMLFormElement>) {
+  async function handleLoginSubmit(e: FormEvent<HTMLFormElement>) {
     e.preventDefault();
     if (!loginUsername.trim() || !loginPassword.trim()) {
       setAlert({ type: 'error', message: 'Please enter username/password' });
       return;
     }
-    if (users[loginUsername] && users[loginUsername].password === loginPassword) {
-      setUser({ username: loginUsername });
-      setIsLoggedIn(true);
+    if (authMode === 'signup') {
+      const problem =
+        usernameProblem(loginUsername.trim()) || passwordProblem(loginPassword);
+      if (problem) {
+        setAlert({ type: 'error', message: problem });
+        return;
+      }
+      if (loginPassword !== loginPasswordConfirm) {
+        setAlert({ type: 'error', message: 'Passwords do not match' });
+        return;
+      }
+    }
+    try {
+      const sessionUser =
+        authMode === 'signup'
+          ? await register(loginUsername.trim(), loginPassword, rememberMe)
+          : await login(loginUsername, loginPassword, rememberMe);
+      setUser(sessionUser);
+      setSessionExpiresAt(sessionUser.expiresAt);
       setShowLoginModal(false);
       setAlert(null);
-
-      if (rememberMe) {
-        localStorage.setItem('timeChapter_rememberMe', 'true');
-        localStorage.setItem(
-          'timeChapter_savedUser',
-          JSON.stringify({ username: loginUsername })
-        );
-      } else {
-        localStorage.removeItem('timeChapter_rememberMe');
-        localStorage.removeItem('timeChapter_savedUser');
-      }
-    } else {
-      setAlert({ type: 'error', message: 'Invalid credentials' });
+      setLoginPassword('');
+      setLoginPasswordConfirm('');
+    } catch (error) {
+      setAlert({
+        type: 'error',
+        message: error instanceof ApiError ? error.message : 'Could not reach the server'
+      });
     }
   }
 
-  function handleLogout() {
+  function openAuthModal(mode: 'login' | 'signup') {
+    setAuthMode(mode);
+    setAlert(null);
+    setShowLoginModal(true);
+  }
+
+  function handleLogout(allDevices = false) {
+    logout(allDevices).catch((error) => console.error('Failed to end session:', error));
+    if (userKey) clearIdleLock(userKey);
+    resetSignedInState();
+  }
+
+  // Forget everything held for the signed-in user
+  function resetSignedInState() {
+    // stop persisting before the state is emptied
+    storageRef.current = null;
+    setIsDataLoaded(false);
     setUser(null);
-    setIsLoggedIn(false);
+    setSessionExpiresAt(null);
     setLogs({});
     setTodos({});
-    localStorage.removeItem('timeChapter_rememberMe');
-    localStorage.removeItem('timeChapter_savedUser');
+    setHistory(EMPTY_HISTORY);
+    setUndoToast(null);
+    setTrash([]);
+    setEncryptionKey(null);
+    setNeedsUnlock(false);
+    setPendingEncryption(null);
+    setIdleLock(null);
+    setLockPin('');
+    setActiveTimer(null);
+    setTagFilter([]);
+    setProjects([]);
+    setSavedSearches([]);
+    setSearchQuery('');
+    setIdleLockMinutes(DEFAULT_IDLE_LOCK_MINUTES);
+    setSyncStatus('synced');
+    setLastSyncedAt(null);
+    setSyncConflicts([]);
+  }
+
+  function confirmDeleteAccount() {
+    setConfirmModal({
+      visible: true,
+      message:
+        'Delete your account and all of its logs, todos and settings? This cannot be undone.',
+      onConfirm: () => {
+        setConfirmModal((s) => ({ ...s, visible: false }));
+        handleDeleteAccount();
+      },
+      onCancel: () => {
+        setConfirmModal((s) => ({ ...s, visible: false }));
+      }
+    });
+  }
+
+  async function handleDeleteAccount() {
+    if (!userKey) return;
+    const keyToWipe = userKey;
+    try {
+      await deleteAccount();
+    } catch (error) {
+      console.error('Failed to delete account:', error);
+      window.alert(
+        error instanceof ApiError ? error.message : 'Could not reach the server'
+      );
+      return;
+    }
+    resetSignedInState();
+    try {
+      clearEncryptionMeta(keyToWipe);
+      clearPendingEncryption(keyToWipe);
+      clearIdleLock(keyToWipe);
+      await deleteUserData(keyToWipe);
+    } catch (error) {
+      console.error('Failed to remove local data:', error);
+    }
+  }
+
+  /* --------------------------------
+     Encryption: unlock / enable / change / disable
+  ---------------------------------- */
+  async function handleUnlock(
+    passphrase: string,
+    previousPassphrase: string
+  ): Promise<string | null> {
+    if (!userKey) return 'Encryption settings are missing';
+    const pending = readPendingEncryption(userKey);
+    if (pending) return finishPendingEncryption(pending, passphrase, previousPassphrase);
+    const meta = readEncryptionMeta(userKey);
+    if (!meta) return 'Encryption settings are missing';
+    const key = await unlockWithPassphrase(meta, passphrase);
+    if (!key) return 'Wrong passphrase';
+    setNeedsUnlock(false);
+    setEncryptionKey(key);
+    return null;
+  }
+
+  // Roll an interrupted rewrite forward to the staged target
+  async function finishPendingEncryption(
+    pending: PendingEncryption,
+    passphrase: string,
+    previousPassphrase: string
+  ): Promise<string | null> {
+    if (!userKey) return null;
+    const toKey = pending.to && (await unlockWithPassphrase(pending.to, passphrase));
+    if (pending.to && !toKey) return 'Wrong passphrase';
+    const fromKey =
+      pending.from &&
+      (await unlockWithPassphrase(
+        pending.from,
+        pending.to ? previousPassphrase : passphrase
+      ));
+    if (pending.from && !fromKey) {
+      return pending.to ? 'Wrong previous passphrase' : 'Wrong passphrase';
+    }
+    try {
+      await rewriteEncryption(await createStorageAdapter(userKey), fromKey, toKey);
+    } catch (error) {
+      console.error('Failed to finish re-encrypting:', error);
+      return 'Could not finish re-encrypting your data';
+    }
+    commitPendingEncryption(userKey, pending);
+    setPendingEncryption(null);
+    setIsEncrypted(!!pending.to);
+    setNeedsUnlock(false);
+    setEncryptionKey(toKey);
+    return null;
+  }
+
+  /**
+   * Re-seal the whole store from `fromKey` to `to` (null is plaintext).
+   * The target meta is staged first and committed after the last write;
+   * if the copy fails, what was moved is put back before rethrowing.
+   */
+  async function rewriteStore(
+    fromKey: CryptoKey | null,
+    to: { meta: EncryptionMeta; key: CryptoKey } | null
+  ) {
+    if (!storageRef.current || !userKey) throw new Error('Storage is not ready');
+    const pending: PendingEncryption = {
+      from: readEncryptionMeta(userKey),
+      to: to ? to.meta : null
+    };
+    const toKey = to ? to.key : null;
+    const base = await createStorageAdapter(userKey);
+    writePendingEncryption(userKey, pending);
+    try {
+      await rewriteEncryption(base, fromKey, toKey);
+    } catch (error) {
+      try {
+        await rewriteEncryption(base, toKey, fromKey);
+        clearPendingEncryption(userKey);
+        storageRef.current = fromKey ? createEncryptedAdapter(base, fromKey) : base;
+      } catch (rollbackError) {
+        // Left pending: keep reading both sides, the next unlock finishes it
+        console.error('Failed to roll back re-encryption:', rollbackError);
+        const keys = [toKey, fromKey].filter((key): key is CryptoKey => key !== null);
+        storageRef.current = createEncryptedAdapter(base, keys[0], keys.slice(1));
+      }
+      throw error;
+    }
+    commitPendingEncryption(userKey, pending);
+    storageRef.current = toKey ? createEncryptedAdapter(base, toKey) : base;
+  }
+
+  async function handleEncryptionSubmit(
+    currentPassphrase: string,
+    newPassphrase: string
+  ): Promise<string | null> {
+    if (!userKey || !encryptionAction) return null;
+    try {
+      let currentKey: CryptoKey | null = null;
+      if (encryptionAction !== 'enable') {
+        const meta = readEncryptionMeta(userKey);
+        currentKey = meta && (await unlockWithPassphrase(meta, currentPassphrase));
+        if (!currentKey) return 'Current passphrase is wrong';
+      }
+      if (encryptionAction === 'disable') {
+        await rewriteStore(currentKey, null);
+        setIsEncrypted(false);
+        setEncryptionKey(null);
+        return null;
+      }
+      const { meta, key } = await createEncryptionMeta(newPassphrase);
+      await rewriteStore(currentKey, { meta, key });
+      setIsEncrypted(true);
+      setEncryptionKey(key);
+      return null;
+    } catch (error) {
+      console.error('Failed to update encryption:', error);
+      return 'Could not re-encrypt your data';
+    }
+  }
+
+  /* --------------------------------
+     Server sync
+  ---------------------------------- */
+  // Push what was last saved locally and pull what changed elsewhere
+  async function runSync() {
+    const storage = storageRef.current;
+    if (!storage || !userKey) return;
+    if (syncInFlightRef.current) {
+      syncAgainRef.current = true;
+      return;
+    }
+    if (!navigator.onLine) {
+      setSyncStatus('offline');
+      return;
+    }
+    syncInFlightRef.current = true;
+    setSyncStatus('syncing');
+    const snapshot = { logs: savedLogsRef.current, todos: savedTodosRef.current };
+    try {
+      const { incoming, conflicts } = await syncRound(storage, userKey + 'sync', snapshot);
+      // signed out (or re-encrypted) while the request was out
+      if (storageRef.current !== storage) return;
+      if (incoming.length) {
+        setLogs((prev) => applyIncoming({ logs: prev, todos: {} }, snapshot, incoming).logs);
+        setTodos((prev) => applyIncoming({ logs: {}, todos: prev }, snapshot, incoming).todos);
+      }
+      setSyncConflicts(conflicts);
+      setLastSyncedAt(Date.now());
+      setSyncStatus('synced');
+    } catch (error) {
+      if (error instanceof ApiError) {
+        console.error('Sync failed:', error);
+        setSyncStatus('error');
+      } else {
+        setSyncStatus('offline');
+      }
+    } finally {
+      syncInFlightRef.current = false;
+      if (syncAgainRef.current) {
+        syncAgainRef.current = false;
+        runSync();
+      }
+    }
+  }
+  // timers and listeners call the latest runSync, which sees the current user
+  const runSyncRef = useRef(runSync);
+  runSyncRef.current = runSync;
+
+  // Sync shortly after edits settle (and once right after loading)
+  useEffect(() => {
+    if (!isDataLoaded) return;
+    const timer = setTimeout(() => runSyncRef.current(), SYNC_DEBOUNCE_MS);
+    return () => clearTimeout(timer);
+  }, [logs, todos, isDataLoaded]);
+
+  // ...and periodically, and as soon as the connection comes back
+  useEffect(() => {
+    if (!isDataLoaded) return;
+    const sync = () => runSyncRef.current();
+    const interval = setInterval(sync, SYNC_INTERVAL_MS);
+    const handleOffline = () => setSyncStatus('offline');
+    window.addEventListener('online', sync);
+    window.addEventListener('offline', handleOffline);
+    return () => {
+      clearInterval(interval);
+      window.removeEventListener('online', sync);
+      window.removeEventListener('offline', handleOffline);
+    };
+  }, [isDataLoaded]);
+
+  /* --------------------------------
+     Idle auto-lock
+  ---------------------------------- */
+  // Lock once there's been no input for `idleLockMinutes`
+  useEffect(() => {
+    if (!isDataLoaded || !userKey || idleLock || idleLockMinutes <= 0) return;
+    const key = userKey;
+    lastActivityRef.current = Date.now();
+    const events = ['mousemove', 'mousedown', 'keydown', 'touchstart', 'wheel', 'scroll'];
+    function markActive() {
+      lastActivityRef.current = Date.now();
+    }
+    // an interval rather than one long timeout also catches time spent asleep
+    const interval = setInterval(() => {
+      if (Date.now() - lastActivityRef.current < idleLockMinutes * 60 * 1000) return;
+      const locked: IdleLockState = { pinFailures: 0 };
+      writeIdleLock(key, locked);
+      setIdleLock(locked);
+    }, 15 * 1000);
+    events.forEach((name) => window.addEventListener(name, markActive, true));
+    return () => {
+      clearInterval(interval);
+      events.forEach((name) => window.removeEventListener(name, markActive, true));
+    };
+  }, [isDataLoaded, userKey, idleLock, idleLockMinutes]);
+
+  // Keep focus and clicks out of the dashboard while it's locked
+  useEffect(() => {
+    const dashboard = dashboardRef.current;
+    if (!dashboard) return;
+    dashboard.toggleAttribute('inert', !!idleLock);
+    if (idleLock && dashboard.contains(document.activeElement)) {
+      (document.activeElement as HTMLElement).blur();
+    }
+  });
+
+  function unlockIdle() {
+    if (userKey) clearIdleLock(userKey);
+    setIdleLock(null);
+  }
+
+  async function handleIdleUnlockPin(pin: string): Promise<string | null> {
+    if (!userKey || !idleLock) return null;
+    if (lockPin && (await verifyPin(pin, lockPin))) {
+      unlockIdle();
+      return null;
+    }
+    const next = { pinFailures: idleLock.pinFailures + 1 };
+    writeIdleLock(userKey, next);
+    setIdleLock(next);
+    return next.pinFailures >= MAX_PIN_ATTEMPTS
+      ? 'Too many wrong PINs. Enter your password instead.'
+      : 'Wrong PIN';
+  }
+
+  async function handleIdleUnlockPassword(password: string): Promise<string | null> {
+    try {
+      await verifyPassword(password);
+      unlockIdle();
+      return null;
+    } catch (error) {
+      if (error instanceof ApiError && error.status === 401) {
+        // the session itself ended while locked
+        handleLogout();
+        return null;
+      }
+      return error instanceof ApiError ? error.message : 'Could not reach the server';
+    }
+  }
+
+  async function handleSetPin(pin: string | null) {
+    setLockPin(pin === null ? '' : await hashPin(pin));
+  }
+
+  /* --------------------------------
+     Undo / Redo
+  ---------------------------------- */
+  // Apply a user edit to logs and/or todos and record it for undo
+  function commitChange(label: string, next: { logs?: LogsByDate; todos?: TodosByDate }) {
+    const entry = createHistoryEntry(generateId(), label, { logs, todos }, next);
+    if (next.logs) setLogs(next.logs);
+    if (next.todos) setTodos(next.todos);
+    if (!entry) return;
+    setHistory((prev) => pushHistory(prev, entry));
+    moveToTrash(entry, 'after');
+    showUndoToast(label, isUndoable(entry));
+  }
+
+  // Trash whatever the entry's days lost going to `to`; un-trash what came back
+  function moveToTrash(entry: HistoryEntry, to: 'before' | 'after') {
+    const from = to === 'after' ? 'before' : 'after';
+    const { logs: logPatch, todos: todoPatch } = entry;
+    setTrash((prev) => {
+      let next = prev;
+      if (logPatch) next = reconcileTrash(next, 'logs', logPatch[from], logPatch[to]);
+      if (todoPatch) next = reconcileTrash(next, 'todos', todoPatch[from], todoPatch[to]);
+      return next;
+    });
+  }
+
+  function showUndoToast(label: string, undoable: boolean) {
+    if (undoToastTimer.current) clearTimeout(undoToastTimer.current);
+    setUndoToast({ label, undoable });
+    undoToastTimer.current = setTimeout(() => setUndoToast(null), 5000);
+  }
+
+  // Put the affected day on screen if the user isn't looking at it
+  function revealEntry(entry: HistoryEntry) {
+    const dates = entryDates(entry);
+    if (dates.length && !dates.includes(selectedDate)) {
+      setSelectedDate(dates[0]);
+    }
+  }
+
+  function undo() {
+    const entry = history.past[history.past.length - 1];
+    if (!entry) return;
+    const { logs: logPatch, todos: todoPatch } = entry;
+    if (logPatch) setLogs((prev) => applyDays(prev, logPatch.before));
+    if (todoPatch) setTodos((prev) => applyDays(prev, todoPatch.before));
+    setHistory({
+      past: history.past.slice(0, -1),
+      future: [entry, ...history.future]
+    });
+    moveToTrash(entry, 'before');
+    revealEntry(entry);
+    setUndoToast(null);
+  }
+
+  function redo() {
+    const entry = history.future[0];
+    if (!entry) return;
+    const { logs: logPatch, todos: todoPatch } = entry;
+    if (logPatch) setLogs((prev) => applyDays(prev, logPatch.after));
+    if (todoPatch) setTodos((prev) => applyDays(prev, todoPatch.after));
+    setHistory({
+      past: [...history.past, entry],
+      future: history.future.slice(1)
+    });
+    moveToTrash(entry, 'after');
+    revealEntry(entry);
   }
 
+  // Ctrl+Z / Ctrl+Shift+Z (Cmd on macOS); text fields keep their own undo
+  useEffect(() => {
+    if (!isLoggedIn || idleLock) return;
+    function handleKeyDown(e: KeyboardEvent) {
+      if (!(e.ctrlKey || e.metaKey) || e.key.toLowerCase() !== 'z') return;
+      const target = e.target as HTMLElement | null;
+      const isTextField =
+        target?.isContentEditable ||
+        ['INPUT', 'TEXTAREA', 'SELECT'].includes(target?.tagName ?? '');
+      if (isTextField) return;
+      e.preventDefault();
+      if (e.shiftKey) {
+        redo();
+      } else {
+        undo();
+      }
+    }
+    window.addEventListener('keydown', handleKeyDown);
+    return () => window.removeEventListener('keydown', handleKeyDown);
+  });
+
   /* --------------------------------
      Timezone / Time Format changes => re-convert logs
   ---------------------------------- */
@@ -743,28 +3734,33 @@ export default function Page(): JSX.Element {
       hour: 'numeric',
       minute: '2-digit'
     });
-    const newLogObj: LogItem = {
-      id: generateId(),
-      time: timeStr,
-      content: newLog,
-      rawTimestamp
-    };
+    const newLogObj = withProject<LogItem>(
+      {
+        id: generateId(),
+        time: timeStr,
+        content: newLog,
+        rawTimestamp
+      },
+      newLogProjectId
+    );
     const dayLogs = logs[selectedDate] || [];
     const updated = sortLogsByTimestamp([...dayLogs, newLogObj]);
-    setLogs({ ...logs, [selectedDate]: updated });
+    commitChange('Add log', { logs: { ...logs, [selectedDate]: updated } });
     setNewLog('');
   }
 
   function removeLog(logId: string) {
     const dayLogs = logs[selectedDate] || [];
     const updated = dayLogs.filter((l) => l.id !== logId);
-    setLogs({ ...logs, [selectedDate]: updated });
+    commitChange('Delete log', { logs: { ...logs, [selectedDate]: updated } });
   }
 
   function startEditingLog(log: LogItem) {
     setEditingLogId(log.id);
-    setEditedLogTime(log.time);
+    setEditedLogStart(log.time);
+    setEditedLogEnd(log.endTime ?? '');
     setEditedLogContent(log.content);
+    setEditedLogProjectId(log.projectId ?? '');
     setEditError(null);
   }
 
@@ -795,45 +3791,72 @@ export default function Page(): JSX.Element {
       const [yyyy, mm, dd] = selectedDate.split('-').map(Number);
       dt.setFullYear(yyyy, mm - 1, dd);
 
-      const [hour, minute] = parseEditedTime(editedLogTime, timeFormat);
+      const [hour, minute] = parseEditedTime(editedLogStart, timeFormat);
       dt.setHours(hour, minute, 0, 0);
 
       const newTS = dt.getTime();
       const hour12 = timeFormat === '12';
-      const newTimeStr = dt.toLocaleTimeString('en-US', {
-        hour12,
-        timeZone: timezone,
-        hour: 'numeric',
-        minute: '2-digit'
-      });
+      const formatTime = (d: Date) =>
+        d.toLocaleTimeString('en-US', {
+          hour12,
+          timeZone: timezone,
+          hour: 'numeric',
+          minute: '2-digit'
+        });
+
+      // an end time or a duration; left empty, the log runs until the next one
+      let endTS: number | null = null;
+      if (editedLogEnd.trim()) {
+        endTS = resolveLogEnd(editedLogEnd, newTS, (h, m) => {
+          const end = new Date(dt);
+          end.setHours(h, m, 0, 0);
+          return end.getTime();
+        });
+        if (endTS === null) {
+          setEditError('Invalid end time or duration');
+          return;
+        }
+      }
 
       const updatedList = dayLogs.map((l) => {
         if (l.id === logId) {
-          return {
-            ...l,
-            time: newTimeStr,
-            content: editedLogContent.trim() || l.content,
-            rawTimestamp: newTS
-          };
+          const edited = withProject<LogItem>(
+            {
+              ...l,
+              time: formatTime(dt),
+              content: editedLogContent.trim() || l.content,
+              rawTimestamp: newTS
+            },
+            editedLogProjectId
+          );
+          delete edited.endTime;
+          delete edited.endTimestamp;
+          if (endTS !== null) {
+            edited.endTime = formatTime(new Date(endTS));
+            edited.endTimestamp = endTS;
+          }
+          return edited;
         }
         return l;
       });
       const sorted = sortLogsByTimestamp(updatedList);
-      setLogs({ ...logs, [selectedDate]: sorted });
+      commitChange('Edit log', { logs: { ...logs, [selectedDate]: sorted } });
     } catch (err) {
       setEditError('Invalid time format');
       return;
     }
 
     setEditingLogId(null);
-    setEditedLogTime('');
+    setEditedLogStart('');
+    setEditedLogEnd('');
     setEditedLogContent('');
     setEditError(null);
   }
 
   function cancelLogEdit() {
     setEditingLogId(null);
-    setEditedLogTime('');
+    setEditedLogStart('');
+    setEditedLogEnd('');
     setEditedLogContent('');
     setEditError(null);
   }
@@ -843,40 +3866,44 @@ export default function Page(): JSX.Element {
   ---------------------------------- */
   function addTodo() {
     if (!newTodo.trim()) return;
-    const newTodoObj: TodoItem = {
-      id: generateId(),
-      content: newTodo.trim(),
-      manualOverride: null
-    };
+    const newTodoObj = withProject<TodoItem>(
+      {
+        id: generateId(),
+        content: newTodo.trim(),
+        manualOverride: null
+      },
+      newTodoProjectId
+    );
     const dayTodos = todos[selectedDate] || [];
     const updated = [...dayTodos, newTodoObj];
-    setTodos({ ...todos, [selectedDate]: updated });
+    commitChange('Add todo', { todos: { ...todos, [selectedDate]: updated } });
     setNewTodo('');
   }
 
   function removeTodo(todoId: string) {
     const dayTodos = todos[selectedDate] || [];
     const updated = dayTodos.filter((t) => t.id !== todoId);
-    setTodos({ ...todos, [selectedDate]: updated });
+    commitChange('Delete todo', { todos: { ...todos, [selectedDate]: updated } });
   }
 
   function startEditingTodo(todo: TodoItem) {
     setEditingTodoId(todo.id);
     setEditedTodoContent(todo.content);
+    setEditedTodoProjectId(todo.projectId ?? '');
   }
 
   function saveTodoEdits(todoId: string) {
     const dayTodos = todos[selectedDate] || [];
     const updated = dayTodos.map((t) => {
       if (t.id === todoId) {
-        return {
-          ...t,
-          content: editedTodoContent.trim() || t.content
-        };
+        return withProject(
+          { ...t, content: editedTodoContent.trim() || t.content },
+          editedTodoProjectId
+        );
       }
       return t;
     });
-    setTodos({ ...todos, [selectedDate]: updated });
+    commitChange('Edit todo', { todos: { ...todos, [selectedDate]: updated } });
     setEditingTodoId(null);
     setEditedTodoContent('');
   }
@@ -914,7 +3941,18 @@ export default function Page(): JSX.Element {
       }
       return t;
     });
-    setTodos({ ...todos, [selectedDate]: updated });
+    commitChange('Toggle todo', { todos: { ...todos, [selectedDate]: updated } });
+  }
+
+  /* --------------------------------
+     Tags: index across all dates, filter
+  ---------------------------------- */
+  const tagIndex = useMemo(() => buildTagIndex(logs, todos), [logs, todos]);
+
+  function toggleTagFilter(tag: string) {
+    setTagFilter((prev) =>
+      prev.includes(tag) ? prev.filter((t) => t !== tag) : [...prev, tag]
+    );
   }
 
   /* --------------------------------
@@ -932,24 +3970,38 @@ export default function Page(): JSX.Element {
 
     const logRef = logRefs.current[matchedLog.id];
     if (!logRef || !logRef.current) return;
+    flashElement(logRef.current, theme === 'dark' ? 'highlight-dark' : 'highlight-light');
+  }
 
-    // add highlight class
-    if (theme === 'dark') {
-      logRef.current.classList.add('highlight-dark');
-    } else {
-      logRef.current.classList.add('highlight-light');
-    }
-    setTimeout(() => {
-      if (theme === 'dark') {
-        logRef.current?.classList.remove('highlight-dark');
-      } else {
-        logRef.current?.classList.remove('highlight-light');
-      }
-    }, 1500);
+  // Go to a search result's day; a log is highlighted once it's rendered
+  function openSearchResult(result: SearchResult) {
+    if (!hasTags(result.content, tagFilter)) setTagFilter([]);
+    setSelectedDate(result.date);
+    if (result.kind === 'logs') setPendingHighlight(result.id);
+  }
 
-    logRef.current.scrollIntoView({ behavior: 'smooth', block: 'center' });
+  function saveSearch(query: string) {
+    setSavedSearches((prev) => [...prev, { id: generateId(), query }]);
   }
 
+  function removeSavedSearch(id: string) {
+    setSavedSearches((prev) => prev.filter((saved) => saved.id !== id));
+  }
+
+  function runSavedSearch(saved: SavedSearch) {
+    setSearchQuery(saved.query);
+    searchInputRef.current?.focus();
+  }
+
+  useEffect(() => {
+    if (!pendingHighlight) return;
+    const element = logRefs.current[pendingHighlight]?.current;
+    if (element) {
+      flashElement(element, theme === 'dark' ? 'highlight-dark' : 'highlight-light');
+    }
+    setPendingHighlight(null);
+  }, [pendingHighlight, theme]);
+
   function createLogRef(logId: string): RefObject<HTMLDivElement> {
     if (!logRefs.current[logId]) {
       logRefs.current[logId] = React.createRef<HTMLDivElement>();
@@ -971,14 +4023,17 @@ export default function Page(): JSX.Element {
       minute: '2-digit'
     });
     const dayLogs = logs[selectedDate] || [];
-    const newLogObj: LogItem = {
-      id: generateId(),
-      time: timeStr,
-      content: todo.content,
-      rawTimestamp
-    };
+    const newLogObj = withProject<LogItem>(
+      {
+        id: generateId(),
+        time: timeStr,
+        content: todo.content,
+        rawTimestamp
+      },
+      todo.projectId ?? ''
+    );
     const updated = sortLogsByTimestamp([...dayLogs, newLogObj]);
-    setLogs({ ...logs, [selectedDate]: updated });
+    commitChange('Copy todo to logs', { logs: { ...logs, [selectedDate]: updated } });
   }
 
   /* --------------------------------
@@ -986,12 +4041,81 @@ export default function Page(): JSX.Element {
   ---------------------------------- */
   function copyLogToTodo(log: LogItem) {
     const dayTodos = todos[selectedDate] || [];
-    const newTodoObj: TodoItem = {
+    const newTodoObj = withProject<TodoItem>(
+      {
+        id: generateId(),
+        content: log.content,
+        manualOverride: null
+      },
+      log.projectId ?? ''
+    );
+    commitChange('Copy log to todos', {
+      todos: { ...todos, [selectedDate]: [...dayTodos, newTodoObj] }
+    });
+  }
+
+  /* --------------------------------
+     Running timer
+  ---------------------------------- */
+  useEffect(() => {
+    if (!activeTimer) return;
+    setTimerNow(Date.now());
+    const interval = setInterval(() => setTimerNow(Date.now()), 1000);
+    return () => clearInterval(interval);
+  }, [activeTimer]);
+
+  function startTimer(content: string, todoId?: string, projectId?: string) {
+    if (!content.trim()) return;
+    // only one activity at a time: the one running is logged first
+    if (activeTimer) commitChange('Stop timer', { logs: logTimer(activeTimer) });
+    setActiveTimer({
+      content,
+      startedAt: Date.now(),
+      ...(todoId ? { todoId } : {}),
+      ...(projectId ? { projectId } : {})
+    });
+  }
+
+  function stopTimer() {
+    if (!activeTimer) return;
+    commitChange('Stop timer', { logs: logTimer(activeTimer) });
+    setActiveTimer(null);
+  }
+
+  // The logs with the timer's activity added, on the day it started
+  function logTimer(timer: ActiveTimer): LogsByDate {
+    const hour12 = timeFormat === '12';
+    const format = (timestamp: number) =>
+      new Date(timestamp).toLocaleTimeString('en-US', {
+        hour12,
+        timeZone: timezone,
+        hour: 'numeric',
+        minute: '2-digit'
+      });
+    const endTimestamp = Math.max(Date.now(), timer.startedAt + 1000);
+    const newLogObj: LogItem = {
       id: generateId(),
-      content: log.content,
-      manualOverride: null
+      time: format(timer.startedAt),
+      content: timer.content,
+      rawTimestamp: timer.startedAt,
+      endTime: format(endTimestamp),
+      endTimestamp,
+      ...(timer.todoId ? { todoId: timer.todoId } : {}),
+      ...(timer.projectId ? { projectId: timer.projectId } : {})
     };
-    setTodos({ ...todos, [selectedDate]: [...dayTodos, newTodoObj] });
+    const dateKey = dateKeyInTimezone(timer.startedAt, timezone);
+    const dayLogs = logs[dateKey] || [];
+    return { ...logs, [dateKey]: sortLogsByTimestamp([...dayLogs, newLogObj]) };
+  }
+
+  function handleTimerButton() {
+    if (activeTimer) {
+      stopTimer();
+      return;
+    }
+    if (!newLog.trim()) return;
+    startTimer(newLog, undefined, newLogProjectId);
+    setNewLog('');
   }
 
   /* --------------------------------
@@ -1004,24 +4128,28 @@ export default function Page(): JSX.Element {
       const dayLogs = updated[dKey] || [];
 
       const rawTS = it.rawTimestamp ?? Date.now();
-      const d = new Date(rawTS);
       const hour12 = timeFormat === '12';
-      const newTime = d.toLocaleTimeString('en-US', {
-        hour12,
-        timeZone: timezone,
-        hour: 'numeric',
-        minute: '2-digit'
-      });
+      const formatTime = (timestamp: number) =>
+        new Date(timestamp).toLocaleTimeString('en-US', {
+          hour12,
+          timeZone: timezone,
+          hour: 'numeric',
+          minute: '2-digit'
+        });
 
       const newLog: LogItem = {
         id: generateId(),
         rawTimestamp: rawTS,
-        time: newTime,
+        time: formatTime(rawTS),
         content: it.content
       };
+      if (it.endTimestamp !== undefined) {
+        newLog.endTime = formatTime(it.endTimestamp);
+        newLog.endTimestamp = it.endTimestamp;
+      }
       updated[dKey] = sortLogsByTimestamp([...dayLogs, newLog]);
     }
-    setLogs(updated);
+    commitChange(`Import ${items.length} log(s)`, { logs: updated });
   }
 
   function handleImportTodosConfirm(items: ParsedItem[]) {
@@ -1034,10 +4162,122 @@ export default function Page(): JSX.Element {
         content: it.content,
         manualOverride: null
       };
-      dayTodos.push(newTodo);
-      updated[dKey] = dayTodos;
+      updated[dKey] = [...dayTodos, newTodo];
+    }
+    commitChange(`Import ${items.length} todo(s)`, { todos: updated });
+  }
+
+  /* --------------------------------
+     Trash: restore / delete forever
+  ---------------------------------- */
+  function restoreFromTrash(entries: TrashEntry[]) {
+    if (!entries.length) return;
+    const days = entriesToDays(entries);
+    const nextLogs = { ...logs };
+    for (const [dKey, items] of Object.entries(days.logs)) {
+      const dayLogs = nextLogs[dKey] || [];
+      const ids = new Set(dayLogs.map((l) => l.id));
+      nextLogs[dKey] = sortLogsByTimestamp([
+        ...dayLogs,
+        ...items.filter((l) => !ids.has(l.id))
+      ]);
+    }
+    const nextTodos = { ...todos };
+    for (const [dKey, items] of Object.entries(days.todos)) {
+      const dayTodos = nextTodos[dKey] || [];
+      const ids = new Set(dayTodos.map((t) => t.id));
+      nextTodos[dKey] = [...dayTodos, ...items.filter((t) => !ids.has(t.id))];
+    }
+    // restored ids reappear in their days, so commitChange takes them out of the trash
+    commitChange(`Restore ${entries.length} item(s) from trash`, {
+      logs: Object.keys(days.logs).length ? nextLogs : undefined,
+      todos: Object.keys(days.todos).length ? nextTodos : undefined
+    });
+  }
+
+  function deleteFromTrashForever(entries: TrashEntry[]) {
+    if (!entries.length) return;
+    setConfirmModal({
+      visible: true,
+      message: `Permanently delete ${entries.length} item(s)? This cannot be undone.`,
+      onConfirm: () => {
+        const keys = new Set(entries.map(trashEntryKey));
+        setTrash((prev) => prev.filter((e) => !keys.has(trashEntryKey(e))));
+        setConfirmModal((s) => ({ ...s, visible: false }));
+      },
+      onCancel: () => {
+        setConfirmModal((s) => ({ ...s, visible: false }));
+      }
+    });
+  }
+
+  /* --------------------------------
+     Full-account backup / restore
+  ---------------------------------- */
+  function backupEverything() {
+    if (!user) return;
+    const backup = createBackup(
+      user.username,
+      { logs, todos },
+      {
+        timezone,
+        timeFormat,
+        theme,
+        trashRetentionDays: String(trashRetentionDays),
+        idleLockMinutes: String(idleLockMinutes),
+        projects: serializeProjects(projects),
+        savedSearches: serializeSavedSearches(savedSearches)
+      }
+    );
+    const today = new Date().toISOString().split('T')[0];
+    downloadTextFile(
+      `timechapter-backup-${user.username}-${today}.json`,
+      JSON.stringify(backup, null, 2),
+      'application/json'
+    );
+  }
+
+  function handleRestoreConfirm(backup: BackupDocument, mode: RestoreMode) {
+    // replace adopts the backup's settings, merge keeps the current ones
+    const settings = mode === 'replace' ? backup.settings : {};
+    const nextTz = settings.timezone || timezone;
+    const nextFormat = (settings.timeFormat as TimeFormat) || timeFormat;
+
+    // render incoming times in the timezone/format that will be in effect
+    const incoming = {
+      ...backup,
+      logs: convertAllLogs(backup.logs, nextTz, nextFormat)
+    };
+    const next = applyRestore({ logs, todos }, incoming, mode);
+    commitChange(`Restore backup (${mode})`, next);
+
+    if (mode === 'replace') {
+      setTimezone(nextTz);
+      setTimeFormat(nextFormat);
+      if (settings.theme === 'dark' || settings.theme === 'light') {
+        setTheme(settings.theme);
+      }
+      if (settings.trashRetentionDays) {
+        setTrashRetentionDays(Number(settings.trashRetentionDays) || 0);
+      }
+      if (settings.idleLockMinutes) {
+        setIdleLockMinutes(Number(settings.idleLockMinutes) || 0);
+      }
+      // older backups have neither; keep the current ones then
+      if (settings.projects !== undefined) setProjects(parseProjects(settings.projects));
+      if (settings.savedSearches !== undefined) {
+        setSavedSearches(parseSavedSearches(settings.savedSearches));
+      }
     }
-    setTodos(updated);
+  }
+
+  /* --------------------------------
+     Data check => apply approved repairs
+  ---------------------------------- */
+  function handleApplyFixes(issues: IntegrityIssue[]) {
+    if (!issues.length) return;
+    const repaired = applyIntegrityFixes({ logs, todos }, issues);
+    commitChange(`Repair ${issues.length} data issue(s)`, repaired);
   }
 
   /* --------------------------------
@@ -1053,9 +4293,12 @@ export default function Page(): JSX.Element {
         return;
       }
   
+      const spans = logSpans(logs[selectedDate] || []);
       const text = type === 'logs'
-        ? (data as LogItem[]).map((l) => `${l.time} - ${l.content}`).join('\n')
-        : (data as TodoItem[]).map((t) => `- ${t.content}`).join('\n');
+        ? (data as LogItem[])
+            .map((l) => formatLogLine({ ...l, content: markdownToPlainText(l.content) }, spans[l.id]))
+            .join('\n')
+        : (data as TodoItem[]).map((t) => `- ${markdownToPlainText(t.content)}`).join('\n');
       
       console.log('Exporting text:', text);
   
@@ -1105,9 +4348,12 @@ export default function Page(): JSX.Element {
     const data = type === 'logs' ? logs[selectedDate] : todos[selectedDate];
     if (!data?.length) return;
   
+    const spans = logSpans(logs[selectedDate] || []);
     const text = type === 'logs'
-      ? (data as LogItem[]).map((l) => `${l.time} - ${l.content}`).join('\n')
-      : (data as TodoItem[]).map((t) => `- ${t.content}`).join('\n');
+      ? (data as LogItem[])
+          .map((l) => formatLogLine({ ...l, content: markdownToPlainText(l.content) }, spans[l.id]))
+          .join('\n')
+      : (data as TodoItem[]).map((t) => `- ${markdownToPlainText(t.content)}`).join('\n');
   
     navigator.clipboard.writeText(text).then(() => {
       setShowCopyAlert(true);
@@ -1122,9 +4368,13 @@ export default function Page(): JSX.Element {
       message: `Are you sure you want to clear all ${type} for ${selectedDate}?`,
       onConfirm: () => {
         if (type === 'logs') {
-          setLogs((prev) => ({ ...prev, [selectedDate]: [] }));
+          commitChange(`Clear logs for ${selectedDate}`, {
+            logs: { ...logs, [selectedDate]: [] }
+          });
         } else {
-          setTodos((prev) => ({ ...prev, [selectedDate]: [] }));
+          commitChange(`Clear todos for ${selectedDate}`, {
+            todos: { ...todos, [selectedDate]: [] }
+          });
         }
         setConfirmModal((s) => ({ ...s, visible: false }));
       },
@@ -1137,21 +4387,36 @@ export default function Page(): JSX.Element {
   /* --------------------------------
      If not logged in => Show Login
   ---------------------------------- */
+  if (!sessionChecked) {
+    return <div className="min-h-screen bg-white" />;
+  }
+
   if (!isLoggedIn) {
     return (
       <div className="min-h-screen bg-white flex flex-col items-center justify-center">
         <h1 className="text-3xl font-bold text-black mb-4">Time Chapter</h1>
-        <button
-          onClick={() => setShowLoginModal(true)}
-          className="bg-blue-500 text-white px-4 py-2 rounded hover:bg-blue-600 flex items-center gap-2"
-        >
-          <LogIn className="h-5 w-5" />
-          Login
-        </button>
+        <div className="flex gap-2">
+          <button
+            onClick={() => openAuthModal('login')}
+            className="bg-blue-500 text-white px-4 py-2 rounded hover:bg-blue-600 flex items-center gap-2"
+          >
+            <LogIn className="h-5 w-5" />
+            Login
+          </button>
+          <button
+            onClick={() => openAuthModal('signup')}
+            className="bg-gray-200 text-gray-800 px-4 py-2 rounded hover:bg-gray-300 flex items-center gap-2"
+          >
+            <UserPlus className="h-5 w-5" />
+            Sign up
+          </button>
+        </div>
         {showLoginModal && (
           <div className="fixed inset-0 bg-black bg-opacity-50 flex items-center justify-center z-50">
             <div className="bg-white text-black rounded p-6 w-80">
-              <h2 className="text-2xl font-bold mb-4">Login</h2>
+              <h2 className="text-2xl font-bold mb-4">
+                {authMode === 'signup' ? 'Create account' : 'Login'}
+              </h2>
               {alert?.type === 'error' && (
                 <div className="mb-4 text-red-600 font-medium">
                   {alert.message}
@@ -1167,7 +4432,7 @@ export default function Page(): JSX.Element {
                     value={loginUsername}
                     onChange={(e) => setLoginUsername(e.target.value)}
                     className="w-full p-2 border border-gray-300 rounded text-black"
-                    placeholder="admin or user"
+                    placeholder="Username"
                   />
                 </div>
                 <div className="mb-4">
@@ -1179,9 +4444,23 @@ export default function Page(): JSX.Element {
                     value={loginPassword}
                     onChange={(e) => setLoginPassword(e.target.value)}
                     className="w-full p-2 border border-gray-300 rounded text-black"
-                    placeholder="admin or user"
+                    placeholder="Password"
                   />
                 </div>
+                {authMode === 'signup' && (
+                  <div className="mb-4">
+                    <label className="block text-sm font-medium mb-1">
+                      Confirm password
+                    </label>
+                    <input
+                      type="password"
+                      value={loginPasswordConfirm}
+                      onChange={(e) => setLoginPasswordConfirm(e.target.value)}
+                      className="w-full p-2 border border-gray-300 rounded text-black"
+                      placeholder="Password again"
+                    />
+                  </div>
+                )}
                 <label className="flex items-center space-x-2 mb-6">
                   <input
                     type="checkbox"
@@ -1195,9 +4474,17 @@ export default function Page(): JSX.Element {
                   type="submit"
                   className="w-full bg-blue-600 text-white rounded p-2 hover:bg-blue-700"
                 >
-                  Login
+                  {authMode === 'signup' ? 'Create account' : 'Login'}
                 </button>
               </form>
+              <button
+                onClick={() => openAuthModal(authMode === 'signup' ? 'login' : 'signup')}
+                className="w-full text-sm text-blue-600 hover:underline mt-4"
+              >
+                {authMode === 'signup'
+                  ? 'Already have an account? Log in'
+                  : 'No account yet? Sign up'}
+              </button>
             </div>
           </div>
         )}
@@ -1205,6 +4492,20 @@ export default function Page(): JSX.Element {
     );
   }
 
+  /* --------------------------------
+     Encrypted data => ask for the passphrase first
+  ---------------------------------- */
+  if (needsUnlock && user) {
+    return (
+      <UnlockModal
+        username={user.username}
+        needsPrevious={!!(pendingEncryption?.from && pendingEncryption.to)}
+        onUnlock={handleUnlock}
+        onLogout={() => handleLogout()}
+      />
+    );
+  }
+
   /* --------------------------------
      Settings Modal
   ---------------------------------- */
@@ -1290,6 +4591,191 @@ export default function Page(): JSX.Element {
             <option value="24">24-hour</option>
           </select>
 
+          <button
+            onClick={() => {
+              onClose();
+              setIsProjectsOpen(true);
+            }}
+            className="w-full bg-gray-200 text-gray-800 rounded p-2 hover:bg-gray-300 text-sm mb-4"
+          >
+            Projects
+          </button>
+
+          {/* Backup / restore */}
+          <label className="block text-sm font-medium mb-1">Data</label>
+          <div className="flex gap-2 mb-4">
+            <button
+              onClick={backupEverything}
+              className="flex-1 bg-gray-200 text-gray-800 rounded p-2 hover:bg-gray-300 text-sm"
+            >
+              Backup everything
+            </button>
+            <button
+              onClick={() => {
+                onClose();
+                setIsRestoreOpen(true);
+              }}
+              className="flex-1 bg-gray-200 text-gray-800 rounded p-2 hover:bg-gray-300 text-sm"
+            >
+              Restore backup
+            </button>
+          </div>
+
+          <button
+            onClick={() => {
+              onClose();
+              setIsDataCheckOpen(true);
+            }}
+            className="w-full bg-gray-200 text-gray-800 rounded p-2 hover:bg-gray-300 text-sm mb-4"
+          >
+            Check data
+          </button>
+
+          {/* Encryption */}
+          <label className="block text-sm font-medium mb-1">
+            Encryption {isEncrypted ? '(on)' : '(off)'}
+          </label>
+          <div className="flex gap-2 mb-4">
+            {isEncrypted ? (
+              <>
+                <button
+                  onClick={() => {
+                    onClose();
+                    setEncryptionAction('change');
+                  }}
+                  className="flex-1 bg-gray-200 text-gray-800 rounded p-2 hover:bg-gray-300 text-sm"
+                >
+                  Change passphrase
+                </button>
+                <button
+                  onClick={() => {
+                    onClose();
+                    setEncryptionAction('disable');
+                  }}
+                  className="flex-1 bg-gray-200 text-gray-800 rounded p-2 hover:bg-gray-300 text-sm"
+                >
+                  Disable
+                </button>
+              </>
+            ) : (
+              <button
+                onClick={() => {
+                  onClose();
+                  setEncryptionAction('enable');
+                }}
+                className="flex-1 bg-gray-200 text-gray-800 rounded p-2 hover:bg-gray-300 text-sm"
+              >
+                Set a passphrase
+              </button>
+            )}
+          </div>
+
+          {/* Account */}
+          <label className="block text-sm font-medium mb-1">Account</label>
+          <div className="flex gap-2 mb-2">
+            <button
+              onClick={() => {
+                onClose();
+                setIsChangePasswordOpen(true);
+              }}
+              className="flex-1 bg-gray-200 text-gray-800 rounded p-2 hover:bg-gray-300 text-sm"
+            >
+              Change password
+            </button>
+            <button
+              onClick={() => {
+                onClose();
+                confirmDeleteAccount();
+              }}
+              className="flex-1 bg-red-500 text-white rounded p-2 hover:bg-red-600 text-sm"
+            >
+              Delete my account
+            </button>
+          </div>
+          <button
+            onClick={() => {
+              onClose();
+              handleLogout(true);
+            }}
+            className="w-full bg-gray-200 text-gray-800 rounded p-2 hover:bg-gray-300 text-sm mb-2"
+          >
+            Sign out of all devices
+          </button>
+          <button
+            onClick={() => {
+              onClose();
+              setIsAuthEventsOpen(true);
+            }}
+            className="w-full bg-gray-200 text-gray-800 rounded p-2 hover:bg-gray-300 text-sm mb-2"
+          >
+            Sign-in activity
+          </button>
+          <button
+            onClick={() => {
+              onClose();
+              setIsApiTokensOpen(true);
+            }}
+            className="w-full bg-gray-200 text-gray-800 rounded p-2 hover:bg-gray-300 text-sm mb-2"
+          >
+            API tokens
+          </button>
+          <button
+            onClick={() => {
+              onClose();
+              setIsWebhooksOpen(true);
+            }}
+            className="w-full bg-gray-200 text-gray-800 rounded p-2 hover:bg-gray-300 text-sm mb-4"
+          >
+            Webhooks
+          </button>
+
+          {/* Idle lock */}
+          <label className="block text-sm font-medium mb-1">
+            Lock after inactivity (minutes, 0 = never)
+          </label>
+          <input
+            type="number"
+            min={0}
+            value={idleLockMinutes}
+            onChange={(e) =>
+              setIdleLockMinutes(Math.max(0, parseInt(e.target.value, 10) || 0))
+            }
+            className={`w-full p-2 border rounded mb-2 ${inputClass}`}
+          />
+          <div className="flex gap-2 mb-4">
+            <button
+              onClick={() => {
+                onClose();
+                setIsPinModalOpen(true);
+              }}
+              className="flex-1 bg-gray-200 text-gray-800 rounded p-2 hover:bg-gray-300 text-sm"
+            >
+              {lockPin ? 'Change PIN' : 'Set a PIN'}
+            </button>
+            {lockPin && (
+              <button
+                onClick={() => handleSetPin(null)}
+                className="flex-1 bg-gray-200 text-gray-800 rounded p-2 hover:bg-gray-300 text-sm"
+              >
+                Remove PIN
+              </button>
+            )}
+          </div>
+
+          {/* Trash retention */}
+          <label className="block text-sm font-medium mb-1">
+            Keep deleted items (days, 0 = forever)
+          </label>
+          <input
+            type="number"
+            min={0}
+            value={trashRetentionDays}
+            onChange={(e) =>
+              setTrashRetentionDays(Math.max(0, parseInt(e.target.value, 10) || 0))
+            }
+            className={`w-full p-2 border rounded mb-4 ${inputClass}`}
+          />
+
           <button
             onClick={onClose}
             className="w-full bg-blue-500 text-white rounded p-2 hover:bg-blue-600"
@@ -1329,11 +4815,43 @@ export default function Page(): JSX.Element {
     ? 'text-gray-400 mr-2 text-sm'
     : 'text-gray-500 mr-2 text-sm';
 
+  const selectedLogSpans = logSpans(logs[selectedDate] || []);
+  const selectedDayTotals = dayProjectTotals(logs[selectedDate] || []);
+  const hasActiveProjects = projects.some((project) => !project.archived);
+  const projectColor = (projectId?: string) =>
+    projects.find((project) => project.id === projectId)?.color;
+  const pickerClass =
+    `p-1 border rounded text-sm ` +
+    (isDark ? 'bg-gray-700 text-gray-100 border-gray-600' : 'text-gray-900 border-gray-300');
+
+  const visibleTodos = (todos[selectedDate] || []).filter((todo) =>
+    hasTags(todo.content, tagFilter)
+  );
+  const visibleLogs = (logs[selectedDate] || []).filter((log) =>
+    hasTags(log.content, tagFilter)
+  );
+
   /* --------------------------------
      Render
   ---------------------------------- */
   return (
-    <div className={containerClass}>
+    <div
+      ref={dashboardRef}
+      className={containerClass + (idleLock ? ' blur-md select-none' : '')}
+    >
+      {/* portalled so it stays sharp and usable while the dashboard is inert */}
+      {idleLock &&
+        user &&
+        createPortal(
+          <IdleLockModal
+            username={user.username}
+            allowPin={!!lockPin && idleLock.pinFailures < MAX_PIN_ATTEMPTS}
+            onUnlockPin={handleIdleUnlockPin}
+            onUnlockPassword={handleIdleUnlockPassword}
+            onLogout={() => handleLogout()}
+          />,
+          document.body
+        )}
       {confirmModal.visible && (
         <ConfirmModal
           message={confirmModal.message}
@@ -1341,6 +4859,12 @@ export default function Page(): JSX.Element {
           onCancel={confirmModal.onCancel}
         />
       )}
+      {migrationReport && (
+        <MigrationReportModal
+          report={migrationReport}
+          onClose={() => setMigrationReport(null)}
+        />
+      )}
       <ImportModal
         type="logs"
         isOpen={importLogsOpen}
@@ -1357,7 +4881,91 @@ export default function Page(): JSX.Element {
         timeFormat={timeFormat}
         timezone={timezone}
       />
+      {isTrashOpen && (
+        <TrashModal
+          entries={trash}
+          retentionDays={trashRetentionDays}
+          onClose={() => setIsTrashOpen(false)}
+          onRestore={restoreFromTrash}
+          onDeleteForever={deleteFromTrashForever}
+        />
+      )}
+      {isRestoreOpen && (
+        <RestoreModal
+          currentLogs={logs}
+          currentTodos={todos}
+          timezone={timezone}
+          onClose={() => setIsRestoreOpen(false)}
+          onRestore={handleRestoreConfirm}
+        />
+      )}
+      {encryptionAction && (
+        <EncryptionModal
+          action={encryptionAction}
+          onClose={() => setEncryptionAction(null)}
+          onSubmit={handleEncryptionSubmit}
+        />
+      )}
+      {isChangePasswordOpen && (
+        <ChangePasswordModal onClose={() => setIsChangePasswordOpen(false)} />
+      )}
+      {isAuthEventsOpen && (
+        <AuthEventsModal onClose={() => setIsAuthEventsOpen(false)} />
+      )}
+      {isApiTokensOpen && <ApiTokensModal onClose={() => setIsApiTokensOpen(false)} />}
+      {isWebhooksOpen && <WebhooksModal onClose={() => setIsWebhooksOpen(false)} />}
+      {isSyncOpen && (
+        <SyncModal
+          status={syncStatus}
+          lastSyncedAt={lastSyncedAt}
+          conflicts={syncConflicts}
+          onSyncNow={runSync}
+          onClose={() => setIsSyncOpen(false)}
+        />
+      )}
+      {isPinModalOpen && (
+        <PinModal onClose={() => setIsPinModalOpen(false)} onSubmit={handleSetPin} />
+      )}
+      {isDataCheckOpen && (
+        <DataCheckModal
+          logs={logs}
+          todos={todos}
+          timezone={timezone}
+          onClose={() => setIsDataCheckOpen(false)}
+          onApply={handleApplyFixes}
+        />
+      )}
+      {isProjectsOpen && (
+        <ProjectsModal
+          projects={projects}
+          onSave={setProjects}
+          onClose={() => setIsProjectsOpen(false)}
+        />
+      )}
+      {isProjectReportOpen && (
+        <ProjectReportModal
+          logs={logs}
+          projects={projects}
+          endDate={selectedDate}
+          onClose={() => setIsProjectReportOpen(false)}
+        />
+      )}
       {isSettingsOpen && <SettingsModal onClose={() => setIsSettingsOpen(false)} />}
+      {undoToast && (
+        <div className="fixed bottom-4 left-1/2 -translate-x-1/2 bg-gray-800 text-white px-4 py-2 rounded shadow flex items-center gap-4 z-40">
+          <span>{undoToast.label}</span>
+          {undoToast.undoable ? (
+            <button
+              onClick={undo}
+              className="font-semibold text-blue-300 hover:text-blue-200"
+            >
+              Undo
+            </button>
+          ) : (
+            <span className="text-gray-300">Too large to undo</span>
+          )}
+        </div>
+      )}
       {showCopyAlert && (
         <div className="fixed top-4 right-4 bg-green-500 text-white px-4 py-2 rounded">
           Copied to clipboard!
@@ -1378,7 +4986,70 @@ export default function Page(): JSX.Element {
         {/* Header */}
         <header className="flex flex-col items-center mb-6 relative">
           <h1 className="text-3xl font-bold mb-2">Time Chapter</h1>
+          {activeTimer && (
+            <div
+              className={
+                'flex items-center gap-2 px-3 py-1 rounded-full text-sm ' +
+                (isDark ? 'bg-gray-700' : 'bg-green-100 text-green-900')
+              }
+            >
+              <span className="h-2 w-2 rounded-full bg-red-500 animate-pulse" />
+              <span className="max-w-xs truncate">{activeTimer.content}</span>
+              <span className="font-mono">{formatElapsed(timerNow - activeTimer.startedAt)}</span>
+              <button
+                onClick={stopTimer}
+                className="ml-1 p-1 rounded hover:bg-black hover:bg-opacity-10"
+                title="Stop and log it"
+              >
+                <Square className="h-4 w-4" />
+              </button>
+            </div>
+          )}
           <div className="absolute right-4 top-0 flex gap-2">
+            <button
+              onClick={() => setIsSyncOpen(true)}
+              className={topBarButtonClass}
+              title={
+                SYNC_STATUS_TEXT[syncStatus] +
+                (syncConflicts.length ? ` ${syncConflicts.length} resolved conflict(s).` : '')
+              }
+            >
+              {syncStatus === 'syncing' && <RefreshCw className="h-6 w-6 animate-spin" />}
+              {syncStatus === 'synced' && <Cloud className="h-6 w-6" />}
+              {syncStatus === 'offline' && <CloudOff className="h-6 w-6" />}
+              {syncStatus === 'error' && <AlertTriangle className="h-6 w-6 text-red-500" />}
+            </button>
+            <button
+              onClick={undo}
+              disabled={!history.past.length}
+              className={topBarButtonClass + ' disabled:opacity-40'}
+              title={
+                history.past.length
+                  ? `Undo: ${history.past[history.past.length - 1].label} (Ctrl+Z)`
+                  : 'Nothing to undo'
+              }
+            >
+              <Undo2 className="h-6 w-6" />
+            </button>
+            <button
+              onClick={redo}
+              disabled={!history.future.length}
+              className={topBarButtonClass + ' disabled:opacity-40'}
+              title={
+                history.future.length
+                  ? `Redo: ${history.future[0].label} (Ctrl+Shift+Z)`
+                  : 'Nothing to redo'
+              }
+            >
+              <Redo2 className="h-6 w-6" />
+            </button>
+            <button
+              onClick={() => setIsTrashOpen(true)}
+              className={topBarButtonClass}
+              title={`Trash (${trash.length})`}
+            >
+              <ArchiveRestore className="h-6 w-6" />
+            </button>
             <button
               onClick={() => setIsSettingsOpen(true)}
               className={topBarButtonClass}
@@ -1387,7 +5058,7 @@ export default function Page(): JSX.Element {
               <Settings className="h-6 w-6" />
             </button>
             <button
-              onClick={handleLogout}
+              onClick={() => handleLogout()}
               className={topBarButtonClass}
               title="Logout"
             >
@@ -1396,437 +5067,628 @@ export default function Page(): JSX.Element {
           </div>
         </header>
 
-        {/* Calendar Nav */}
-        <div className="flex justify-center items-center gap-4 mb-6">
-          <button
-            onClick={() => {
-              const d = new Date(selectedDate);
-              d.setDate(d.getDate() - 1);
-              setSelectedDate(d.toISOString().split('T')[0]);
-            }}
-            className={dateNavButtonClass}
-          >
-            ←
-          </button>
-          <input
-            type="date"
-            value={selectedDate}
-            onChange={(e) => setSelectedDate(e.target.value)}
-            className={
-              'p-2 border rounded ' +
-              (isDark
-                ? 'bg-gray-800 text-gray-100 border-gray-700'
-                : 'text-gray-900 border-gray-300')
-            }
-          />
-          <button
-            onClick={() => {
-              const d = new Date(selectedDate);
-              d.setDate(d.getDate() + 1);
-              setSelectedDate(d.toISOString().split('T')[0]);
-            }}
-            className={dateNavButtonClass}
-          >
-            →
-          </button>
-        </div>
+        <div className="flex flex-col lg:flex-row gap-4">
+          {savedSearches.length > 0 && (
+            <aside className="lg:w-56 shrink-0">
+              <SavedSearchList
+                savedSearches={savedSearches}
+                isDark={isDark}
+                onRun={runSavedSearch}
+                onRemove={removeSavedSearch}
+              />
+            </aside>
+          )}
+          <div className="flex-1 min-w-0">
+            <SearchBox
+              logs={logs}
+              todos={todos}
+              projects={projects}
+              savedSearches={savedSearches}
+              isDark={isDark}
+              query={searchQuery}
+              onQueryChange={setSearchQuery}
+              inputRef={searchInputRef}
+              onSelect={openSearchResult}
+              onSaveSearch={saveSearch}
+            />
 
-        {/* Grid: Todos (left), Logs (right) */}
-        <div className="grid grid-cols-1 md:grid-cols-2 gap-4">
-          {/* TODOS */}
-          <div className={cardClass}>
-            <div className="flex justify-between items-center mb-4 relative">
-              <div className="flex items-center gap-2 relative">
-                <h2 className="text-xl font-semibold">Todos</h2>
-                <div
-                  className="relative"
-                  onMouseEnter={() => setShowTodosTooltip(true)}
-                  onMouseLeave={() => setShowTodosTooltip(false)}
-                >
+            {/* Calendar Nav */}
+            <div className="flex justify-center items-center gap-4 mb-6">
+              <button
+                onClick={() => {
+                  const d = new Date(selectedDate);
+                  d.setDate(d.getDate() - 1);
+                  setSelectedDate(d.toISOString().split('T')[0]);
+                }}
+                className={dateNavButtonClass}
+              >
+                ←
+              </button>
+              <input
+                type="date"
+                value={selectedDate}
+                onChange={(e) => setSelectedDate(e.target.value)}
+                className={
+                  'p-2 border rounded ' +
+                  (isDark
+                    ? 'bg-gray-800 text-gray-100 border-gray-700'
+                    : 'text-gray-900 border-gray-300')
+                }
+              />
+              <button
+                onClick={() => {
+                  const d = new Date(selectedDate);
+                  d.setDate(d.getDate() + 1);
+                  setSelectedDate(d.toISOString().split('T')[0]);
+                }}
+                className={dateNavButtonClass}
+              >
+                →
+              </button>
+            </div>
+
+            {/* Tag filter */}
+            {tagIndex.length > 0 && (
+              <div className="flex flex-wrap justify-center items-center gap-2 mb-4">
+                <span className={timeLabelClass}>Tags:</span>
+                {tagFilter.map((tag) => (
                   <button
-                    className={
-                      isDark
-                        ? 'text-gray-400 hover:text-gray-200'
-                        : 'text-gray-500 hover:text-gray-700'
-                    }
-                    title="Help"
+                    key={tag}
+                    onClick={() => toggleTagFilter(tag)}
+                    className={tagChipClass(tag, isDark, true)}
+                    title={`Stop filtering by ${tag}`}
                   >
-                    <HelpCircle className="h-5 w-5" />
+                    {tag} ✕
                   </button>
-                  {showTodosTooltip && (
-                    <div
-                      className={
-                        `absolute z-10 w-64 p-2 rounded shadow-sm ` +
-                        (isDark
-                          ? 'bg-gray-800 text-gray-100'
-                          : 'bg-gray-200 text-gray-900')
-                      }
-                      style={{ top: '110%', left: 0 }}
-                    >
-                      <p className="font-medium">Using Todos</p>
-                      <p className="mt-1 text-sm">
-                        Write tasks you plan to do. If you create logs containing
-                        these words (exact word match), the todo becomes matched.
-                        You can manually override by checking/unchecking.
-                      </p>
-                    </div>
-                  )}
-                </div>
-              </div>
-              {/* Icons row: Import, Trash, Copy, Save */}
-              <div className="flex gap-2">
-                <button
-                  onClick={() => setImportTodosOpen(true)}
-                  className={iconBtnClass}
-                  title="Import Todos"
-                >
-                  <Upload className="h-5 w-5" />
-                </button>
-                <button
-                  onClick={() => confirmClearAll('todos')}
-                  className={iconBtnClass}
-                  title="Clear all todos"
+                ))}
+                <select
+                  value=""
+                  onChange={(e) => e.target.value && toggleTagFilter(e.target.value)}
+                  className={
+                    `p-1 border rounded text-sm ` +
+                    (isDark
+                      ? 'bg-gray-700 text-gray-100 border-gray-600'
+                      : 'text-gray-900 border-gray-300')
+                  }
                 >
-                  <Trash2 className="h-5 w-5" />
-                </button>
-                <button
-                  onClick={() => copyToClipboard('todos')}
-                  className={iconBtnClass}
-                  title="Copy all todos"
-                >
-                  <Copy className="h-5 w-5" />
-                </button>
-                <button
-                  onClick={() => exportData('todos')}
-                  className={iconBtnClass}
-                  title="Save todos"
-                >
-                  <Save className="h-5 w-5" />
-                </button>
+                  <option value="">{tagFilter.length ? 'And…' : 'Filter by tag…'}</option>
+                  {tagIndex
+                    .filter((usage) => !tagFilter.includes(usage.tag))
+                    .map((usage) => (
+                      <option key={usage.tag} value={usage.tag}>
+                        {usage.tag} ({usage.logs + usage.todos} on {usage.dates.length}{' '}
+                        {usage.dates.length === 1 ? 'day' : 'days'})
+                      </option>
+                    ))}
+                </select>
+                {tagFilter.length > 0 && (
+                  <button onClick={() => setTagFilter([])} className={iconBtnClass + ' text-sm'}>
+                    Clear
+                  </button>
+                )}
               </div>
-            </div>
-
-            {/* Todos list */}
-            <div className="space-y-2 mb-4 max-h-96 overflow-y-auto">
-              {(todos[selectedDate] || []).map((todo) => {
-                const matched = getLogMatchState(todo);
-                const completed = isTodoCompleted(todo);
-                return (
-                  <div
-                    key={todo.id}
-                    className={
-                      `flex items-center p-2 rounded-lg border ` +
-                      (isDark
-                        ? 'bg-gray-700 border-gray-600'
-                        : 'bg-gray-50 border-gray-100') +
-                      (completed ? ' opacity-80' : '')
-                    }
-                  >
-                    <input
-                      type="checkbox"
-                      checked={completed}
-                      onChange={() => toggleTodo(todo)}
-                      className="mr-2"
-                    />
-                    {editingTodoId === todo.id ? (
-                      <>
-                        <input
-                          type="text"
-                          value={editedTodoContent}
-                          onChange={(e) => setEditedTodoContent(e.target.value)}
+            )}
+
+            {/* Grid: Todos (left), Logs (right) */}
+            <div className="grid grid-cols-1 md:grid-cols-2 gap-4">
+              {/* TODOS */}
+              <div className={cardClass}>
+                <div className="flex justify-between items-center mb-4 relative">
+                  <div className="flex items-center gap-2 relative">
+                    <h2 className="text-xl font-semibold">Todos</h2>
+                    <div
+                      className="relative"
+                      onMouseEnter={() => setShowTodosTooltip(true)}
+                      onMouseLeave={() => setShowTodosTooltip(false)}
+                    >
+                      <button
+                        className={
+                          isDark
+                            ? 'text-gray-400 hover:text-gray-200'
+                            : 'text-gray-500 hover:text-gray-700'
+                        }
+                        title="Help"
+                      >
+                        <HelpCircle className="h-5 w-5" />
+                      </button>
+                      {showTodosTooltip && (
+                        <div
                           className={
-                            `flex-1 p-1 border-b focus:outline-none mr-2 ` +
+                            `absolute z-10 w-64 p-2 rounded shadow-sm ` +
                             (isDark
-                              ? 'bg-gray-600 text-gray-100 border-gray-400'
-                              : 'bg-gray-100 text-gray-900 border-gray-300')
+                              ? 'bg-gray-800 text-gray-100'
+                              : 'bg-gray-200 text-gray-900')
                           }
-                        />
-                        <button
-                          onClick={() => saveTodoEdits(todo.id)}
-                          className="text-blue-500 font-medium mr-2"
-                        >
-                          Save
-                        </button>
-                        <button
-                          onClick={cancelTodoEdit}
-                          className="text-gray-500 font-medium"
-                        >
-                          Cancel
-                        </button>
-                      </>
-                    ) : (
-                      <>
-                        <span
-                          className={`flex-1 break-all ${
-                            completed ? 'line-through' : ''
-                          }`}
-                        >
-                          {todo.content}
-                          {completed && (
-                            <span className="ml-2 text-green-500">
-                              <Check className="h-4 w-4 inline" />
-                            </span>
-                          )}
-                        </span>
-
-                        {matched && completed && (
-                          <button
-                            onClick={() => jumpToLog(todo)}
-                            className={
-                              `mr-2 ` +
-                              (isDark
-                                ? 'hover:bg-gray-600 text-blue-400 p-1 rounded'
-                                : 'hover:bg-gray-200 text-blue-600 p-1 rounded')
-                            }
-                            title="Jump to matching log"
-                          >
-                            Jump
-                          </button>
-                        )}
-
-                        <button
-                          onClick={() => copyTodoToLog(todo)}
-                          className={iconBtnClass + ' mr-2'}
-                          title="Add this todo to logs"
-                        >
-                          <ArrowRight className="h-4 w-4" />
-                        </button>
-                        <button
-                          onClick={() => startEditingTodo(todo)}
-                          className={iconBtnClass + ' mr-2'}
-                          title="Edit Todo"
+                          style={{ top: '110%', left: 0 }}
                         >
-                          <Edit2 className="h-4 w-4" />
-                        </button>
-                      </>
-                    )}
+                          <p className="font-medium">Using Todos</p>
+                          <p className="mt-1 text-sm">
+                            Write tasks you plan to do. If you create logs containing
+                            these words (exact word match), the todo becomes matched.
+                            You can manually override by checking/unchecking.
+                          </p>
+                        </div>
+                      )}
+                    </div>
+                  </div>
+                  {/* Icons row: Import, Trash, Copy, Save */}
+                  <div className="flex gap-2">
                     <button
-                      onClick={() => removeTodo(todo.id)}
+                      onClick={() => setImportTodosOpen(true)}
                       className={iconBtnClass}
-                      title="Remove Todo"
+                      title="Import Todos"
                     >
-                      ✕
+                      <Upload className="h-5 w-5" />
+                    </button>
+                    <button
+                      onClick={() => confirmClearAll('todos')}
+                      className={iconBtnClass}
+                      title="Clear all todos"
+                    >
+                      <Trash2 className="h-5 w-5" />
+                    </button>
+                    <button
+                      onClick={() => copyToClipboard('todos')}
+                      className={iconBtnClass}
+                      title="Copy all todos"
+                    >
+                      <Copy className="h-5 w-5" />
+                    </button>
+                    <button
+                      onClick={() => exportData('todos')}
+                      className={iconBtnClass}
+                      title="Save todos"
+                    >
+                      <Save className="h-5 w-5" />
                     </button>
                   </div>
-                );
-              })}
-            </div>
+                </div>
 
-            {/* Add new todo */}
-            <div className="flex gap-2">
-              <input
-                type="text"
-                value={newTodo}
-                onChange={(e) => setNewTodo(e.target.value)}
-                placeholder="Add new todo..."
-                className={
-                  `flex-1 p-2 border rounded ` +
-                  (isDark
-                    ? 'bg-gray-700 text-gray-100 border-gray-600'
-                    : 'text-gray-900 border-gray-300')
-                }
-                onKeyDown={(e) => e.key === 'Enter' && addTodo()}
-              />
-              <button
-                onClick={addTodo}
-                className="px-4 py-2 bg-blue-500 text-white rounded hover:bg-blue-600"
-              >
-                Add
-              </button>
-            </div>
-          </div>
+                {/* Todos list */}
+                <div className="space-y-2 mb-4 max-h-96 overflow-y-auto">
+                  {visibleTodos.map((todo) => {
+                    const matched = getLogMatchState(todo);
+                    const completed = isTodoCompleted(todo);
+                    const tracked = trackedTime(todo.id, logs);
+                    const timing = activeTimer?.todoId === todo.id;
+                    const color = projectColor(todo.projectId);
+                    return (
+                      <div
+                        key={todo.id}
+                        className={
+                          `flex items-center p-2 rounded-lg border ` +
+                          (isDark
+                            ? 'bg-gray-700 border-gray-600'
+                            : 'bg-gray-50 border-gray-100') +
+                          (color ? ' border-l-4' : '') +
+                          (completed ? ' opacity-80' : '')
+                        }
+                        style={color ? { borderLeftColor: color } : undefined}
+                      >
+                        <input
+                          type="checkbox"
+                          checked={completed}
+                          onChange={() => toggleTodo(todo)}
+                          className="mr-2"
+                        />
+                        {editingTodoId === todo.id ? (
+                          <>
+                            <Textarea
+                              value={editedTodoContent}
+                              onChange={(e) => setEditedTodoContent(e.target.value)}
+                              rows={2}
+                              className={
+                                `flex-1 min-h-0 p-1 rounded-none border-0 border-b focus-visible:ring-0 mr-2 ` +
+                                (isDark
+                                  ? 'bg-gray-600 text-gray-100 border-gray-400'
+                                  : 'bg-gray-100 text-gray-900 border-gray-300')
+                              }
+                            />
+                            {projects.length > 0 && (
+                              <ProjectSelect
+                                projects={projects}
+                                value={editedTodoProjectId}
+                                onChange={setEditedTodoProjectId}
+                                className={pickerClass + ' mr-2 max-w-[8rem]'}
+                              />
+                            )}
+                            <button
+                              onClick={() => saveTodoEdits(todo.id)}
+                              className="text-blue-500 font-medium mr-2"
+                            >
+                              Save
+                            </button>
+                            <button
+                              onClick={cancelTodoEdit}
+                              className="text-gray-500 font-medium"
+                            >
+                              Cancel
+                            </button>
+                          </>
+                        ) : (
+                          <>
+                            <div
+                              className={`flex-1 break-all ${
+                                completed ? 'line-through' : ''
+                              }`}
+                            >
+                              <MarkdownContent
+                                content={todo.content}
+                                isDark={isDark}
+                                activeTags={tagFilter}
+                                onTagClick={toggleTagFilter}
+                              />
+                              {completed && (
+                                <span className="ml-2 text-green-500">
+                                  <Check className="h-4 w-4 inline" />
+                                </span>
+                              )}
+                              {tracked > 0 && (
+                                <span
+                                  className={
+                                    'ml-2 text-sm ' + (isDark ? 'text-gray-400' : 'text-gray-500')
+                                  }
+                                  title="Time tracked with the timer"
+                                >
+                                  {formatDuration(tracked)}
+                                </span>
+                              )}
+                            </div>
 
-          {/* LOGS */}
-          <div className={cardClass}>
-            <div className="flex justify-between items-center mb-4 relative">
-              <div className="flex items-center gap-2 relative">
-                <h2 className="text-xl font-semibold">Logs</h2>
-                <div
-                  className="relative"
-                  onMouseEnter={() => setShowLogsTooltip(true)}
-                  onMouseLeave={() => setShowLogsTooltip(false)}
-                >
-                  <button
+                            {matched && completed && (
+                              <button
+                                onClick={() => jumpToLog(todo)}
+                                className={
+                                  `mr-2 ` +
+                                  (isDark
+                                    ? 'hover:bg-gray-600 text-blue-400 p-1 rounded'
+                                    : 'hover:bg-gray-200 text-blue-600 p-1 rounded')
+                                }
+                                title="Jump to matching log"
+                              >
+                                Jump
+                              </button>
+                            )}
+
+                            <button
+                              onClick={() => copyTodoToLog(todo)}
+                              className={iconBtnClass + ' mr-2'}
+                              title="Add this todo to logs"
+                            >
+                              <ArrowRight className="h-4 w-4" />
+                            </button>
+                            <button
+                              onClick={() => (timing ? stopTimer() : startTimer(todo.content, todo.id, todo.projectId))}
+                              className={iconBtnClass + ' mr-2'}
+                              title={timing ? 'Stop timer' : 'Start a timer for this todo'}
+                            >
+                              {timing ? <Square className="h-4 w-4" /> : <Play className="h-4 w-4" />}
+                            </button>
+                            <button
+                              onClick={() => startEditingTodo(todo)}
+                              className={iconBtnClass + ' mr-2'}
+                              title="Edit Todo"
+                            >
+                              <Edit2 className="h-4 w-4" />
+                            </button>
+                          </>
+                        )}
+                        <button
+                          onClick={() => removeTodo(todo.id)}
+                          className={iconBtnClass}
+                          title="Remove Todo"
+                        >
+                          ✕
+                        </button>
+                      </div>
+                    );
+                  })}
+                </div>
+
+                {/* Add new todo */}
+                <div className="flex gap-2">
+                  <input
+                    type="text"
+                    value={newTodo}
+                    onChange={(e) => setNewTodo(e.target.value)}
+                    placeholder="Add new todo..."
                     className={
-                      isDark
-                        ? 'text-gray-400 hover:text-gray-200'
-                        : 'text-gray-500 hover:text-gray-700'
+                      `flex-1 p-2 border rounded ` +
+                      (isDark
+                        ? 'bg-gray-700 text-gray-100 border-gray-600'
+                        : 'text-gray-900 border-gray-300')
                     }
-                    title="Help"
+                    onKeyDown={(e) => e.key === 'Enter' && addTodo()}
+                  />
+                  {hasActiveProjects && (
+                    <ProjectSelect
+                      projects={projects}
+                      value={newTodoProjectId}
+                      onChange={setNewTodoProjectId}
+                      className={pickerClass + ' max-w-[8rem]'}
+                    />
+                  )}
+                  <button
+                    onClick={addTodo}
+                    className="px-4 py-2 bg-blue-500 text-white rounded hover:bg-blue-600"
                   >
-                    <HelpCircle className="h-5 w-5" />
+                    Add
                   </button>
-                  {showLogsTooltip && (
+                </div>
+              </div>
+
+              {/* LOGS */}
+              <div className={cardClass}>
+                <div className="flex justify-between items-center mb-4 relative">
+                  <div className="flex items-center gap-2 relative">
+                    <h2 className="text-xl font-semibold">Logs</h2>
                     <div
-                      className={
-                        `absolute z-10 w-64 p-2 rounded shadow-sm ` +
-                        (isDark
-                          ? 'bg-gray-800 text-gray-100'
-                          : 'bg-gray-200 text-gray-900')
-                      }
-                      style={{ top: '110%', left: 0 }}
+                      className="relative"
+                      onMouseEnter={() => setShowLogsTooltip(true)}
+                      onMouseLeave={() => setShowLogsTooltip(false)}
                     >
-                      <p className="font-medium">Using Logs</p>
-                      <p className="mt-1 text-sm">
-                        Document your daily activities. If you have a Todo whose content
-                        matches a log (word-boundary), that todo can auto-check
-                        (unless overridden).
-                      </p>
+                      <button
+                        className={
+                          isDark
+                            ? 'text-gray-400 hover:text-gray-200'
+                            : 'text-gray-500 hover:text-gray-700'
+                        }
+                        title="Help"
+                      >
+                        <HelpCircle className="h-5 w-5" />
+                      </button>
+                      {showLogsTooltip && (
+                        <div
+                          className={
+                            `absolute z-10 w-64 p-2 rounded shadow-sm ` +
+                            (isDark
+                              ? 'bg-gray-800 text-gray-100'
+                              : 'bg-gray-200 text-gray-900')
+                          }
+                          style={{ top: '110%', left: 0 }}
+                        >
+                          <p className="font-medium">Using Logs</p>
+                          <p className="mt-1 text-sm">
+                            Document your daily activities. If you have a Todo whose content
+                            matches a log (word-boundary), that todo can auto-check
+                            (unless overridden).
+                          </p>
+                        </div>
+                      )}
                     </div>
-                  )}
+                  </div>
+                  {/* Icons row: Report, Import, Trash, Copy, Save */}
+                  <div className="flex gap-2">
+                    <button
+                      onClick={() => setIsProjectReportOpen(true)}
+                      className={iconBtnClass}
+                      title="Time by project"
+                    >
+                      <BarChart3 className="h-5 w-5" />
+                    </button>
+                    <button
+                      onClick={() => setImportLogsOpen(true)}
+                      className={iconBtnClass}
+                      title="Import Logs"
+                    >
+                      <Upload className="h-5 w-5" />
+                    </button>
+                    <button
+                      onClick={() => confirmClearAll('logs')}
+                      className={iconBtnClass}
+                      title="Clear all logs"
+                    >
+                      <Trash2 className="h-5 w-5" />
+                    </button>
+                    <button
+                      onClick={() => copyToClipboard('logs')}
+                      className={iconBtnClass}
+                      title="Copy logs"
+                    >
+                      <Copy className="h-5 w-5" />
+                    </button>
+                    <button
+                      onClick={() => exportData('logs')}
+                      className={iconBtnClass}
+                      title="Save logs"
+                    >
+                      <Save className="h-5 w-5" />
+                    </button>
+                  </div>
                 </div>
-              </div>
-              {/* Icons row: Import, Trash, Copy, Save */}
-              <div className="flex gap-2">
-                <button
-                  onClick={() => setImportLogsOpen(true)}
-                  className={iconBtnClass}
-                  title="Import Logs"
-                >
-                  <Upload className="h-5 w-5" />
-                </button>
-                <button
-                  onClick={() => confirmClearAll('logs')}
-                  className={iconBtnClass}
-                  title="Clear all logs"
-                >
-                  <Trash2 className="h-5 w-5" />
-                </button>
-                <button
-                  onClick={() => copyToClipboard('logs')}
-                  className={iconBtnClass}
-                  title="Copy logs"
-                >
-                  <Copy className="h-5 w-5" />
-                </button>
-                <button
-                  onClick={() => exportData('logs')}
-                  className={iconBtnClass}
-                  title="Save logs"
-                >
-                  <Save className="h-5 w-5" />
-                </button>
-              </div>
-            </div>
 
-            <div className="space-y-2 mb-4 max-h-96 overflow-y-auto">
-              {(logs[selectedDate] || []).map((log) => {
-                // create the ref if missing
-                if (!logRefs.current[log.id]) {
-                  logRefs.current[log.id] = React.createRef<HTMLDivElement>();
-                }
-                return (
-                  <div
-                    key={log.id}
-                    ref={logRefs.current[log.id]}
-                    className={
-                      `flex items-center p-2 rounded-lg border ` +
-                      (isDark
-                        ? 'bg-gray-700 border-gray-600'
-                        : 'bg-gray-50 border-gray-100')
+                <div className="space-y-2 mb-4 max-h-96 overflow-y-auto">
+                  {visibleLogs.map((log) => {
+                    const span = selectedLogSpans[log.id];
+                    const color = projectColor(log.projectId);
+                    // create the ref if missing
+                    if (!logRefs.current[log.id]) {
+                      logRefs.current[log.id] = React.createRef<HTMLDivElement>();
                     }
-                  >
-                    {editingLogId === log.id ? (
-                      <>
-                        <div className="flex flex-col flex-1 mr-2">
-                          <input
-                            type="text"
-                            value={editedLogTime}
-                            onChange={(e) => setEditedLogTime(e.target.value)}
-                            className={
-                              `p-1 mb-2 border-b focus:outline-none ` +
-                              (isDark
-                                ? 'bg-gray-600 text-gray-100 border-gray-400'
-                                : 'bg-gray-100 text-gray-900 border-gray-300')
-                            }
-                            placeholder="e.g. 09:30 or 09:30 AM or 21:30"
-                          />
-                          <input
-                            type="text"
-                            value={editedLogContent}
-                            onChange={(e) => setEditedLogContent(e.target.value)}
-                            className={
-                              `p-1 border-b focus:outline-none ` +
-                              (isDark
-                                ? 'bg-gray-600 text-gray-100 border-gray-400'
-                                : 'bg-gray-100 text-gray-900 border-gray-300')
-                            }
-                            placeholder="Log content..."
-                          />
-                          {editError && (
-                            <div className="text-red-500 text-sm mt-1">
-                              {editError}
+                    return (
+                      <div
+                        key={log.id}
+                        ref={logRefs.current[log.id]}
+                        className={
+                          `flex items-center p-2 rounded-lg border ` +
+                          (isDark
+                            ? 'bg-gray-700 border-gray-600'
+                            : 'bg-gray-50 border-gray-100') +
+                          (color ? ' border-l-4' : '')
+                        }
+                        style={color ? { borderLeftColor: color } : undefined}
+                      >
+                        {editingLogId === log.id ? (
+                          <>
+                            <div className="flex flex-col flex-1 mr-2">
+                              <div className="flex gap-2 mb-2">
+                                <input
+                                  type="text"
+                                  value={editedLogStart}
+                                  onChange={(e) => setEditedLogStart(e.target.value)}
+                                  className={
+                                    `flex-1 min-w-0 p-1 border-b focus:outline-none ` +
+                                    (isDark
+                                      ? 'bg-gray-600 text-gray-100 border-gray-400'
+                                      : 'bg-gray-100 text-gray-900 border-gray-300')
+                                  }
+                                  placeholder="Start, e.g. 09:30 AM or 21:30"
+                                  title="Start time"
+                                />
+                                <input
+                                  type="text"
+                                  value={editedLogEnd}
+                                  onChange={(e) => setEditedLogEnd(e.target.value)}
+                                  className={
+                                    `flex-1 min-w-0 p-1 border-b focus:outline-none ` +
+                                    (isDark
+                                      ? 'bg-gray-600 text-gray-100 border-gray-400'
+                                      : 'bg-gray-100 text-gray-900 border-gray-300')
+                                  }
+                                  placeholder="End or duration, e.g. 10:30 or 1h 30m"
+                                  title="Leave empty to end when the next log starts"
+                                />
+                              </div>
+                              <Textarea
+                                value={editedLogContent}
+                                onChange={(e) => setEditedLogContent(e.target.value)}
+                                rows={2}
+                                className={
+                                  `min-h-0 p-1 rounded-none border-0 border-b focus-visible:ring-0 ` +
+                                  (isDark
+                                    ? 'bg-gray-600 text-gray-100 border-gray-400'
+                                    : 'bg-gray-100 text-gray-900 border-gray-300')
+                                }
+                                placeholder="Log content (Markdown)..."
+                              />
+                              {projects.length > 0 && (
+                                <ProjectSelect
+                                  projects={projects}
+                                  value={editedLogProjectId}
+                                  onChange={setEditedLogProjectId}
+                                  className={pickerClass + ' mt-2'}
+                                />
+                              )}
+                              {editError && (
+                                <div className="text-red-500 text-sm mt-1">
+                                  {editError}
+                                </div>
+                              )}
                             </div>
-                          )}
-                        </div>
-                        <button
-                          onClick={() => saveLogEdits(log.id)}
-                          className="text-blue-500 font-medium mr-2"
-                        >
-                          Save
-                        </button>
-                        <button
-                          onClick={cancelLogEdit}
-                          className="text-gray-500 font-medium"
-                        >
-                          Cancel
-                        </button>
-                      </>
-                    ) : (
-                      <>
-                        <div className="flex-1 break-all">
-                          <span className={timeLabelClass}>{log.time}</span>
-                          <span>{log.content}</span>
-                        </div>
-                        <button
-                          onClick={() => copyLogToTodo(log)}
-                          className={iconBtnClass + ' mr-2'}
-                          title="Add this log to todos"
-                        >
-                          <ArrowLeft className="h-4 w-4" />
-                        </button>
+                            <button
+                              onClick={() => saveLogEdits(log.id)}
+                              className="text-blue-500 font-medium mr-2"
+                            >
+                              Save
+                            </button>
+                            <button
+                              onClick={cancelLogEdit}
+                              className="text-gray-500 font-medium"
+                            >
+                              Cancel
+                            </button>
+                          </>
+                        ) : (
+                          <>
+                            <div className="flex-1 break-all">
+                              <span className={timeLabelClass}>{log.time}</span>
+                              {span && (
+                                <span
+                                  className={timeLabelClass + (span.explicit ? '' : ' italic')}
+                                  title={
+                                    span.explicit
+                                      ? `Until ${span.endTime}`
+                                      : `Until the next log at ${span.endTime}`
+                                  }
+                                >
+                                  ({formatDuration(span.durationMs)})
+                                </span>
+                              )}
+                              <MarkdownContent
+                                content={log.content}
+                                isDark={isDark}
+                                activeTags={tagFilter}
+                                onTagClick={toggleTagFilter}
+                              />
+                            </div>
+                            <button
+                              onClick={() => copyLogToTodo(log)}
+                              className={iconBtnClass + ' mr-2'}
+                              title="Add this log to todos"
+                            >
+                              <ArrowLeft className="h-4 w-4" />
+                            </button>
+                            <button
+                              onClick={() => startEditingLog(log)}
+                              className={iconBtnClass + ' mr-2'}
+                              title="Edit Log"
+                            >
+                              <Edit2 className="h-4 w-4" />
+                            </button>
+                          </>
+                        )}
                         <button
-                          onClick={() => startEditingLog(log)}
-                          className={iconBtnClass + ' mr-2'}
-                          title="Edit Log"
+                          onClick={() => removeLog(log.id)}
+                          className={iconBtnClass}
+                          title="Remove Log"
                         >
-                          <Edit2 className="h-4 w-4" />
+                          ✕
                         </button>
-                      </>
-                    )}
-                    <button
-                      onClick={() => removeLog(log.id)}
-                      className={iconBtnClass}
-                      title="Remove Log"
-                    >
-                      ✕
-                    </button>
+                      </div>
+                    );
+                  })}
+                </div>
+
+                {projects.length > 0 && Object.keys(selectedDayTotals).length > 0 && (
+                  <div className={timeLabelClass + ' mb-4'}>
+                    <ProjectTotalsList totals={selectedDayTotals} projects={projects} />
                   </div>
-                );
-              })}
-            </div>
+                )}
 
-            {/* Add new log */}
-            <div className="flex gap-2">
-              <input
-                type="text"
-                value={newLog}
-                onChange={(e) => setNewLog(e.target.value)}
-                placeholder="Add new log..."
-                className={
-                  `flex-1 p-2 border rounded ` +
-                  (isDark
-                    ? 'bg-gray-700 text-gray-100 border-gray-600'
-                    : 'text-gray-900 border-gray-300')
-                }
-                onKeyDown={(e) => e.key === 'Enter' && addLog()}
-              />
-              <button
-                onClick={addLog}
-                className="px-4 py-2 bg-blue-500 text-white rounded hover:bg-blue-600"
-              >
-                Add
-              </button>
+                {/* Add new log */}
+                <div className="flex gap-2">
+                  <input
+                    type="text"
+                    value={newLog}
+                    onChange={(e) => setNewLog(e.target.value)}
+                    placeholder="Add new log..."
+                    className={
+                      `flex-1 p-2 border rounded ` +
+                      (isDark
+                        ? 'bg-gray-700 text-gray-100 border-gray-600'
+                        : 'text-gray-900 border-gray-300')
+                    }
+                    onKeyDown={(e) => e.key === 'Enter' && addLog()}
+                  />
+                  {hasActiveProjects && (
+                    <ProjectSelect
+                      projects={projects}
+                      value={newLogProjectId}
+                      onChange={setNewLogProjectId}
+                      className={pickerClass + ' max-w-[8rem]'}
+                    />
+                  )}
+                  <button
+                    onClick={addLog}
+                    className="px-4 py-2 bg-blue-500 text-white rounded hover:bg-blue-600"
+                  >
+                    Add
+                  </button>
+                  <button
+                    onClick={handleTimerButton}
+                    disabled={!activeTimer && !newLog.trim()}
+                    className={
+                      'px-4 py-2 text-white rounded disabled:opacity-40 ' +
+                      (activeTimer
+                        ? 'bg-red-500 hover:bg-red-600'
+                        : 'bg-green-600 hover:bg-green-700')
+                    }
+                    title={activeTimer ? `Stop "${activeTimer.content}"` : 'Start a timer for this activity'}
+                  >
+                    {activeTimer ? 'Stop' : 'Start'}
+                  </button>
+                </div>
+              </div>
             </div>
           </div>
         </div>
@@ -0,0 +1,83 @@
+/* ------------------------------------------------------------------
+   Account rules shared by the sign-up form and the auth routes.
+--------------------------------------------------------------------- */
+
+export const MIN_PASSWORD_LENGTH = 8;
+
+const USERNAME_REGEX = /^[A-Za-z0-9][A-Za-z0-9._-]{2,31}$/;
+
+/** Why a username can't be registered, or null if it's fine. */
+export function usernameProblem(username: string): string | null {
+  if (!USERNAME_REGEX.test(username)) {
+    return 'Username must be 3-32 characters: letters, digits, ".", "_" or "-"';
+  }
+  return null;
+}
+
+/** Why a password is too weak, or null if it's fine. */
+export function passwordProblem(password: string): string | null {
+  if (password.length < MIN_PASSWORD_LENGTH) {
+    return `Password must be at least ${MIN_PASSWORD_LENGTH} characters`;
+  }
+  if (!password.trim()) {
+    return 'Password cannot be only spaces';
+  }
+  return null;
+}
+
+/* ------------------------------------------------------------------
+   Auth audit trail
+--------------------------------------------------------------------- */
+
+export type AuthEventType =
+  | 'login'
+  | 'loginFailed'
+  | 'lockout'
+  | 'logout'
+  | 'logoutAll'
+  | 'passwordChanged'
+  | 'unlockFailed'
+  | 'passwordChangeFailed'
+  | 'tokenCreated'
+  | 'tokenRevoked';
+
+export interface AuthEvent {
+  type: AuthEventType;
+  /** Epoch millis. */
+  at: number;
+  /** Client address as seen by the server. */
+  ip: string;
+  userAgent: string;
+}
+
+export const AUTH_EVENT_LABELS: Record<AuthEventType, string> = {
+  login: 'Signed in',
+  loginFailed: 'Failed sign-in',
+  lockout: 'Locked out after failed sign-ins',
+  logout: 'Signed out',
+  logoutAll: 'Signed out of all devices',
+  passwordChanged: 'Password changed',
+  unlockFailed: 'Wrong password on the lock screen',
+  passwordChangeFailed: 'Wrong current password when changing it',
+  tokenCreated: 'API token created',
+  tokenRevoked: 'API token revoked'
+};
+
+/* ------------------------------------------------------------------
+   Personal API tokens
+--------------------------------------------------------------------- */
+
+/** "read" tokens can list items; "write" tokens can also add and change them. */
+export type ApiTokenScope = 'read' | 'write';
+
+export const MAX_TOKEN_NAME_LENGTH = 64;
+
+/** What the settings screen sees of a token (never the token itself). */
+export interface ApiTokenInfo {
+  id: string;
+  name: string;
+  scope: ApiTokenScope;
+  /** Epoch millis. */
+  createdAt: number;
+  lastUsedAt: number | null;
+}
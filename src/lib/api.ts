@@ -0,0 +1,173 @@
+import type { ApiTokenInfo, ApiTokenScope, AuthEvent } from '@/lib/accounts';
+import type { SyncRequest, SyncResponse } from '@/lib/replication';
+import type { WebhookDelivery, WebhookEventType, WebhookInfo } from '@/lib/webhooks';
+
+/* ------------------------------------------------------------------
+   Browser-side client for the Time Chapter API routes.
+--------------------------------------------------------------------- */
+
+export interface SessionUser {
+  username: string;
+  /** Epoch millis after which the server no longer accepts the session. */
+  expiresAt: number;
+}
+
+/** A non-2xx response from one of our routes. */
+export class ApiError extends Error {
+  constructor(
+    message: string,
+    public status: number
+  ) {
+    super(message);
+    this.name = 'ApiError';
+  }
+}
+
+async function request<T>(url: string, init?: RequestInit): Promise<T> {
+  const res = await fetch(url, {
+    credentials: 'same-origin',
+    ...init,
+    headers: { 'Content-Type': 'application/json', ...init?.headers }
+  });
+  const body = await res.json().catch(() => null);
+  if (!res.ok) {
+    throw new ApiError(body?.error || `Request failed (${res.status})`, res.status);
+  }
+  return body as T;
+}
+
+/* --------------------------------
+   Auth
+---------------------------------- */
+
+export async function fetchSession(): Promise<SessionUser | null> {
+  const { user } = await request<{ user: SessionUser | null }>('/api/auth/session');
+  return user;
+}
+
+export async function login(
+  username: string,
+  password: string,
+  rememberMe: boolean
+): Promise<SessionUser> {
+  const { user } = await request<{ user: SessionUser }>('/api/auth/login', {
+    method: 'POST',
+    body: JSON.stringify({ username, password, rememberMe })
+  });
+  return user;
+}
+
+/** End this session, or with `allDevices` every session of the account. */
+export async function logout(allDevices = false): Promise<void> {
+  await request('/api/auth/logout', {
+    method: 'POST',
+    body: JSON.stringify({ allDevices })
+  });
+}
+
+export async function register(
+  username: string,
+  password: string,
+  rememberMe: boolean
+): Promise<SessionUser> {
+  const { user } = await request<{ user: SessionUser }>('/api/auth/register', {
+    method: 'POST',
+    body: JSON.stringify({ username, password, rememberMe })
+  });
+  return user;
+}
+
+export async function changePassword(
+  currentPassword: string,
+  newPassword: string
+): Promise<void> {
+  await request('/api/auth/password', {
+    method: 'POST',
+    body: JSON.stringify({ currentPassword, newPassword })
+  });
+}
+
+/** Check the signed-in user's password (used to unlock the idle lock). */
+export async function verifyPassword(password: string): Promise<void> {
+  await request('/api/auth/reauth', {
+    method: 'POST',
+    body: JSON.stringify({ password })
+  });
+}
+
+/** Delete the signed-in account on the server and end all its sessions. */
+export async function deleteAccount(): Promise<void> {
+  await request('/api/auth/account', { method: 'DELETE' });
+}
+
+/** Recent sign-in activity for the signed-in account, newest first. */
+export async function fetchAuthEvents(): Promise<AuthEvent[]> {
+  const { events } = await request<{ events: AuthEvent[] }>('/api/auth/events');
+  return events;
+}
+
+/* --------------------------------
+   Personal API tokens
+---------------------------------- */
+
+export async function fetchApiTokens(): Promise<ApiTokenInfo[]> {
+  const { tokens } = await request<{ tokens: ApiTokenInfo[] }>('/api/tokens');
+  return tokens;
+}
+
+/** Create a token; `token` is the secret, which can't be fetched again. */
+export async function createApiToken(
+  name: string,
+  scope: ApiTokenScope
+): Promise<{ token: string; info: ApiTokenInfo }> {
+  return request<{ token: string; info: ApiTokenInfo }>('/api/tokens', {
+    method: 'POST',
+    body: JSON.stringify({ name, scope })
+  });
+}
+
+export async function revokeApiToken(id: string): Promise<void> {
+  await request(`/api/tokens/${encodeURIComponent(id)}`, { method: 'DELETE' });
+}
+
+/* --------------------------------
+   Webhooks
+---------------------------------- */
+
+export async function fetchWebhooks(): Promise<{
+  webhooks: WebhookInfo[];
+  deliveries: WebhookDelivery[];
+}> {
+  return request('/api/webhooks');
+}
+
+/** Subscribe a URL; `secret` is the signing secret (generated if left out). */
+export async function createWebhook(
+  url: string,
+  events: WebhookEventType[],
+  secret?: string
+): Promise<{ webhook: WebhookInfo; secret: string }> {
+  return request<{ webhook: WebhookInfo; secret: string }>('/api/webhooks', {
+    method: 'POST',
+    body: JSON.stringify({ url, events, secret })
+  });
+}
+
+export async function deleteWebhook(id: string): Promise<void> {
+  await request(`/api/webhooks/${encodeURIComponent(id)}`, { method: 'DELETE' });
+}
+
+export async function testWebhook(id: string): Promise<void> {
+  await request(`/api/webhooks/${encodeURIComponent(id)}/test`, { method: 'POST' });
+}
+
+/* --------------------------------
+   Sync
+---------------------------------- */
+
+export async function syncChanges(body: SyncRequest): Promise<SyncResponse> {
+  return request<SyncResponse>('/api/sync', {
+    method: 'POST',
+    body: JSON.stringify(body)
+  });
+}
@@ -0,0 +1,253 @@
+import type { LogItem, LogsByDate, TodoItem, TodosByDate } from '@/lib/types';
+import type { SettingName } from '@/lib/storage';
+import {
+  migrateData,
+  CURRENT_SCHEMA_VERSION,
+  PersistedData
+} from '@/lib/migrations';
+import { isDateKey, isValidTimezone, sortLogsByTimestamp } from '@/lib/time';
+
+/* ------------------------------------------------------------------
+   Full-account backup & restore
+   One JSON document holds every log, todo and setting for a user.
+--------------------------------------------------------------------- */
+
+export const BACKUP_FORMAT = 'timechapter-backup';
+export const BACKUP_VERSION = 1;
+
+export interface BackupDocument {
+  format: typeof BACKUP_FORMAT;
+  version: number;
+  schemaVersion: number;
+  exportedAt: string;
+  username: string;
+  settings: Partial<Record<SettingName, string>>;
+  logs: LogsByDate;
+  todos: TodosByDate;
+}
+
+export type BackupParseResult =
+  | { backup: BackupDocument; error?: undefined }
+  | { backup?: undefined; error: string };
+
+/** How a restore combines the backup with what's already stored. */
+export type RestoreMode = 'replace' | 'merge';
+
+interface ChangeCounts {
+  added: number;
+  updated: number;
+  removed: number;
+}
+
+/** What a restore would do to one date. */
+export interface DatePreview {
+  date: string;
+  logs: ChangeCounts;
+  todos: ChangeCounts;
+}
+
+export function createBackup(
+  username: string,
+  data: PersistedData,
+  settings: Partial<Record<SettingName, string>>
+): BackupDocument {
+  return {
+    format: BACKUP_FORMAT,
+    version: BACKUP_VERSION,
+    schemaVersion: CURRENT_SCHEMA_VERSION,
+    exportedAt: new Date().toISOString(),
+    username,
+    settings,
+    logs: data.logs,
+    todos: data.todos
+  };
+}
+
+function isPlainObject(value: unknown): value is Record<string, unknown> {
+  return typeof value === 'object' && value !== null && !Array.isArray(value);
+}
+
+/** Find the first structural problem in a logs/todos map, if any. */
+function findDayProblem(kind: string, days: unknown): string | null {
+  if (!isPlainObject(days)) return `"${kind}" must be an object keyed by date`;
+  for (const [dateKey, items] of Object.entries(days)) {
+    if (!isDateKey(dateKey)) return `"${kind}" has an invalid date key "${dateKey}"`;
+    if (!Array.isArray(items)) return `"${kind}" for ${dateKey} is not a list`;
+    for (const item of items) {
+      const valid =
+        isPlainObject(item) &&
+        typeof item.id === 'string' &&
+        typeof item.content === 'string';
+      if (!valid) {
+        return `"${kind}" for ${dateKey} contains an item without an id or content`;
+      }
+    }
+  }
+  return null;
+}
+
+/**
+ * Parse and validate a backup file. Older data schemas are migrated to
+ * the current one so the rest of the app only sees current shapes; their
+ * log times are read in the backup's timezone setting, or `timeZone`
+ * when it has none.
+ */
+export function parseBackup(text: string, timeZone: string): BackupParseResult {
+  let raw: unknown;
+  try {
+    raw = JSON.parse(text);
+  } catch {
+    return { error: 'File is not valid JSON.' };
+  }
+  if (!isPlainObject(raw) || raw.format !== BACKUP_FORMAT) {
+    return { error: 'File is not a Time Chapter backup.' };
+  }
+  if (typeof raw.version !== 'number' || raw.version > BACKUP_VERSION) {
+    return { error: 'Backup was made by a newer version of Time Chapter.' };
+  }
+  const problem = findDayProblem('logs', raw.logs) || findDayProblem('todos', raw.todos);
+  if (problem) return { error: `Backup is damaged: ${problem}.` };
+
+  const backup = raw as unknown as BackupDocument;
+  const schemaVersion = typeof backup.schemaVersion === 'number' ? backup.schemaVersion : 1;
+  if (!isPlainObject(backup.settings)) backup.settings = {};
+  if (schemaVersion < CURRENT_SCHEMA_VERSION) {
+    const savedZone = backup.settings.timezone;
+    const migrated = migrateData(
+      { logs: backup.logs, todos: backup.todos },
+      schemaVersion,
+      typeof savedZone === 'string' && isValidTimezone(savedZone) ? savedZone : timeZone
+    );
+    backup.logs = migrated.logs;
+    backup.todos = migrated.todos;
+    backup.schemaVersion = CURRENT_SCHEMA_VERSION;
+  }
+  return { backup };
+}
+
+/** Every item of a kind by id, across all dates. */
+function itemsById<T extends { id: string }>(days: Record<string, T[]>): Map<string, T> {
+  const byId = new Map<string, T>();
+  Object.values(days).forEach((items) => items.forEach((item) => byId.set(item.id, item)));
+  return byId;
+}
+
+/**
+ * What one date goes through between `current` and `result`. Ids are
+ * looked up across all dates, so an item that moves to another day
+ * counts as updated there rather than removed here and added there.
+ */
+function countChanges<T extends { id: string }>(
+  currentDay: T[],
+  resultDay: T[],
+  currentById: Map<string, T>,
+  resultById: Map<string, T>
+): ChangeCounts {
+  const resultDayIds = new Set(resultDay.map((item) => item.id));
+  let added = 0;
+  let updated = 0;
+  for (const item of resultDay) {
+    const existing = currentById.get(item.id);
+    if (!existing) {
+      added++;
+    } else if (
+      !currentDay.includes(existing) ||
+      JSON.stringify(existing) !== JSON.stringify(item)
+    ) {
+      updated++;
+    }
+  }
+  const removed = currentDay.filter(
+    (item) => !resultDayIds.has(item.id) && !resultById.has(item.id)
+  ).length;
+  return { added, updated, removed };
+}
+
+/** Per-date summary of what restoring the backup would change. */
+export function previewRestore(
+  current: PersistedData,
+  backup: BackupDocument,
+  mode: RestoreMode
+): DatePreview[] {
+  const result = applyRestore(current, backup, mode);
+  const currentLogs = itemsById(current.logs);
+  const currentTodos = itemsById(current.todos);
+  const resultLogs = itemsById(result.logs);
+  const resultTodos = itemsById(result.todos);
+  const dates = new Set([
+    ...Object.keys(current.logs),
+    ...Object.keys(current.todos),
+    ...Object.keys(result.logs),
+    ...Object.keys(result.todos)
+  ]);
+  const previews: DatePreview[] = [];
+  for (const date of Array.from(dates).sort()) {
+    const logs = countChanges(
+      current.logs[date] || [],
+      result.logs[date] || [],
+      currentLogs,
+      resultLogs
+    );
+    const todos = countChanges(
+      current.todos[date] || [],
+      result.todos[date] || [],
+      currentTodos,
+      resultTodos
+    );
+    const changed = [logs, todos].some((c) => c.added || c.updated || c.removed);
+    if (changed) previews.push({ date, logs, todos });
+  }
+  return previews;
+}
+
+/**
+ * Merge by id across all dates: a backup item replaces the stored one
+ * with the same id, moving it to the backup's date if that differs, so
+ * no id ends up on two days.
+ */
+function mergeDays<T extends { id: string }>(
+  current: Record<string, T[]>,
+  incoming: Record<string, T[]>,
+  sortDay: (items: T[]) => T[]
+): Record<string, T[]> {
+  const incomingDates = new Map<string, string>();
+  for (const [dateKey, items] of Object.entries(incoming)) {
+    items.forEach((item) => incomingDates.set(item.id, dateKey));
+  }
+  const merged: Record<string, T[]> = {};
+  for (const [dateKey, items] of Object.entries(current)) {
+    const kept = items.filter((item) => (incomingDates.get(item.id) ?? dateKey) === dateKey);
+    if (kept.length === items.length) {
+      merged[dateKey] = items;
+    } else if (kept.length) {
+      merged[dateKey] = kept;
+    }
+  }
+  for (const [dateKey, items] of Object.entries(incoming)) {
+    const incomingById = new Map(items.map((item) => [item.id, item]));
+    const existing = (merged[dateKey] || []).map(
+      (item) => incomingById.get(item.id) ?? item
+    );
+    const existingIds = new Set(existing.map((item) => item.id));
+    merged[dateKey] = sortDay([
+      ...existing,
+      ...items.filter((item) => !existingIds.has(item.id))
+    ]);
+  }
+  return merged;
+}
+
+/** The data that results from restoring the backup in the given mode. */
+export function applyRestore(
+  current: PersistedData,
+  backup: BackupDocument,
+  mode: RestoreMode
+): PersistedData {
+  if (mode === 'replace') {
+    return { logs: { ...backup.logs }, todos: { ...backup.todos } };
+  }
+  return {
+    logs: mergeDays<LogItem>(current.logs, backup.logs, sortLogsByTimestamp),
+    todos: mergeDays<TodoItem>(current.todos, backup.todos, (items) => items)
+  };
+}
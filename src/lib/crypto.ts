@@ -0,0 +1,300 @@
+import { copyAllData } from '@/lib/storage';
+import type {
+  DayKind,
+  DaysOf,
+  RecordName,
+  StorageAdapter
+} from '@/lib/storage';
+
+/* ------------------------------------------------------------------
+   Passphrase encryption at rest
+   Values are encrypted with AES-GCM under a key derived from the
+   user's passphrase with PBKDF2. The salt, iteration count and a
+   check value live in plaintext under `<userKey>encryption` so the
+   app knows to prompt for the passphrase before loading anything.
+--------------------------------------------------------------------- */
+
+export const PBKDF2_ITERATIONS = 310000;
+
+/** Known plaintext used to tell a right passphrase from a wrong one. */
+const CHECK_PLAINTEXT = 'timechapter';
+
+/** An encrypted value as it sits in storage. */
+export interface EncryptedEnvelope {
+  enc: 1;
+  iv: string;
+  data: string;
+}
+
+export interface EncryptionMeta {
+  version: 1;
+  kdf: 'PBKDF2-SHA-256';
+  iterations: number;
+  salt: string;
+  check: EncryptedEnvelope;
+}
+
+export function toBase64(bytes: Uint8Array): string {
+  let binary = '';
+  for (let i = 0; i < bytes.length; i++) {
+    binary += String.fromCharCode(bytes[i]);
+  }
+  return btoa(binary);
+}
+
+export function fromBase64(text: string): Uint8Array {
+  const binary = atob(text);
+  const bytes = new Uint8Array(binary.length);
+  for (let i = 0; i < binary.length; i++) {
+    bytes[i] = binary.charCodeAt(i);
+  }
+  return bytes;
+}
+
+export function isEnvelope(value: unknown): value is EncryptedEnvelope {
+  const v = value as EncryptedEnvelope | null;
+  return (
+    typeof v === 'object' &&
+    v !== null &&
+    v.enc === 1 &&
+    typeof v.iv === 'string' &&
+    typeof v.data === 'string'
+  );
+}
+
+export async function deriveKey(
+  passphrase: string,
+  salt: Uint8Array,
+  iterations: number = PBKDF2_ITERATIONS
+): Promise<CryptoKey> {
+  const baseKey = await crypto.subtle.importKey(
+    'raw',
+    new TextEncoder().encode(passphrase),
+    'PBKDF2',
+    false,
+    ['deriveKey']
+  );
+  return crypto.subtle.deriveKey(
+    { name: 'PBKDF2', hash: 'SHA-256', salt, iterations },
+    baseKey,
+    { name: 'AES-GCM', length: 256 },
+    false,
+    ['encrypt', 'decrypt']
+  );
+}
+
+export async function encryptJSON(
+  key: CryptoKey,
+  value: unknown
+): Promise<EncryptedEnvelope> {
+  const iv = crypto.getRandomValues(new Uint8Array(12));
+  const plaintext = new TextEncoder().encode(JSON.stringify(value));
+  const ciphertext = await crypto.subtle.encrypt({ name: 'AES-GCM', iv }, key, plaintext);
+  return { enc: 1, iv: toBase64(iv), data: toBase64(new Uint8Array(ciphertext)) };
+}
+
+/** Decrypt an envelope; throws if the key is wrong or the data was tampered with. */
+export async function decryptJSON<T>(
+  key: CryptoKey,
+  envelope: EncryptedEnvelope
+): Promise<T> {
+  const plaintext = await crypto.subtle.decrypt(
+    { name: 'AES-GCM', iv: fromBase64(envelope.iv) },
+    key,
+    fromBase64(envelope.data)
+  );
+  return JSON.parse(new TextDecoder().decode(plaintext)) as T;
+}
+
+/** Set up a new passphrase: fresh salt, derived key and check value. */
+export async function createEncryptionMeta(
+  passphrase: string
+): Promise<{ meta: EncryptionMeta; key: CryptoKey }> {
+  const salt = crypto.getRandomValues(new Uint8Array(16));
+  const key = await deriveKey(passphrase, salt);
+  const meta: EncryptionMeta = {
+    version: 1,
+    kdf: 'PBKDF2-SHA-256',
+    iterations: PBKDF2_ITERATIONS,
+    salt: toBase64(salt),
+    check: await encryptJSON(key, CHECK_PLAINTEXT)
+  };
+  return { meta, key };
+}
+
+/** Derive the key for a passphrase, or null if it's the wrong one. */
+export async function unlockWithPassphrase(
+  meta: EncryptionMeta,
+  passphrase: string
+): Promise<CryptoKey | null> {
+  const key = await deriveKey(passphrase, fromBase64(meta.salt), meta.iterations);
+  try {
+    const check = await decryptJSON<string>(key, meta.check);
+    return check === CHECK_PLAINTEXT ? key : null;
+  } catch {
+    return null;
+  }
+}
+
+/* ------------------------------------------------------------------
+   Encryption metadata (always plaintext, per user)
+--------------------------------------------------------------------- */
+
+export function readEncryptionMeta(userKey: string): EncryptionMeta | null {
+  const raw = localStorage.getItem(userKey + 'encryption');
+  if (!raw) return null;
+  try {
+    return JSON.parse(raw) as EncryptionMeta;
+  } catch {
+    return null;
+  }
+}
+
+export function writeEncryptionMeta(userKey: string, meta: EncryptionMeta) {
+  localStorage.setItem(userKey + 'encryption', JSON.stringify(meta));
+}
+
+export function clearEncryptionMeta(userKey: string) {
+  localStorage.removeItem(userKey + 'encryption');
+}
+
+/* ------------------------------------------------------------------
+   Pending rewrite
+   Enabling, changing or disabling encryption rewrites every value.
+   The target meta is staged under `<userKey>encryptionPending` before
+   the first write and committed only after the last, so a rewrite cut
+   short by a closed tab is still known about on the next start. Until
+   then each value is sealed under either side, never anything else.
+--------------------------------------------------------------------- */
+
+/** A rewrite between two encryption states; null means plaintext. */
+export interface PendingEncryption {
+  from: EncryptionMeta | null;
+  to: EncryptionMeta | null;
+}
+
+export function readPendingEncryption(userKey: string): PendingEncryption | null {
+  const raw = localStorage.getItem(userKey + 'encryptionPending');
+  if (!raw) return null;
+  try {
+    return JSON.parse(raw) as PendingEncryption;
+  } catch {
+    return null;
+  }
+}
+
+export function writePendingEncryption(userKey: string, pending: PendingEncryption) {
+  localStorage.setItem(userKey + 'encryptionPending', JSON.stringify(pending));
+}
+
+export function clearPendingEncryption(userKey: string) {
+  localStorage.removeItem(userKey + 'encryptionPending');
+}
+
+/** Make the staged target the current meta and drop the pending entry. */
+export function commitPendingEncryption(userKey: string, pending: PendingEncryption) {
+  if (pending.to) {
+    writeEncryptionMeta(userKey, pending.to);
+  } else {
+    clearEncryptionMeta(userKey);
+  }
+  clearPendingEncryption(userKey);
+}
+
+/**
+ * Re-seal every value in `inner` under `to` (null for plaintext).
+ * Values may be under either key already, so running it again after
+ * an interruption, or with the keys swapped to go back, is safe.
+ */
+export async function rewriteEncryption(
+  inner: StorageAdapter,
+  from: CryptoKey | null,
+  to: CryptoKey | null
+): Promise<void> {
+  const keys = [to, from].filter((key): key is CryptoKey => key !== null);
+  if (!keys.length) return;
+  const reader = createEncryptedAdapter(inner, keys[0], keys.slice(1));
+  await copyAllData(reader, to ? reader : inner);
+}
+
+/* ------------------------------------------------------------------
+   Encrypting adapter
+   Wraps another adapter; every day, setting and record is stored as an
+   envelope. Values that aren't envelopes are read back as plaintext so
+   a half-converted store still loads; `fallbackKeys` also open values
+   sealed under the other side of an unfinished rewrite.
+--------------------------------------------------------------------- */
+
+export function createEncryptedAdapter(
+  inner: StorageAdapter,
+  key: CryptoKey,
+  fallbackKeys: CryptoKey[] = []
+): StorageAdapter {
+  async function unseal<T>(envelope: EncryptedEnvelope): Promise<T> {
+    try {
+      return await decryptJSON<T>(key, envelope);
+    } catch (error) {
+      for (const fallback of fallbackKeys) {
+        try {
+          return await decryptJSON<T>(fallback, envelope);
+        } catch {}
+      }
+      throw error;
+    }
+  }
+
+  async function open<T>(value: unknown): Promise<T> {
+    return isEnvelope(value) ? unseal<T>(value) : (value as T);
+  }
+
+  return {
+    backend: inner.backend,
+
+    async loadDays<K extends DayKind>(kind: K) {
+      const stored = await inner.loadDays(kind);
+      const dateKeys = Object.keys(stored);
+      const opened = await Promise.all(
+        dateKeys.map((dateKey) => open<DaysOf<K>[string]>(stored[dateKey]))
+      );
+      const days: DaysOf<K> = {};
+      dateKeys.forEach((dateKey, i) => {
+        days[dateKey] = opened[i];
+      });
+      return days;
+    },
+
+    async saveDays(kind, days) {
+      const sealed: Record<string, unknown> = {};
+      for (const [dateKey, items] of Object.entries(days)) {
+        sealed[dateKey] = items.length ? await encryptJSON(key, items) : [];
+      }
+      await inner.saveDays(kind, sealed as typeof days);
+    },
+
+    async getSetting(name) {
+      const raw = await inner.getSetting(name);
+      if (raw === null) return null;
+      try {
+        const parsed: unknown = JSON.parse(raw);
+        if (isEnvelope(parsed)) return unseal<string>(parsed);
+      } catch {}
+      return raw;
+    },
+
+    async setSetting(name, value) {
+      await inner.setSetting(name, JSON.stringify(await encryptJSON(key, value)));
+    },
+
+    getSchemaVersion: () => inner.getSchemaVersion(),
+    setSchemaVersion: (version) => inner.setSchemaVersion(version),
+
+    async getRecord<T>(name: RecordName) {
+      const value = await inner.getRecord<unknown>(name);
+      return value === null ? null : open<T>(value);
+    },
+
+    async setRecord(name, value) {
+      await inner.setRecord(name, await encryptJSON(key, value));
+    }
+  };
+}
@@ -0,0 +1,90 @@
+import type { LogItem } from '@/lib/types';
+import { parseTimeOfDay } from '@/lib/time';
+
+/* ------------------------------------------------------------------
+   Log durations
+   A log may carry an explicit end (endTime/endTimestamp). Otherwise it
+   runs until the next log of the day starts; the day's last log stays
+   open.
+--------------------------------------------------------------------- */
+
+export interface LogSpan {
+  /** End as displayed: the log's endTime or the next log's time. */
+  endTime: string;
+  endTimestamp: number;
+  durationMs: number;
+  /** False when the end is just where the next log starts. */
+  explicit: boolean;
+}
+
+/** Spans of a day's logs (sorted by time), keyed by log id. */
+export function logSpans(dayLogs: LogItem[]): Record<string, LogSpan> {
+  const spans: Record<string, LogSpan> = {};
+  dayLogs.forEach((log, i) => {
+    if (typeof log.rawTimestamp !== 'number') return;
+    const next = dayLogs[i + 1];
+    if (typeof log.endTimestamp === 'number' && log.endTime) {
+      spans[log.id] = {
+        endTime: log.endTime,
+        endTimestamp: log.endTimestamp,
+        durationMs: log.endTimestamp - log.rawTimestamp,
+        explicit: true
+      };
+    } else if (next && typeof next.rawTimestamp === 'number') {
+      spans[log.id] = {
+        endTime: next.time,
+        endTimestamp: next.rawTimestamp,
+        durationMs: next.rawTimestamp - log.rawTimestamp,
+        explicit: false
+      };
+    }
+  });
+  return spans;
+}
+
+/** "45m", "2h", "1h 30m". */
+export function formatDuration(ms: number): string {
+  const minutes = Math.max(0, Math.round(ms / 60000));
+  const h = Math.floor(minutes / 60);
+  const m = minutes % 60;
+  if (!h) return `${m}m`;
+  return m ? `${h}h ${m}m` : `${h}h`;
+}
+
+/** Milliseconds in "90m", "1h 30m", "1.5h" or "2h"; null if it isn't a duration. */
+export function parseDuration(text: string): number | null {
+  const m = text.trim().match(/^(?:(\d+(?:\.\d+)?)\s*h)?\s*(?:(\d+)\s*m(?:in)?)?$/i);
+  if (!m || (!m[1] && !m[2])) return null;
+  const minutes = Number(m[1] || 0) * 60 + Number(m[2] || 0);
+  return minutes > 0 ? Math.round(minutes * 60000) : null;
+}
+
+/**
+ * Work out a log's end from what the user typed: an end time ("10:30",
+ * "5:00 PM") or a duration ("45m", "1h 30m"). An end time earlier than
+ * the start is taken to be on the next day. Returns null when the text
+ * is neither; `timestampAt(hour, minute)` gives the start day's millis.
+ */
+export function resolveLogEnd(
+  text: string,
+  start: number,
+  timestampAt: (hour: number, minute: number) => number | null
+): number | null {
+  const duration = parseDuration(text);
+  if (duration !== null) return start + duration;
+  const parsed = parseTimeOfDay(text);
+  if (!parsed || !/^\s*\d{1,2}:\d{2}\s*(AM|PM)?\s*$/i.test(text)) return null;
+  const end = timestampAt(parsed[0], parsed[1]);
+  if (end === null) return null;
+  return end > start ? end : end + 24 * 60 * 60 * 1000;
+}
+
+/** "9:00 AM-10:30 AM" for a log with a known end, else just its time. */
+export function formatLogRange(log: LogItem, span: LogSpan | undefined): string {
+  return span ? `${log.time}-${span.endTime}` : log.time;
+}
+
+/** A log the way copy and export write it: "9:00 AM-10:30 AM - content". */
+export function formatLogLine(log: LogItem, span: LogSpan | undefined): string {
+  return `${formatLogRange(log, span)} - ${log.content}`;
+}
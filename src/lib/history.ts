@@ -0,0 +1,124 @@
+import type { LogItem, LogsByDate, TodoItem, TodosByDate } from '@/lib/types';
+import { changedDays } from '@/lib/storage';
+
+/* ------------------------------------------------------------------
+   Undo / redo history
+   Each entry stores only the days a mutation touched, before and after,
+   so the history stays small enough to persist between reloads.
+--------------------------------------------------------------------- */
+
+/** Maximum number of undoable steps kept. */
+export const HISTORY_LIMIT = 50;
+
+/**
+ * Size budgets, in characters of JSON. A step bigger than the first
+ * (a replace-restore, a big import) isn't kept at all, and the oldest
+ * steps go once the history as a whole outgrows the second, so saving
+ * it stays cheap and within the localStorage quota.
+ */
+export const HISTORY_ENTRY_MAX_SIZE = 256 * 1024;
+export const HISTORY_MAX_SIZE = 1024 * 1024;
+
+/** The affected days of one kind, as they were before and after a change. */
+export interface DayPatch<T> {
+  before: Record<string, T[]>;
+  after: Record<string, T[]>;
+}
+
+export interface HistoryEntry {
+  id: string;
+  label: string;
+  at: number;
+  logs?: DayPatch<LogItem>;
+  todos?: DayPatch<TodoItem>;
+}
+
+export interface HistoryState {
+  past: HistoryEntry[];
+  future: HistoryEntry[];
+}
+
+export const EMPTY_HISTORY: HistoryState = { past: [], future: [] };
+
+/** Current data, and optionally the next version of either map. */
+export interface DataSnapshot {
+  logs: LogsByDate;
+  todos: TodosByDate;
+}
+
+function patchFor<T>(
+  prev: Record<string, T[]>,
+  next: Record<string, T[]> | undefined
+): DayPatch<T> | undefined {
+  if (!next) return undefined;
+  const after = changedDays(prev, next);
+  const dateKeys = Object.keys(after);
+  if (!dateKeys.length) return undefined;
+  const before: Record<string, T[]> = {};
+  dateKeys.forEach((dateKey) => {
+    before[dateKey] = prev[dateKey] || [];
+  });
+  return { before, after };
+}
+
+/** Build an entry describing current => next, or null if nothing changed. */
+export function createHistoryEntry(
+  id: string,
+  label: string,
+  current: DataSnapshot,
+  next: Partial<DataSnapshot>
+): HistoryEntry | null {
+  const logs = patchFor(current.logs, next.logs);
+  const todos = patchFor(current.todos, next.todos);
+  if (!logs && !todos) return null;
+  return { id, label, at: Date.now(), logs, todos };
+}
+
+function entrySize(entry: HistoryEntry): number {
+  return JSON.stringify(entry).length;
+}
+
+/** False if the entry is too big to keep in the history. */
+export function isUndoable(entry: HistoryEntry): boolean {
+  return entrySize(entry) <= HISTORY_ENTRY_MAX_SIZE;
+}
+
+/**
+ * Record a new step; drops the redo stack and the oldest steps past the
+ * limits. A step too big to keep clears the history instead, since the
+ * steps before it can't be undone without undoing it first.
+ */
+export function pushHistory(state: HistoryState, entry: HistoryEntry): HistoryState {
+  if (!isUndoable(entry)) return EMPTY_HISTORY;
+  const past = [...state.past, entry].slice(-HISTORY_LIMIT);
+  let total = past.reduce((sum, step) => sum + entrySize(step), 0);
+  while (total > HISTORY_MAX_SIZE) {
+    total -= entrySize(past.shift()!);
+  }
+  return { past, future: [] };
+}
+
+/** Overwrite the given days in a map; empty days are removed. */
+export function applyDays<T>(
+  current: Record<string, T[]>,
+  days: Record<string, T[]>
+): Record<string, T[]> {
+  const updated = { ...current };
+  for (const [dateKey, items] of Object.entries(days)) {
+    if (items.length) {
+      updated[dateKey] = items;
+    } else {
+      delete updated[dateKey];
+    }
+  }
+  return updated;
+}
+
+/** All dates an entry touches, sorted. */
+export function entryDates(entry: HistoryEntry): string[] {
+  const dates = new Set([
+    ...Object.keys(entry.logs?.after || {}),
+    ...Object.keys(entry.todos?.after || {})
+  ]);
+  return Array.from(dates).sort();
+}
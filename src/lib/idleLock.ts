@@ -0,0 +1,81 @@
+import { toBase64, fromBase64 } from '@/lib/crypto';
+
+/* ------------------------------------------------------------------
+   Idle auto-lock
+   After a period without input the dashboard is locked until the user
+   enters their PIN or password. The PIN is kept as a salted PBKDF2
+   hash in the user's settings; the lock itself is remembered in
+   localStorage so reloading the page doesn't get around it.
+--------------------------------------------------------------------- */
+
+/** Minutes of inactivity before locking by default; 0 never locks. */
+export const DEFAULT_IDLE_LOCK_MINUTES = 0;
+
+/** Wrong PINs allowed per lock before the password is required. */
+export const MAX_PIN_ATTEMPTS = 5;
+
+const PIN_ITERATIONS = 100000;
+
+const PIN_REGEX = /^\d{4,8}$/;
+
+/** Why a PIN can't be used, or null if it's fine. */
+export function pinProblem(pin: string): string | null {
+  return PIN_REGEX.test(pin) ? null : 'PIN must be 4-8 digits';
+}
+
+async function derivePinHash(pin: string, salt: Uint8Array, iterations: number) {
+  const baseKey = await crypto.subtle.importKey(
+    'raw',
+    new TextEncoder().encode(pin),
+    'PBKDF2',
+    false,
+    ['deriveBits']
+  );
+  const bits = await crypto.subtle.deriveBits(
+    { name: 'PBKDF2', hash: 'SHA-256', salt, iterations },
+    baseKey,
+    256
+  );
+  return toBase64(new Uint8Array(bits));
+}
+
+/** Hash a PIN for storage as "pbkdf2$<iterations>$<salt>$<hash>". */
+export async function hashPin(pin: string): Promise<string> {
+  const salt = crypto.getRandomValues(new Uint8Array(16));
+  const hash = await derivePinHash(pin, salt, PIN_ITERATIONS);
+  return `pbkdf2$${PIN_ITERATIONS}$${toBase64(salt)}$${hash}`;
+}
+
+export async function verifyPin(pin: string, stored: string): Promise<boolean> {
+  const [scheme, iterations, salt, hash] = stored.split('$');
+  if (scheme !== 'pbkdf2' || !iterations || !salt || !hash) return false;
+  return (await derivePinHash(pin, fromBase64(salt), Number(iterations))) === hash;
+}
+
+/* ------------------------------------------------------------------
+   Lock state (per user, per browser)
+--------------------------------------------------------------------- */
+
+export interface IdleLockState {
+  /** Wrong PINs entered since the dashboard locked. */
+  pinFailures: number;
+}
+
+export function readIdleLock(userKey: string): IdleLockState | null {
+  const raw = localStorage.getItem(userKey + 'idleLock');
+  if (!raw) return null;
+  try {
+    const parsed = JSON.parse(raw) as Partial<IdleLockState>;
+    return { pinFailures: Number(parsed.pinFailures) || 0 };
+  } catch {
+    return { pinFailures: 0 };
+  }
+}
+
+export function writeIdleLock(userKey: string, state: IdleLockState) {
+  localStorage.setItem(userKey + 'idleLock', JSON.stringify(state));
+}
+
+export function clearIdleLock(userKey: string) {
+  localStorage.removeItem(userKey + 'idleLock');
+}
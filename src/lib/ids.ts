@@ -0,0 +1,7 @@
+/* Generate a unique ID. */
+export function generateId(): string {
+  if (typeof crypto !== 'undefined' && crypto.randomUUID) {
+    return crypto.randomUUID();
+  }
+  return 'id-' + Date.now() + '-' + Math.floor(Math.random() * 1000000);
+}
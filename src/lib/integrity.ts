@@ -0,0 +1,176 @@
+import type { LogItem, TodoItem } from '@/lib/types';
+import type { DayKind } from '@/lib/storage';
+import type { PersistedData } from '@/lib/migrations';
+import { dateKeyInTimezone, sortLogsByTimestamp } from '@/lib/time';
+import { generateId } from '@/lib/ids';
+
+/* ------------------------------------------------------------------
+   Data integrity checks
+   Scan every stored day for inconsistencies and propose a fix for each.
+   Issues point at items by (kind, date, index) in the scanned data, so
+   a set of approved fixes can be applied in one pass.
+--------------------------------------------------------------------- */
+
+export type IntegrityIssueType =
+  | 'wrongDay'
+  | 'duplicateId'
+  | 'emptyContent'
+  | 'unsortedDay';
+
+export interface IntegrityIssue {
+  /** Stable key for selection state. */
+  key: string;
+  type: IntegrityIssueType;
+  kind: DayKind;
+  date: string;
+  /** Position within the day; -1 for issues about the whole day. */
+  index: number;
+  content: string;
+  problem: string;
+  fix: string;
+  /** For wrongDay: the date the item should live under. */
+  targetDate?: string;
+}
+
+function issueKey(type: IntegrityIssueType, kind: DayKind, date: string, index: number) {
+  return `${type}|${kind}|${date}|${index}`;
+}
+
+export function checkIntegrity(data: PersistedData, timezone: string): IntegrityIssue[] {
+  const issues: IntegrityIssue[] = [];
+  const seenIds = new Set<string>();
+
+  function scan<T extends LogItem | TodoItem>(
+    kind: DayKind,
+    days: Record<string, T[]>
+  ) {
+    for (const date of Object.keys(days).sort()) {
+      const items = days[date] || [];
+      items.forEach((item, index) => {
+        const add = (type: IntegrityIssueType, problem: string, fix: string) =>
+          issues.push({
+            key: issueKey(type, kind, date, index),
+            type,
+            kind,
+            date,
+            index,
+            content: item.content,
+            problem,
+            fix
+          });
+
+        if (seenIds.has(item.id)) {
+          add(
+            'duplicateId',
+            `Id "${item.id}" is used more than once`,
+            'Give this item a new id'
+          );
+        }
+        seenIds.add(item.id);
+
+        if (!item.content || !item.content.trim()) {
+          add('emptyContent', 'Item has no content', 'Delete it (it goes to the trash)');
+        }
+
+        const ts = (item as LogItem).rawTimestamp;
+        if (kind === 'logs' && typeof ts === 'number') {
+          const actualDate = dateKeyInTimezone(ts, timezone);
+          if (actualDate !== date) {
+            issues.push({
+              key: issueKey('wrongDay', kind, date, index),
+              type: 'wrongDay',
+              kind,
+              date,
+              index,
+              content: item.content,
+              problem: `Timestamp falls on ${actualDate}`,
+              fix: `Move it to ${actualDate}`,
+              targetDate: actualDate
+            });
+          }
+        }
+      });
+
+      if (kind === 'logs') {
+        const logs = items as LogItem[];
+        const sorted = logs.every((log, i) => {
+          if (i === 0) return true;
+          return (logs[i - 1].rawTimestamp ?? 0) <= (log.rawTimestamp ?? 0);
+        });
+        if (!sorted) {
+          issues.push({
+            key: issueKey('unsortedDay', kind, date, -1),
+            type: 'unsortedDay',
+            kind,
+            date,
+            index: -1,
+            content: '',
+            problem: 'Logs are out of chronological order',
+            fix: 'Sort the day by time'
+          });
+        }
+      }
+    }
+  }
+
+  scan('logs', data.logs);
+  scan('todos', data.todos);
+  return issues;
+}
+
+/** Apply the approved issues' fixes and return the repaired data. */
+export function applyIntegrityFixes(
+  data: PersistedData,
+  approved: IntegrityIssue[]
+): PersistedData {
+  const byKey = new Map(approved.map((issue) => [issue.key, issue]));
+  const fixFor = (
+    type: IntegrityIssueType,
+    kind: DayKind,
+    date: string,
+    index: number
+  ) => byKey.get(issueKey(type, kind, date, index));
+
+  function repair<T extends LogItem | TodoItem>(
+    kind: DayKind,
+    days: Record<string, T[]>,
+    sortDay: (items: T[]) => T[]
+  ): Record<string, T[]> {
+    const touchedDates = new Set(
+      approved.filter((issue) => issue.kind === kind).map((issue) => issue.date)
+    );
+    if (!touchedDates.size) return days;
+
+    const result = { ...days };
+    const moved: Record<string, T[]> = {};
+
+    for (const date of Array.from(touchedDates)) {
+      const kept: T[] = [];
+      (days[date] || []).forEach((item, index) => {
+        if (fixFor('emptyContent', kind, date, index)) return;
+        let next = item;
+        if (fixFor('duplicateId', kind, date, index)) {
+          next = { ...next, id: generateId() };
+        }
+        const move = fixFor('wrongDay', kind, date, index);
+        if (move?.targetDate) {
+          next = next.date ? { ...next, date: move.targetDate } : next;
+          (moved[move.targetDate] ||= []).push(next);
+          return;
+        }
+        kept.push(next);
+      });
+      result[date] = fixFor('unsortedDay', kind, date, -1) ? sortDay(kept) : kept;
+    }
+
+    for (const [date, items] of Object.entries(moved)) {
+      result[date] = sortDay([...(result[date] || []), ...items]);
+    }
+    return result;
+  }
+
+  return {
+    logs: repair<LogItem>('logs', data.logs, sortLogsByTimestamp),
+    todos: repair<TodoItem>('todos', data.todos, (items) => items)
+  };
+}
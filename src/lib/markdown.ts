@@ -0,0 +1,184 @@
+/* ------------------------------------------------------------------
+   Markdown for log and todo content
+   A small subset: **bold**, *italic* / _italic_, `code`, [links](url)
+   and "- " / "1. " lists on their own lines. Parsing produces a tree
+   the dashboard renders as React elements, so content never reaches
+   the page as HTML; links only keep http(s) and mailto targets.
+--------------------------------------------------------------------- */
+
+export type InlineNode =
+  /** `escaped` text came from a backslash escape: shown as is, never a tag. */
+  | { type: 'text'; text: string; escaped?: boolean }
+  | { type: 'strong' | 'em'; children: InlineNode[] }
+  | { type: 'code'; text: string }
+  | { type: 'link'; href: string; children: InlineNode[] };
+
+export type BlockNode =
+  /** Consecutive non-list lines; each line is one entry of `lines`. */
+  | { type: 'paragraph'; lines: InlineNode[][] }
+  | { type: 'list'; ordered: boolean; items: InlineNode[][] };
+
+const LIST_ITEM = /^\s*(?:([-*+])|(\d+)[.)])\s+(.*)$/;
+
+/** The URL if it's safe to link to, else null. */
+export function safeHref(url: string): string | null {
+  const trimmed = url.trim();
+  return /^(https?:\/\/|mailto:)/i.test(trimmed) ? trimmed : null;
+}
+
+/** Index of the closing `marker` after `from`, or -1. */
+function findClosing(text: string, marker: string, from: number): number {
+  let i = from;
+  while (i < text.length) {
+    if (text[i] === '\\') {
+      i += 2;
+      continue;
+    }
+    if (text.startsWith(marker, i)) return i;
+    i++;
+  }
+  return -1;
+}
+
+function isWordChar(ch: string | undefined): boolean {
+  return !!ch && /[\w\u00c0-\u024f]/.test(ch);
+}
+
+export function parseInline(text: string): InlineNode[] {
+  const nodes: InlineNode[] = [];
+  let buffer = '';
+  const flush = () => {
+    if (buffer) nodes.push({ type: 'text', text: buffer });
+    buffer = '';
+  };
+
+  let i = 0;
+  while (i < text.length) {
+    const ch = text[i];
+    if (ch === '\\' && i + 1 < text.length && /[\\`*_[\]()#@]/.test(text[i + 1])) {
+      flush();
+      nodes.push({ type: 'text', text: text[i + 1], escaped: true });
+      i += 2;
+      continue;
+    }
+    if (ch === '`') {
+      const end = text.indexOf('`', i + 1);
+      if (end > i + 1) {
+        flush();
+        nodes.push({ type: 'code', text: text.slice(i + 1, end) });
+        i = end + 1;
+        continue;
+      }
+    }
+    if (text.startsWith('**', i)) {
+      const end = findClosing(text, '**', i + 2);
+      if (end > i + 2) {
+        flush();
+        nodes.push({ type: 'strong', children: parseInline(text.slice(i + 2, end)) });
+        i = end + 2;
+        continue;
+      }
+    }
+    // _italic_ only at word edges, so snake_case stays as it is
+    if ((ch === '*' || ch === '_') && text[i + 1] !== ' ' && text[i + 1] !== ch) {
+      const end = findClosing(text, ch, i + 1);
+      const edgesOk =
+        ch === '*' || (!isWordChar(text[i - 1]) && !isWordChar(text[end + 1]));
+      if (end > i + 1 && text[end - 1] !== ' ' && edgesOk) {
+        flush();
+        nodes.push({ type: 'em', children: parseInline(text.slice(i + 1, end)) });
+        i = end + 1;
+        continue;
+      }
+    }
+    if (ch === '[') {
+      const close = findClosing(text, '](', i + 1);
+      const end = close === -1 ? -1 : text.indexOf(')', close + 2);
+      const href = end === -1 ? null : safeHref(text.slice(close + 2, end));
+      if (href) {
+        flush();
+        nodes.push({ type: 'link', href, children: parseInline(text.slice(i + 1, close)) });
+        i = end + 1;
+        continue;
+      }
+    }
+    buffer += ch;
+    i++;
+  }
+  flush();
+  return nodes;
+}
+
+export function parseMarkdown(content: string): BlockNode[] {
+  const blocks: BlockNode[] = [];
+  for (const line of content.split(/\r?\n/)) {
+    const item = line.match(LIST_ITEM);
+    const last = blocks[blocks.length - 1];
+    if (item) {
+      const ordered = !item[1];
+      const children = parseInline(item[3]);
+      if (last?.type === 'list' && last.ordered === ordered) {
+        last.items.push(children);
+      } else {
+        blocks.push({ type: 'list', ordered, items: [children] });
+      }
+    } else if (line.trim()) {
+      if (last?.type === 'paragraph') {
+        last.lines.push(parseInline(line));
+      } else {
+        blocks.push({ type: 'paragraph', lines: [parseInline(line)] });
+      }
+    }
+  }
+  return blocks;
+}
+
+/**
+ * The runs of text #tags are looked for in: text outside code, links and
+ * backslash escapes, as the dashboard renders it. Chips, the tag index
+ * and the tag filters all go by these, so they agree on what's a tag.
+ */
+export function taggableText(content: string): string[] {
+  const runs: string[] = [];
+  function collect(nodes: InlineNode[]) {
+    for (const node of nodes) {
+      if (node.type === 'text' && !node.escaped) runs.push(node.text);
+      if (node.type === 'strong' || node.type === 'em') collect(node.children);
+    }
+  }
+  for (const block of parseMarkdown(content)) {
+    (block.type === 'paragraph' ? block.lines : block.items).forEach(collect);
+  }
+  return runs;
+}
+
+function inlineText(nodes: InlineNode[]): string {
+  return nodes
+    .map((node) => {
+      switch (node.type) {
+        case 'text':
+        case 'code':
+          return node.text;
+        case 'strong':
+        case 'em':
+          return inlineText(node.children);
+        case 'link': {
+          const label = inlineText(node.children);
+          return label === node.href ? label : `${label} (${node.href})`;
+        }
+      }
+    })
+    .join('');
+}
+
+/**
+ * Content without Markdown syntax, on one line so it still fits the
+ * line-per-item copy/export format: lines are joined with "; ".
+ */
+export function markdownToPlainText(content: string): string {
+  return parseMarkdown(content)
+    .flatMap((block) =>
+      block.type === 'paragraph' ? block.lines.map(inlineText) : block.items.map(inlineText)
+    )
+    .join('; ');
+}
@@ -0,0 +1,89 @@
+import { describe, it } from 'node:test';
+import assert from 'node:assert/strict';
+import {
+  CURRENT_SCHEMA_VERSION,
+  LEGACY_SCHEMA_VERSION,
+  migrateData,
+  PersistedData
+} from '@/lib/migrations';
+
+/** v1 data as older builds wrote it, with the gaps v2 fills in. */
+function legacyData(): PersistedData {
+  return {
+    logs: {
+      '2025-01-07': [
+        { id: 'l1', time: '9:30 AM', content: 'standup' },
+        { id: 'l1', time: '13:00', content: 'lunch' },
+        { time: 'soon', content: 'later' }
+      ] as PersistedData['logs'][string]
+    },
+    todos: {
+      '2025-01-07': [
+        { id: 't1', content: 'write notes' }
+      ] as unknown as PersistedData['todos'][string]
+    }
+  };
+}
+
+describe('migrateData', () => {
+  it('runs the whole chain from the legacy version', () => {
+    const result = migrateData(legacyData(), LEGACY_SCHEMA_VERSION, 'UTC');
+    assert.equal(result.fromVersion, LEGACY_SCHEMA_VERSION);
+    assert.equal(result.toVersion, CURRENT_SCHEMA_VERSION);
+  });
+
+  it('backfills log timestamps in the given timezone', () => {
+    const utc = migrateData(legacyData(), LEGACY_SCHEMA_VERSION, 'UTC');
+    const [standup, lunch] = utc.logs['2025-01-07'];
+    assert.equal(standup.rawTimestamp, Date.UTC(2025, 0, 7, 9, 30));
+    assert.equal(lunch.rawTimestamp, Date.UTC(2025, 0, 7, 13, 0));
+
+    const tokyo = migrateData(legacyData(), LEGACY_SCHEMA_VERSION, 'Asia/Tokyo');
+    assert.equal(tokyo.logs['2025-01-07'][0].rawTimestamp, Date.UTC(2025, 0, 7, 0, 30));
+  });
+
+  it('reports logs whose time cannot be read', () => {
+    const result = migrateData(legacyData(), LEGACY_SCHEMA_VERSION, 'UTC');
+    assert.equal(result.logs['2025-01-07'][2].rawTimestamp, undefined);
+    assert.deepEqual(result.issues, [
+      {
+        kind: 'logs',
+        date: '2025-01-07',
+        content: 'later',
+        reason: 'Could not derive a timestamp from "soon"'
+      }
+    ]);
+  });
+
+  it('gives missing and duplicate ids fresh ones', () => {
+    const result = migrateData(legacyData(), LEGACY_SCHEMA_VERSION, 'UTC');
+    const ids = [
+      ...result.logs['2025-01-07'].map((log) => log.id),
+      ...result.todos['2025-01-07'].map((todo) => todo.id)
+    ];
+    assert.equal(ids[0], 'l1');
+    assert.equal(ids[3], 't1');
+    assert.ok(ids.every((id) => typeof id === 'string' && id.length > 0));
+    assert.equal(ids.filter((id, i) => ids.indexOf(id) === i).length, ids.length);
+  });
+
+  it('normalises a missing todo override to null', () => {
+    const result = migrateData(legacyData(), LEGACY_SCHEMA_VERSION, 'UTC');
+    assert.equal(result.todos['2025-01-07'][0].manualOverride, null);
+  });
+
+  it('drops days that are not lists', () => {
+    const data = { logs: { '2025-01-07': 'oops' }, todos: {} } as unknown as PersistedData;
+    const result = migrateData(data, LEGACY_SCHEMA_VERSION, 'UTC');
+    assert.deepEqual(result.logs, {});
+    assert.equal(result.issues[0].reason, 'Day is not a list of logs; dropped');
+  });
+
+  it('leaves current data untouched', () => {
+    const data = legacyData();
+    const result = migrateData(data, CURRENT_SCHEMA_VERSION, 'UTC');
+    assert.equal(result.logs, data.logs);
+    assert.equal(result.todos, data.todos);
+    assert.deepEqual(result.issues, []);
+  });
+});
@@ -0,0 +1,148 @@
+import type { LogItem, LogsByDate, TodoItem, TodosByDate } from '@/lib/types';
+import type { DayKind } from '@/lib/storage';
+import { isDateKey, parseTimeOfDay, timestampInTimezone } from '@/lib/time';
+import { generateId } from '@/lib/ids';
+
+/* ------------------------------------------------------------------
+   Schema versions & migrations
+   Version 1 is everything written before a version marker existed.
+   Each migration upgrades data from (version - 1) to version.
+--------------------------------------------------------------------- */
+
+export const LEGACY_SCHEMA_VERSION = 1;
+export const CURRENT_SCHEMA_VERSION = 2;
+
+/** Everything persisted per user that migrations may rewrite. */
+export interface PersistedData {
+  logs: LogsByDate;
+  todos: TodosByDate;
+}
+
+/** Something a migration could not upgrade and left untouched or dropped. */
+export interface MigrationIssue {
+  kind: DayKind;
+  date: string;
+  content: string;
+  reason: string;
+}
+
+export interface MigrationResult extends PersistedData {
+  fromVersion: number;
+  toVersion: number;
+  issues: MigrationIssue[];
+}
+
+interface Migration {
+  version: number;
+  description: string;
+  /** `timeZone` is the user's timezone setting, the zone their log times are in. */
+  migrate: (data: PersistedData, issues: MigrationIssue[], timeZone: string) => PersistedData;
+}
+
+/** Hand out the existing id unless it's missing or already taken. */
+function normaliseId(id: unknown, seen: Set<string>): string {
+  let next = typeof id === 'string' && id.trim() ? id : generateId();
+  if (seen.has(next)) next = generateId();
+  seen.add(next);
+  return next;
+}
+
+/* v1 => v2: backfill rawTimestamp, normalise ids & manualOverride. */
+function migrateToV2(
+  data: PersistedData,
+  issues: MigrationIssue[],
+  timeZone: string
+): PersistedData {
+  const seenIds = new Set<string>();
+  const logs: LogsByDate = {};
+  const todos: TodosByDate = {};
+
+  for (const [dateKey, dayLogs] of Object.entries(data.logs || {})) {
+    if (!Array.isArray(dayLogs)) {
+      issues.push({
+        kind: 'logs',
+        date: dateKey,
+        content: '',
+        reason: 'Day is not a list of logs; dropped'
+      });
+      continue;
+    }
+    logs[dateKey] = dayLogs.map((raw) => {
+      const log = { ...raw } as LogItem;
+      log.id = normaliseId(log.id, seenIds);
+      log.content = typeof log.content === 'string' ? log.content : String(log.content ?? '');
+      log.time = typeof log.time === 'string' ? log.time : '';
+
+      if (typeof log.rawTimestamp !== 'number') {
+        const parsed = parseTimeOfDay(log.time);
+        const ts = parsed && isDateKey(dateKey)
+          ? timestampInTimezone(dateKey, parsed[0], parsed[1], timeZone)
+          : null;
+        if (ts === null) {
+          issues.push({
+            kind: 'logs',
+            date: dateKey,
+            content: log.content,
+            reason: `Could not derive a timestamp from "${log.time}"`
+          });
+        } else {
+          log.rawTimestamp = ts;
+        }
+      }
+      return log;
+    });
+  }
+
+  for (const [dateKey, dayTodos] of Object.entries(data.todos || {})) {
+    if (!Array.isArray(dayTodos)) {
+      issues.push({
+        kind: 'todos',
+        date: dateKey,
+        content: '',
+        reason: 'Day is not a list of todos; dropped'
+      });
+      continue;
+    }
+    todos[dateKey] = dayTodos.map((raw) => {
+      const todo = { ...raw } as TodoItem;
+      todo.id = normaliseId(todo.id, seenIds);
+      todo.content = typeof todo.content === 'string' ? todo.content : String(todo.content ?? '');
+      todo.manualOverride =
+        typeof todo.manualOverride === 'boolean' ? todo.manualOverride : null;
+      return todo;
+    });
+  }
+
+  return { logs, todos };
+}
+
+const MIGRATIONS: Migration[] = [
+  {
+    version: 2,
+    description: 'Backfill log timestamps, normalise ids and todo overrides',
+    migrate: migrateToV2
+  }
+];
+
+/**
+ * Run every migration newer than fromVersion, collecting issues on the way.
+ * `timeZone` is the user's timezone setting.
+ */
+export function migrateData(
+  data: PersistedData,
+  fromVersion: number,
+  timeZone: string
+): MigrationResult {
+  const issues: MigrationIssue[] = [];
+  let current = data;
+  for (const migration of MIGRATIONS) {
+    if (migration.version <= fromVersion) continue;
+    current = migration.migrate(current, issues, timeZone);
+  }
+  return {
+    ...current,
+    fromVersion,
+    toVersion: CURRENT_SCHEMA_VERSION,
+    issues
+  };
+}
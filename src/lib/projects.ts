@@ -0,0 +1,127 @@
+import type { LogItem, LogsByDate } from '@/lib/types';
+import { logSpans } from '@/lib/durations';
+
+/* ------------------------------------------------------------------
+   Projects
+   A managed list kept as the "projects" setting (JSON). Logs and todos
+   point at one by id (projectId); archiving hides a project from the
+   pickers but keeps its colour and totals for the items that use it.
+--------------------------------------------------------------------- */
+
+export interface Project {
+  id: string;
+  name: string;
+  /** CSS colour, one of PROJECT_COLORS. */
+  color: string;
+  archived: boolean;
+}
+
+export const PROJECT_COLORS = [
+  '#3b82f6',
+  '#22c55e',
+  '#f59e0b',
+  '#ef4444',
+  '#a855f7',
+  '#ec4899',
+  '#14b8a6',
+  '#6b7280'
+];
+
+export const MAX_PROJECT_NAME_LENGTH = 40;
+
+/** Why a project name can't be used, or null if it's fine. */
+export function projectNameProblem(
+  name: string,
+  projects: Project[],
+  ownId?: string
+): string | null {
+  const trimmed = name.trim();
+  if (!trimmed) return 'Give the project a name';
+  if (trimmed.length > MAX_PROJECT_NAME_LENGTH) {
+    return `Project names can be at most ${MAX_PROJECT_NAME_LENGTH} characters`;
+  }
+  const taken = projects.some(
+    (project) => project.id !== ownId && project.name.toLowerCase() === trimmed.toLowerCase()
+  );
+  return taken ? 'There is already a project with that name' : null;
+}
+
+export function serializeProjects(projects: Project[]): string {
+  return projects.length ? JSON.stringify(projects) : '';
+}
+
+/** The projects stored in the setting, skipping anything malformed. */
+export function parseProjects(value: string | null | undefined): Project[] {
+  if (!value) return [];
+  try {
+    const parsed = JSON.parse(value);
+    if (!Array.isArray(parsed)) return [];
+    return parsed.filter(
+      (p): p is Project =>
+        typeof p?.id === 'string' &&
+        typeof p.name === 'string' &&
+        typeof p.color === 'string' &&
+        typeof p.archived === 'boolean'
+    );
+  } catch {
+    return [];
+  }
+}
+
+/** A copy of the item assigned to `projectId` ('' removes the project). */
+export function withProject<T extends { projectId?: string }>(item: T, projectId: string): T {
+  const next = { ...item };
+  if (projectId) {
+    next.projectId = projectId;
+  } else {
+    delete next.projectId;
+  }
+  return next;
+}
+
+/* --------------------------------
+   Time totals
+---------------------------------- */
+
+/** Totals key for logs without a project. */
+export const NO_PROJECT = '';
+
+/** Milliseconds keyed by project id (NO_PROJECT for the rest). */
+export type ProjectTotals = Record<string, number>;
+
+/**
+ * Logged time of one day by project. Durations are the same ones the
+ * dashboard shows, so the day's last open-ended log doesn't count.
+ */
+export function dayProjectTotals(dayLogs: LogItem[]): ProjectTotals {
+  const spans = logSpans(dayLogs);
+  const totals: ProjectTotals = {};
+  for (const log of dayLogs) {
+    const span = spans[log.id];
+    if (!span) continue;
+    const key = log.projectId ?? NO_PROJECT;
+    totals[key] = (totals[key] || 0) + span.durationMs;
+  }
+  return totals;
+}
+
+/** Per-day totals from `from` to `to` (inclusive, days without time skipped) and their sum. */
+export function rangeProjectTotals(
+  logs: LogsByDate,
+  from: string,
+  to: string
+): { days: { date: string; totals: ProjectTotals }[]; totals: ProjectTotals } {
+  const days: { date: string; totals: ProjectTotals }[] = [];
+  const totals: ProjectTotals = {};
+  for (const date of Object.keys(logs).sort()) {
+    if (date < from || date > to) continue;
+    const day = dayProjectTotals(logs[date]);
+    if (!Object.keys(day).length) continue;
+    days.push({ date, totals: day });
+    for (const [key, ms] of Object.entries(day)) {
+      totals[key] = (totals[key] || 0) + ms;
+    }
+  }
+  return { days, totals };
+}
+
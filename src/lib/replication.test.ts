@@ -0,0 +1,175 @@
+import { describe, it } from 'node:test';
+import assert from 'node:assert/strict';
+import {
+  captureChanges,
+  compareStamps,
+  ItemRecord,
+  materialize,
+  mergeRecord,
+  recordKey,
+  Stamp
+} from '@/lib/replication';
+
+function logRecord(
+  id: string,
+  values: Record<string, unknown>,
+  stamps: Record<string, Stamp> = {}
+): ItemRecord {
+  return {
+    kind: 'logs',
+    id,
+    values: { content: '', time: '09:00', day: '2025-01-07', deleted: false, ...values },
+    stamps
+  };
+}
+
+function stampAll(record: ItemRecord, stamp: Stamp): ItemRecord {
+  const stamps: Record<string, Stamp> = {};
+  Object.keys(record.values).forEach((field) => {
+    stamps[field] = stamp;
+  });
+  return { ...record, stamps };
+}
+
+describe('compareStamps', () => {
+  it('orders by clock first', () => {
+    assert.ok(compareStamps({ clock: 1, node: 'b' }, { clock: 2, node: 'a' }) < 0);
+    assert.ok(compareStamps({ clock: 3, node: 'a' }, { clock: 2, node: 'z' }) > 0);
+  });
+
+  it('breaks clock ties by node id', () => {
+    assert.ok(compareStamps({ clock: 5, node: 'a' }, { clock: 5, node: 'b' }) < 0);
+    assert.ok(compareStamps({ clock: 5, node: 'b' }, { clock: 5, node: 'a' }) > 0);
+    assert.equal(compareStamps({ clock: 5, node: 'a' }, { clock: 5, node: 'a' }), 0);
+  });
+});
+
+describe('mergeRecord', () => {
+  const base = stampAll(logRecord('x', { content: 'base' }), { clock: 1, node: 'a' });
+
+  it('takes an unknown record as is', () => {
+    const { record, contested } = mergeRecord(undefined, base);
+    assert.deepEqual(record, base);
+    assert.deepEqual(contested, []);
+  });
+
+  it('keeps the later write per field and reports the loser', () => {
+    const incoming = logRecord('x', { content: 'newer' }, { content: { clock: 2, node: 'b' } });
+    const { record, changedFields, contested } = mergeRecord(base, incoming);
+    assert.equal(record.values.content, 'newer');
+    assert.deepEqual(record.stamps.content, { clock: 2, node: 'b' });
+    assert.equal(record.values.time, '09:00');
+    assert.deepEqual(changedFields, ['content']);
+    assert.deepEqual(contested, [
+      { field: 'content', incomingWon: true, discardedValue: 'base' }
+    ]);
+  });
+
+  it('ignores an older write but still reports the conflict', () => {
+    const current = mergeRecord(
+      base,
+      logRecord('x', { content: 'newer' }, { content: { clock: 3, node: 'a' } })
+    ).record;
+    const stale = logRecord('x', { content: 'stale' }, { content: { clock: 2, node: 'b' } });
+    const { record, changedFields, contested } = mergeRecord(current, stale);
+    assert.equal(record.values.content, 'newer');
+    assert.deepEqual(changedFields, []);
+    assert.deepEqual(contested, [
+      { field: 'content', incomingWon: false, discardedValue: 'stale' }
+    ]);
+  });
+
+  it('skips a field whose stamp it already has', () => {
+    const { changedFields, contested } = mergeRecord(base, base);
+    assert.deepEqual(changedFields, []);
+    assert.deepEqual(contested, []);
+  });
+
+  it('lets the higher node id win a clock tie on both replicas', () => {
+    const fromA = logRecord('x', { content: 'from a' }, { content: { clock: 7, node: 'a' } });
+    const fromB = logRecord('x', { content: 'from b' }, { content: { clock: 7, node: 'b' } });
+    const onA = mergeRecord(mergeRecord(base, fromA).record, fromB).record;
+    const onB = mergeRecord(mergeRecord(base, fromB).record, fromA).record;
+    assert.equal(onA.values.content, 'from b');
+    assert.deepEqual(onA, onB);
+  });
+
+  it('keeps concurrent edits to different fields', () => {
+    const content = logRecord('x', { content: 'edited' }, { content: { clock: 2, node: 'a' } });
+    const time = logRecord('x', { time: '10:30' }, { time: { clock: 2, node: 'b' } });
+    const merged = mergeRecord(mergeRecord(base, content).record, time).record;
+    assert.equal(merged.values.content, 'edited');
+    assert.equal(merged.values.time, '10:30');
+  });
+
+  it('lets a later delete beat an earlier edit', () => {
+    const edit = logRecord('x', { content: 'edited' }, { content: { clock: 2, node: 'a' } });
+    const remove = logRecord('x', { deleted: true }, { deleted: { clock: 3, node: 'b' } });
+    const merged = mergeRecord(mergeRecord(base, remove).record, edit).record;
+    assert.equal(merged.values.deleted, true);
+    assert.deepEqual(materialize({ [recordKey('logs', 'x')]: merged }).logs, {});
+  });
+});
+
+describe('captureChanges', () => {
+  const data = {
+    logs: { '2025-01-07': [{ id: 'l1', time: '09:00', content: 'standup' }] },
+    todos: {}
+  };
+
+  it('stamps every field of a new item with one clock', () => {
+    const { records, changed, clock } = captureChanges({}, data, 'n1', 0);
+    assert.equal(changed.length, 1);
+    const record = records[recordKey('logs', 'l1')];
+    assert.equal(record.values.day, '2025-01-07');
+    assert.equal(record.values.deleted, false);
+    Object.keys(record.values).forEach((field) => {
+      assert.deepEqual(record.stamps[field], { clock, node: 'n1' });
+    });
+  });
+
+  it('restamps only the fields that changed', () => {
+    const first = captureChanges({}, data, 'n1', 0);
+    const edited = {
+      logs: { '2025-01-07': [{ id: 'l1', time: '09:00', content: 'retro' }] },
+      todos: {}
+    };
+    const second = captureChanges(first.records, edited, 'n1', first.clock);
+    const record = second.records[recordKey('logs', 'l1')];
+    assert.ok(second.clock > first.clock);
+    assert.equal(record.stamps.content.clock, second.clock);
+    assert.equal(record.stamps.time.clock, first.clock);
+  });
+
+  it('reports nothing when nothing changed', () => {
+    const first = captureChanges({}, data, 'n1', 0);
+    const again = captureChanges(first.records, data, 'n1', first.clock);
+    assert.deepEqual(again.changed, []);
+    assert.equal(again.clock, first.clock);
+  });
+
+  it('turns a missing item into a deletion', () => {
+    const first = captureChanges({}, data, 'n1', 0);
+    const empty = { logs: {}, todos: {} };
+    const { records, changed } = captureChanges(first.records, empty, 'n1', first.clock);
+    assert.equal(changed.length, 1);
+    assert.equal(records[recordKey('logs', 'l1')].values.deleted, true);
+  });
+});
+
+describe('materialize', () => {
+  it('places items on their day and sorts logs by timestamp', () => {
+    const stamp = { clock: 1, node: 'a' };
+    const late = stampAll(logRecord('late', { time: '11:00', rawTimestamp: 2000 }), stamp);
+    const early = stampAll(logRecord('early', { time: '08:00', rawTimestamp: 1000 }), stamp);
+    const { logs } = materialize({
+      [recordKey('logs', 'late')]: late,
+      [recordKey('logs', 'early')]: early
+    });
+    assert.deepEqual(
+      logs['2025-01-07'].map((log) => log.id),
+      ['early', 'late']
+    );
+    assert.equal('day' in logs['2025-01-07'][0], false);
+  });
+});
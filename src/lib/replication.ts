@@ -0,0 +1,339 @@
+import type { LogItem, TodoItem } from '@/lib/types';
+import type { DayItem, DayKind, DaysOf } from '@/lib/storage';
+import type { PersistedData } from '@/lib/migrations';
+import { isDateKey, sortLogsByTimestamp } from '@/lib/time';
+
+/* ------------------------------------------------------------------
+   Replication records
+   Shared by the browser and the server sync endpoint. Every log and
+   todo is tracked as a record of field values, each stamped with a
+   hybrid logical clock (wall-clock millis, bumped past anything seen)
+   and the id of the replica that wrote it. Deletions are a "deleted"
+   field, so they travel like any other change. Merging keeps, per
+   field, the value with the highest stamp: last writer wins, and every
+   replica ends up with the same result whatever order changes arrive.
+--------------------------------------------------------------------- */
+
+export interface Stamp {
+  clock: number;
+  node: string;
+}
+
+export interface ItemRecord {
+  kind: DayKind;
+  id: string;
+  /** Item fields (minus id), plus `day` (its date key) and `deleted`. */
+  values: Record<string, unknown>;
+  stamps: Record<string, Stamp>;
+}
+
+/** Records keyed by recordKey(kind, id). */
+export type RecordMap = Record<string, ItemRecord>;
+
+/** A field where two replicas wrote different values concurrently. */
+export interface SyncConflict {
+  kind: DayKind;
+  id: string;
+  field: string;
+  day: string;
+  keptValue: unknown;
+  discardedValue: unknown;
+  /** Epoch millis when the server resolved it. */
+  at: number;
+}
+
+export function recordKey(kind: DayKind, id: string): string {
+  return `${kind}:${id}`;
+}
+
+/** Order stamps by clock, then node id, so ties break the same everywhere. */
+export function compareStamps(a: Stamp, b: Stamp): number {
+  if (a.clock !== b.clock) return a.clock - b.clock;
+  return a.node < b.node ? -1 : a.node > b.node ? 1 : 0;
+}
+
+/** Next clock value: now, or just past the latest clock seen. */
+export function tick(clock: number): number {
+  return Math.max(Date.now(), clock + 1);
+}
+
+/** Highest clock among the records' stamps. */
+export function maxClock(records: ItemRecord[], clock = 0): number {
+  for (const record of records) {
+    for (const stamp of Object.values(record.stamps)) {
+      if (stamp.clock > clock) clock = stamp.clock;
+    }
+  }
+  return clock;
+}
+
+function sameValue(a: unknown, b: unknown): boolean {
+  return JSON.stringify(a) === JSON.stringify(b);
+}
+
+function itemValues(item: LogItem | TodoItem, day: string): Record<string, unknown> {
+  const values: Record<string, unknown> = { ...item, day, deleted: false };
+  delete values.id;
+  return values;
+}
+
+function recordItem<K extends DayKind>(record: ItemRecord): DayItem<K> {
+  const fields: Record<string, unknown> = { ...record.values, id: record.id };
+  delete fields.day;
+  delete fields.deleted;
+  return fields as unknown as DayItem<K>;
+}
+
+/**
+ * Compare the current data with the records and stamp every field that
+ * changed (new items, edits, moves and deletions) with one new clock.
+ * Returns the updated records, just the changed ones, and the clock.
+ */
+export function captureChanges(
+  records: RecordMap,
+  data: PersistedData,
+  node: string,
+  clock: number
+): { records: RecordMap; changed: ItemRecord[]; clock: number } {
+  const stamp: Stamp = { clock: tick(clock), node };
+  const next: RecordMap = { ...records };
+  const changed: ItemRecord[] = [];
+  const seen = new Set<string>();
+
+  function capture(kind: DayKind, days: Record<string, (LogItem | TodoItem)[]>) {
+    for (const [day, items] of Object.entries(days)) {
+      for (const item of items) {
+        const key = recordKey(kind, item.id);
+        seen.add(key);
+        const values = itemValues(item, day);
+        const existing = records[key];
+        const fields = new Set([
+          ...Object.keys(values),
+          ...Object.keys(existing?.values ?? {})
+        ]);
+        const stamps = { ...existing?.stamps };
+        let dirty = !existing;
+        fields.forEach((field) => {
+          if (existing && sameValue(existing.values[field], values[field])) return;
+          stamps[field] = stamp;
+          dirty = true;
+        });
+        if (!dirty) continue;
+        next[key] = { kind, id: item.id, values, stamps };
+        changed.push(next[key]);
+      }
+    }
+  }
+  capture('logs', data.logs);
+  capture('todos', data.todos);
+
+  for (const [key, record] of Object.entries(records)) {
+    if (seen.has(key) || record.values.deleted) continue;
+    next[key] = {
+      ...record,
+      values: { ...record.values, deleted: true },
+      stamps: { ...record.stamps, deleted: stamp }
+    };
+    changed.push(next[key]);
+  }
+
+  return { records: next, changed, clock: changed.length ? stamp.clock : clock };
+}
+
+/**
+ * Field-level last-writer-wins merge of `incoming` into `current`.
+ * `contested` lists the fields where both sides held different values,
+ * with the value that lost.
+ */
+export function mergeRecord(
+  current: ItemRecord | undefined,
+  incoming: ItemRecord
+): {
+  record: ItemRecord;
+  changedFields: string[];
+  contested: { field: string; incomingWon: boolean; discardedValue: unknown }[];
+} {
+  if (!current) {
+    return { record: incoming, changedFields: Object.keys(incoming.stamps), contested: [] };
+  }
+  const values = { ...current.values };
+  const stamps = { ...current.stamps };
+  const changedFields: string[] = [];
+  const contested: { field: string; incomingWon: boolean; discardedValue: unknown }[] = [];
+
+  for (const [field, stamp] of Object.entries(incoming.stamps)) {
+    const existing = current.stamps[field];
+    const order = existing ? compareStamps(stamp, existing) : 1;
+    if (order === 0) continue;
+    const differs = !sameValue(current.values[field], incoming.values[field]);
+    if (order > 0) {
+      values[field] = incoming.values[field];
+      stamps[field] = stamp;
+      changedFields.push(field);
+    }
+    if (existing && differs) {
+      contested.push({
+        field,
+        incomingWon: order > 0,
+        discardedValue: order > 0 ? current.values[field] : incoming.values[field]
+      });
+    }
+  }
+  return { record: { ...current, values, stamps }, changedFields, contested };
+}
+
+/** Rebuild days from scratch out of records (deleted ones are skipped). */
+export function materialize(records: RecordMap): PersistedData {
+  return applyRecords({ logs: {}, todos: {} }, Object.values(records));
+}
+
+/**
+ * Put each record's item where it belongs in the days: removed if
+ * deleted, replaced in place if its day is unchanged, otherwise moved.
+ * Touched log days are re-sorted; days left empty are dropped.
+ */
+export function applyRecords(data: PersistedData, records: ItemRecord[]): PersistedData {
+  function apply<K extends DayKind>(kind: K, days: DaysOf<K>): DaysOf<K> {
+    const relevant = records.filter((record) => record.kind === kind);
+    if (!relevant.length) return days;
+
+    const next: DaysOf<K> = { ...days };
+    const dayOf = new Map<string, string>();
+    for (const [day, items] of Object.entries(days)) {
+      items.forEach((item) => dayOf.set(item.id, day));
+    }
+    const touched = new Set<string>();
+
+    for (const record of relevant) {
+      const from = dayOf.get(record.id);
+      const to = record.values.deleted ? null : String(record.values.day);
+      const item = recordItem<K>(record);
+      if (from && from === to) {
+        next[from] = next[from].map((existing) => (existing.id === record.id ? item : existing));
+        touched.add(from);
+        continue;
+      }
+      if (from) {
+        next[from] = next[from].filter((existing) => existing.id !== record.id);
+        dayOf.delete(record.id);
+        touched.add(from);
+      }
+      if (to) {
+        next[to] = [...(next[to] || []), item];
+        dayOf.set(record.id, to);
+        touched.add(to);
+      }
+    }
+
+    touched.forEach((day) => {
+      if (!next[day].length) {
+        delete next[day];
+      } else if (kind === 'logs') {
+        next[day] = sortLogsByTimestamp(next[day] as LogItem[]) as DayItem<K>[];
+      }
+    });
+    return next;
+  }
+
+  return { logs: apply('logs', data.logs), todos: apply('todos', data.todos) };
+}
+
+/* --------------------------------
+   Wire format
+---------------------------------- */
+
+export interface SyncRequest {
+  node: string;
+  clock: number;
+  /** Server sequence number up to which this replica has pulled. */
+  cursor: number;
+  changes: ItemRecord[];
+}
+
+export interface SyncResponse {
+  cursor: number;
+  clock: number;
+  /** Every record changed on the server since the request's cursor. */
+  changes: ItemRecord[];
+  /** Most recent conflicts, newest first. */
+  conflicts: SyncConflict[];
+}
+
+function isStamp(value: unknown): value is Stamp {
+  const v = value as Stamp | null;
+  return (
+    typeof v === 'object' &&
+    v !== null &&
+    typeof v.clock === 'number' &&
+    typeof v.node === 'string'
+  );
+}
+
+const isString = (value: unknown) => typeof value === 'string';
+const isTimestamp = (value: unknown) => typeof value === 'number' && Number.isFinite(value);
+
+/**
+ * The fields a record of each kind may carry and the type of each.
+ * Optional item fields can be missing from `values` (a stamp without a
+ * value removes the field); the ones in REQUIRED_FIELDS can't.
+ */
+const FIELD_CHECKS: Record<DayKind, Record<string, (value: unknown) => boolean>> = {
+  logs: {
+    content: isString,
+    time: isString,
+    rawTimestamp: isTimestamp,
+    endTime: isString,
+    endTimestamp: isTimestamp,
+    todoId: isString,
+    projectId: isString,
+    date: isString
+  },
+  todos: {
+    content: isString,
+    manualOverride: (value) => value === null || typeof value === 'boolean',
+    projectId: isString,
+    date: isString
+  }
+};
+
+const REQUIRED_FIELDS: Record<DayKind, string[]> = {
+  logs: ['content', 'time', 'day', 'deleted'],
+  todos: ['content', 'day', 'deleted']
+};
+
+function isValidField(kind: DayKind, field: string, value: unknown): boolean {
+  if (field === 'day') return typeof value === 'string' && isDateKey(value);
+  if (field === 'deleted') return typeof value === 'boolean';
+  const check = FIELD_CHECKS[kind][field];
+  return !!check && (value === undefined || check(value));
+}
+
+/**
+ * True if the value is an ItemRecord we can merge: a known kind, and
+ * only that kind's fields, each with the type the items use, so nothing
+ * malformed can reach the stored days.
+ */
+export function isItemRecord(value: unknown): value is ItemRecord {
+  const v = value as ItemRecord | null;
+  if (
+    typeof v !== 'object' ||
+    v === null ||
+    (v.kind !== 'logs' && v.kind !== 'todos') ||
+    typeof v.id !== 'string' ||
+    !v.id ||
+    typeof v.values !== 'object' ||
+    v.values === null ||
+    Array.isArray(v.values) ||
+    typeof v.stamps !== 'object' ||
+    v.stamps === null ||
+    !Object.values(v.stamps).every(isStamp)
+  ) {
+    return false;
+  }
+  const { kind, values, stamps } = v;
+  return (
+    REQUIRED_FIELDS[kind].every((field) => values[field] !== undefined) &&
+    Object.keys(values).every((field) => isValidField(kind, field, values[field])) &&
+    Object.keys(stamps).every((field) => isValidField(kind, field, values[field]))
+  );
+}
@@ -0,0 +1,435 @@
+import type { LogItem, LogsByDate, TodoItem, TodosByDate } from '@/lib/types';
+import type { DayKind } from '@/lib/storage';
+import type { Project } from '@/lib/projects';
+import { isDateKey, parseTimeOfDay } from '@/lib/time';
+import { contentTags } from '@/lib/tags';
+import { isTodoCompleted } from '@/lib/todos';
+import { logSpans, formatLogLine } from '@/lib/durations';
+import { markdownToPlainText } from '@/lib/markdown';
+
+/* ------------------------------------------------------------------
+   Search over every day's logs and todos
+   Plain words match anywhere in the content (case-insensitive); a
+   "quoted phrase" has to appear as written. Filters narrow the results:
+
+     tag:acme  project:website  type:log|todo  done:true|false
+     from:2025-01-01  to:2025-01-31  before:12:00  after:9:30
+
+   Terms are ANDed unless joined with OR; NOT (or a leading "-") negates
+   and parentheses group. Matches score higher for whole words, word
+   starts and phrases; ties go to the most recent day.
+--------------------------------------------------------------------- */
+
+export interface SearchResult {
+  kind: DayKind;
+  date: string;
+  id: string;
+  content: string;
+  /** Logs only. */
+  time?: string;
+  item: LogItem | TodoItem;
+  score: number;
+}
+
+/** A query that can't be parsed; the message is meant for the user. */
+export class QueryError extends Error {
+  constructor(message: string) {
+    super(message);
+    this.name = 'QueryError';
+  }
+}
+
+type SearchFilter =
+  | { field: 'tag'; tag: string }
+  | { field: 'project'; name: string }
+  | { field: 'type'; kind: DayKind }
+  | { field: 'done'; done: boolean }
+  | { field: 'from' | 'to'; date: string }
+  | { field: 'before' | 'after'; minutes: number };
+
+type QueryNode =
+  | { type: 'and' | 'or'; nodes: QueryNode[] }
+  | { type: 'not'; node: QueryNode }
+  | { type: 'text'; text: string }
+  | { type: 'filter'; filter: SearchFilter };
+
+/* --------------------------------
+   Parsing
+---------------------------------- */
+
+type Token =
+  | { type: 'word' | 'phrase'; text: string }
+  | { type: 'field'; field: string; value: string }
+  | { type: 'and' | 'or' | 'not' | 'open' | 'close' };
+
+function tokenize(query: string): Token[] {
+  const tokens: Token[] = [];
+  let i = 0;
+
+  function readQuoted(): string {
+    const end = query.indexOf('"', i + 1);
+    const text = query.slice(i + 1, end === -1 ? query.length : end);
+    i = end === -1 ? query.length : end + 1;
+    return text;
+  }
+
+  while (i < query.length) {
+    const ch = query[i];
+    if (/\s/.test(ch)) {
+      i++;
+    } else if (ch === '(' || ch === ')') {
+      tokens.push({ type: ch === '(' ? 'open' : 'close' });
+      i++;
+    } else if (ch === '"') {
+      // "" (or only spaces) would match everything
+      const text = readQuoted();
+      if (text.trim()) tokens.push({ type: 'phrase', text });
+    } else if (ch === '-' && i + 1 < query.length && !/[\s)]/.test(query[i + 1])) {
+      tokens.push({ type: 'not' });
+      i++;
+    } else {
+      const start = i;
+      while (i < query.length && !/[\s()"]/.test(query[i])) i++;
+      const word = query.slice(start, i);
+      const colon = word.indexOf(':');
+      if (colon > 0 && /^[a-z]+$/i.test(word.slice(0, colon))) {
+        const field = word.slice(0, colon).toLowerCase();
+        // field:"two words"
+        const value = colon === word.length - 1 && query[i] === '"'
+          ? readQuoted()
+          : word.slice(colon + 1);
+        tokens.push({ type: 'field', field, value });
+      } else if (word === 'AND' || word === 'OR' || word === 'NOT') {
+        tokens.push({ type: word.toLowerCase() as 'and' | 'or' | 'not' });
+      } else {
+        tokens.push({ type: 'word', text: word });
+      }
+    }
+  }
+  return tokens;
+}
+
+function parseFilter(field: string, value: string): SearchFilter {
+  const v = value.trim();
+  switch (field) {
+    case 'tag': {
+      const tag = v.replace(/^#/, '').toLowerCase();
+      if (!tag) break;
+      return { field, tag: v.startsWith('@') ? tag : `#${tag}` };
+    }
+    case 'project':
+      if (!v) break;
+      return { field, name: v.replace(/^@/, '').toLowerCase() };
+    case 'type':
+      if (/^logs?$/i.test(v)) return { field, kind: 'logs' };
+      if (/^todos?$/i.test(v)) return { field, kind: 'todos' };
+      throw new QueryError('type: must be "log" or "todo"');
+    case 'done':
+      if (/^(true|yes)$/i.test(v)) return { field, done: true };
+      if (/^(false|no)$/i.test(v)) return { field, done: false };
+      throw new QueryError('done: must be true or false');
+    case 'from':
+    case 'to':
+      if (!isDateKey(v)) throw new QueryError(`${field}: needs a YYYY-MM-DD date`);
+      return { field, date: v };
+    case 'before':
+    case 'after': {
+      const parsed = parseTimeOfDay(v);
+      if (!parsed) throw new QueryError(`${field}: needs a time like 12:00 or 9:30 AM`);
+      return { field, minutes: parsed[0] * 60 + parsed[1] };
+    }
+    default:
+      throw new QueryError(`Unknown filter "${field}:"`);
+  }
+  throw new QueryError(`${field}: needs a value`);
+}
+
+/** Parse a query; null when it's empty. Throws QueryError. */
+export function parseQuery(query: string): QueryNode | null {
+  const tokens = tokenize(query);
+  let pos = 0;
+
+  function parseOr(): QueryNode {
+    const nodes = [parseAnd()];
+    while (tokens[pos]?.type === 'or') {
+      pos++;
+      nodes.push(parseAnd());
+    }
+    return nodes.length === 1 ? nodes[0] : { type: 'or', nodes };
+  }
+
+  function parseAnd(): QueryNode {
+    const nodes = [parseUnary()];
+    while (pos < tokens.length && tokens[pos].type !== 'or' && tokens[pos].type !== 'close') {
+      if (tokens[pos].type === 'and') pos++;
+      nodes.push(parseUnary());
+    }
+    return nodes.length === 1 ? nodes[0] : { type: 'and', nodes };
+  }
+
+  function parseUnary(): QueryNode {
+    const token = tokens[pos++];
+    if (!token) throw new QueryError('The query ends too early');
+    switch (token.type) {
+      case 'not':
+        return { type: 'not', node: parseUnary() };
+      case 'open': {
+        const node = parseOr();
+        if (tokens[pos]?.type !== 'close') throw new QueryError('Missing ")"');
+        pos++;
+        return node;
+      }
+      case 'word':
+      case 'phrase':
+        return { type: 'text', text: token.text.toLowerCase() };
+      case 'field':
+        return { type: 'filter', filter: parseFilter(token.field, token.value) };
+      default:
+        throw new QueryError(`Unexpected ${token.type === 'close' ? '")"' : token.type.toUpperCase()}`);
+    }
+  }
+
+  if (!tokens.length) return null;
+  const node = parseOr();
+  if (pos < tokens.length) throw new QueryError('Unexpected ")"');
+  return node;
+}
+
+/* --------------------------------
+   Matching
+---------------------------------- */
+
+interface Candidate {
+  kind: DayKind;
+  date: string;
+  item: LogItem | TodoItem;
+  /** Lowercased content. */
+  text: string;
+  dayLogs: LogItem[];
+}
+
+function matchesFilter(filter: SearchFilter, c: Candidate, projects: Project[]): boolean {
+  switch (filter.field) {
+    case 'tag':
+      return contentTags(c.item.content).includes(filter.tag);
+    case 'project': {
+      const project = projects.find((p) => p.id === c.item.projectId);
+      return (
+        project?.name.toLowerCase() === filter.name ||
+        contentTags(c.item.content).includes(`@${filter.name}`)
+      );
+    }
+    case 'type':
+      return c.kind === filter.kind;
+    case 'done':
+      return c.kind === 'todos' && isTodoCompleted(c.item as TodoItem, c.dayLogs) === filter.done;
+    case 'from':
+      return c.date >= filter.date;
+    case 'to':
+      return c.date <= filter.date;
+    case 'before':
+    case 'after': {
+      if (c.kind !== 'logs') return false;
+      const parsed = parseTimeOfDay((c.item as LogItem).time);
+      if (!parsed) return false;
+      const minutes = parsed[0] * 60 + parsed[1];
+      return filter.field === 'before' ? minutes < filter.minutes : minutes >= filter.minutes;
+    }
+  }
+}
+
+function matches(node: QueryNode, c: Candidate, projects: Project[]): boolean {
+  switch (node.type) {
+    case 'and':
+      return node.nodes.every((n) => matches(n, c, projects));
+    case 'or':
+      return node.nodes.some((n) => matches(n, c, projects));
+    case 'not':
+      return !matches(node.node, c, projects);
+    case 'text':
+      return c.text.includes(node.text);
+    case 'filter':
+      return matchesFilter(node.filter, c, projects);
+  }
+}
+
+/** Words and phrases the results should contain (not the negated ones). */
+function positiveTerms(node: QueryNode | null): string[] {
+  if (!node || node.type === 'not' || node.type === 'filter') return [];
+  if (node.type === 'text') return [node.text];
+  return Array.from(new Set(node.nodes.flatMap(positiveTerms)));
+}
+
+function escapeRegExp(text: string): string {
+  return text.replace(/[.*+?^${}()|[\]\\]/g, '\\$&');
+}
+
+/** Relevance of `content`: points for each term it holds, more for whole words. */
+function scoreContent(content: string, terms: string[]): number {
+  const lower = content.toLowerCase();
+  let score = 0;
+  for (const term of terms) {
+    if (!lower.includes(term)) continue;
+    score += 1;
+    if (/\s/.test(term)) {
+      score += 3;
+      continue;
+    }
+    const escaped = escapeRegExp(term);
+    if (new RegExp(`\\b${escaped}\\b`, 'i').test(content)) {
+      score += 2;
+    } else if (new RegExp(`\\b${escaped}`, 'i').test(content)) {
+      score += 1;
+    }
+  }
+  return score;
+}
+
+export interface SearchOptions {
+  /** For project: filters. */
+  projects?: Project[];
+  limit?: number;
+}
+
+export interface SearchOutcome {
+  results: SearchResult[];
+  /** What to highlight in the results. */
+  terms: string[];
+  error: string | null;
+}
+
+/** Results runSearch returns unless told otherwise. */
+export const SEARCH_RESULT_LIMIT = 50;
+
+/** Run a query; best matches first, at most `limit` (SEARCH_RESULT_LIMIT by default). */
+export function runSearch(
+  logs: LogsByDate,
+  todos: TodosByDate,
+  query: string,
+  { projects = [], limit = SEARCH_RESULT_LIMIT }: SearchOptions = {}
+): SearchOutcome {
+  let root: QueryNode | null;
+  try {
+    root = parseQuery(query);
+  } catch (error) {
+    if (error instanceof QueryError) return { results: [], terms: [], error: error.message };
+    throw error;
+  }
+  if (!root) return { results: [], terms: [], error: null };
+  const terms = positiveTerms(root);
+
+  const found: (SearchResult & { order: number })[] = [];
+  function consider(kind: DayKind, date: string, item: LogItem | TodoItem) {
+    const candidate: Candidate = {
+      kind,
+      date,
+      item,
+      text: item.content.toLowerCase(),
+      dayLogs: logs[date] || []
+    };
+    if (!matches(root!, candidate, projects)) return;
+    const log = kind === 'logs' ? (item as LogItem) : null;
+    found.push({
+      kind,
+      date,
+      id: item.id,
+      content: item.content,
+      ...(log ? { time: log.time } : {}),
+      item,
+      score: scoreContent(item.content, terms),
+      order: log?.rawTimestamp ?? 0
+    });
+  }
+  for (const [date, dayLogs] of Object.entries(logs)) {
+    dayLogs.forEach((log) => consider('logs', date, log));
+  }
+  for (const [date, dayTodos] of Object.entries(todos)) {
+    dayTodos.forEach((todo) => consider('todos', date, todo));
+  }
+
+  const results = found
+    .sort(
+      (a, b) =>
+        b.score - a.score || (a.date < b.date ? 1 : a.date > b.date ? -1 : b.order - a.order)
+    )
+    .slice(0, limit)
+    .map((result) => {
+      const trimmed: SearchResult & { order?: number } = result;
+      delete trimmed.order;
+      return trimmed;
+    });
+  return { results, terms, error: null };
+}
+
+/** Text cut into runs, marking the ones that match a term. */
+export function highlightMatches(
+  text: string,
+  terms: string[]
+): { text: string; match: boolean }[] {
+  if (!terms.length) return [{ text, match: false }];
+  const pattern = new RegExp(
+    `(${[...terms].sort((a, b) => b.length - a.length).map(escapeRegExp).join('|')})`,
+    'gi'
+  );
+  return text
+    .split(pattern)
+    .filter(Boolean)
+    .map((part) => ({ text: part, match: terms.includes(part.toLowerCase()) }));
+}
+
+/**
+ * Results as text, oldest day first, each day's logs and todos written
+ * the way the Logs/Todos export does ("9:00 AM-10:30 AM - content",
+ * "- content", Markdown reduced to plain text).
+ */
+export function formatSearchResults(results: SearchResult[], logs: LogsByDate): string {
+  const byDate = new Map<string, SearchResult[]>();
+  for (const result of results) {
+    byDate.set(result.date, [...(byDate.get(result.date) || []), result]);
+  }
+  return Array.from(byDate.keys())
+    .sort()
+    .map((date) => {
+      const spans = logSpans(logs[date] || []);
+      const dayResults = byDate.get(date)!;
+      const logLines = dayResults
+        .filter((r) => r.kind === 'logs')
+        .map((r) => r.item as LogItem)
+        .sort((a, b) => (a.rawTimestamp ?? 0) - (b.rawTimestamp ?? 0))
+        .map((log) =>
+          formatLogLine({ ...log, content: markdownToPlainText(log.content) }, spans[log.id])
+        );
+      const todoLines = dayResults
+        .filter((r) => r.kind === 'todos')
+        .map((r) => `- ${markdownToPlainText(r.item.content)}`);
+      return [date, ...logLines, ...todoLines].join('\n');
+    })
+    .join('\n\n');
+}
+
+/* --------------------------------
+   Saved searches
+---------------------------------- */
+
+/** A query pinned next to the search box; kept as the "savedSearches" setting (JSON). */
+export interface SavedSearch {
+  id: string;
+  query: string;
+}
+
+export function serializeSavedSearches(searches: SavedSearch[]): string {
+  return searches.length ? JSON.stringify(searches) : '';
+}
+
+export function parseSavedSearches(value: string | null | undefined): SavedSearch[] {
+  if (!value) return [];
+  try {
+    const parsed = JSON.parse(value);
+    if (!Array.isArray(parsed)) return [];
+    return parsed.filter(
+      (s): s is SavedSearch => typeof s?.id === 'string' && typeof s.query === 'string'
+    );
+  } catch {
+    return [];
+  }
+}
@@ -0,0 +1,134 @@
+import { createHash, randomBytes } from 'crypto';
+import type { ApiTokenInfo, ApiTokenScope } from '@/lib/accounts';
+import { readJSONFile, updateJSONFile } from '@/lib/server/jsonStore';
+import { currentSession } from '@/lib/server/sessions';
+import { generateId } from '@/lib/ids';
+
+/* ------------------------------------------------------------------
+   Personal API tokens
+   For scripts, hooks and the CLI, which send "Authorization: Bearer
+   <token>" instead of a session cookie. Like sessions, api-tokens.json
+   only keeps a SHA-256 of each token; the token itself is shown once,
+   when it's created.
+--------------------------------------------------------------------- */
+
+const TOKEN_PREFIX = 'tc_';
+
+const MAX_TOKENS_PER_USER = 50;
+
+interface StoredToken extends ApiTokenInfo {
+  username: string;
+}
+
+type TokensFile = Record<string, StoredToken>;
+
+const TOKENS_FILE = 'api-tokens.json';
+
+function hashToken(token: string): string {
+  return createHash('sha256').update(token).digest('hex');
+}
+
+function toInfo({ id, name, scope, createdAt, lastUsedAt }: StoredToken): ApiTokenInfo {
+  return { id, name, scope, createdAt, lastUsedAt };
+}
+
+/** A user's tokens, newest first. */
+export async function listApiTokens(username: string): Promise<ApiTokenInfo[]> {
+  const tokens = await readJSONFile<TokensFile>(TOKENS_FILE, {});
+  return Object.values(tokens)
+    .filter((token) => token.username === username)
+    .sort((a, b) => b.createdAt - a.createdAt)
+    .map(toInfo);
+}
+
+/** Issue a token; null if the user already has the maximum number. */
+export async function createApiToken(
+  username: string,
+  name: string,
+  scope: ApiTokenScope
+): Promise<{ token: string; info: ApiTokenInfo } | null> {
+  const token = TOKEN_PREFIX + randomBytes(32).toString('base64url');
+  const stored: StoredToken = {
+    id: generateId(),
+    username,
+    name,
+    scope,
+    createdAt: Date.now(),
+    lastUsedAt: null
+  };
+  return updateJSONFile<TokensFile, { token: string; info: ApiTokenInfo } | null>(
+    TOKENS_FILE,
+    {},
+    (tokens) => {
+      const owned = Object.values(tokens).filter((t) => t.username === username);
+      if (owned.length >= MAX_TOKENS_PER_USER) return { value: tokens, result: null };
+      return {
+        value: { ...tokens, [hashToken(token)]: stored },
+        result: { token, info: toInfo(stored) }
+      };
+    }
+  );
+}
+
+/** Revoke one of a user's tokens by id; false if there was no such token. */
+export async function revokeApiToken(username: string, id: string): Promise<boolean> {
+  return updateJSONFile<TokensFile, boolean>(TOKENS_FILE, {}, (tokens) => {
+    const value = { ...tokens };
+    const entry = Object.entries(value).find(
+      ([, token]) => token.username === username && token.id === id
+    );
+    if (!entry) return { value: tokens, result: false };
+    delete value[entry[0]];
+    return { value, result: true };
+  });
+}
+
+export async function deleteUserApiTokens(username: string): Promise<void> {
+  await updateJSONFile<TokensFile, void>(TOKENS_FILE, {}, (tokens) => {
+    const value = { ...tokens };
+    for (const [hash, token] of Object.entries(value)) {
+      if (token.username === username) delete value[hash];
+    }
+    return { value, result: undefined };
+  });
+}
+
+/** The stored token for a bearer token, noting when it was last used. */
+async function touchApiToken(token: string): Promise<StoredToken | null> {
+  const hash = hashToken(token);
+  const tokens = await readJSONFile<TokensFile>(TOKENS_FILE, {});
+  if (!tokens[hash]) return null;
+  return updateJSONFile<TokensFile, StoredToken | null>(TOKENS_FILE, {}, (current) => {
+    const found = current[hash];
+    if (!found) return { value: current, result: null };
+    const used = { ...found, lastUsedAt: Date.now() };
+    return { value: { ...current, [hash]: used }, result: used };
+  });
+}
+
+/* --------------------------------
+   Request authentication
+---------------------------------- */
+
+/** Who is calling, or the error to answer with. */
+export type Caller = { username: string } | { error: string; status: number };
+
+/**
+ * Authenticate a request by bearer token, falling back to the session
+ * cookie. Sessions may do anything; tokens only what their scope allows
+ * ("write" includes "read").
+ */
+export async function authenticate(request: Request, scope: ApiTokenScope): Promise<Caller> {
+  const header = request.headers.get('authorization');
+  if (!header) {
+    const session = await currentSession();
+    return session ? { username: session.username } : { error: 'Not signed in', status: 401 };
+  }
+  const match = header.match(/^Bearer\s+(\S+)$/i);
+  const stored = match ? await touchApiToken(match[1]) : null;
+  if (!stored) return { error: 'Invalid API token', status: 401 };
+  if (scope === 'write' && stored.scope !== 'write') {
+    return { error: 'This token is read-only', status: 403 };
+  }
+  return { username: stored.username };
+}
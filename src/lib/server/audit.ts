@@ -0,0 +1,68 @@
+import type { AuthEvent, AuthEventType } from '@/lib/accounts';
+import { readJSONFile, updateJSONFile } from '@/lib/server/jsonStore';
+
+/* ------------------------------------------------------------------
+   Auth audit log, kept in auth-events.json keyed by username.
+   Only the newest AUDIT_LIMIT events per account are kept.
+--------------------------------------------------------------------- */
+
+const AUDIT_LIMIT = 200;
+
+type EventsFile = Record<string, AuthEvent[]>;
+
+const EVENTS_FILE = 'auth-events.json';
+
+/** How many proxies in front of the app append to X-Forwarded-For. */
+function trustedProxies(): number {
+  const count = Number(process.env.TIMECHAPTER_TRUSTED_PROXIES);
+  return Number.isInteger(count) && count > 0 ? count : 0;
+}
+
+/**
+ * Where a request came from, for the log and for throttling. Without
+ * trusted proxies server.js drops client-sent forwarding headers, so
+ * X-Forwarded-For holds only the connection's address. Behind N proxies
+ * each appends the address it was reached from, and the client is the
+ * Nth from the end; anything before that was sent by the client.
+ */
+export function clientAddress(request: Request): string {
+  const hops = (request.headers.get('x-forwarded-for') || '')
+    .split(',')
+    .map((hop) => hop.trim())
+    .filter(Boolean);
+  return hops[hops.length - Math.max(trustedProxies(), 1)] || 'unknown';
+}
+
+export async function recordAuthEvent(
+  username: string,
+  type: AuthEventType,
+  request: Request
+): Promise<void> {
+  const event: AuthEvent = {
+    type,
+    at: Date.now(),
+    ip: clientAddress(request),
+    userAgent: request.headers.get('user-agent') || ''
+  };
+  await updateJSONFile<EventsFile, void>(EVENTS_FILE, {}, (events) => ({
+    value: {
+      ...events,
+      [username]: [event, ...(events[username] || [])].slice(0, AUDIT_LIMIT)
+    },
+    result: undefined
+  }));
+}
+
+/** A user's events, newest first. */
+export async function listAuthEvents(username: string): Promise<AuthEvent[]> {
+  const events = await readJSONFile<EventsFile>(EVENTS_FILE, {});
+  return events[username] || [];
+}
+
+export async function deleteAuthEvents(username: string): Promise<void> {
+  await updateJSONFile<EventsFile, void>(EVENTS_FILE, {}, (events) => {
+    const value = { ...events };
+    delete value[username];
+    return { value, result: undefined };
+  });
+}
@@ -0,0 +1,84 @@
+import type { LogItem, TodoItem } from '@/lib/types';
+import type { WebhookEventType } from '@/lib/webhooks';
+import type { UserItems } from '@/lib/server/items';
+import { isTodoCompleted, matchingLog } from '@/lib/todos';
+
+/* ------------------------------------------------------------------
+   Item events
+   What happened between two versions of a user's items, whichever
+   way the change arrived (REST, quick log, CLI or browser sync).
+--------------------------------------------------------------------- */
+
+export interface ItemEvent {
+  type: WebhookEventType;
+  data: Record<string, unknown>;
+}
+
+function byId<T extends { id: string }>(
+  days: Record<string, T[]>
+): Map<string, { date: string; item: T }> {
+  const found = new Map<string, { date: string; item: T }>();
+  for (const [date, items] of Object.entries(days)) {
+    items.forEach((item) => found.set(item.id, { date, item }));
+  }
+  return found;
+}
+
+function logEvents(before: UserItems, after: UserItems): ItemEvent[] {
+  const events: ItemEvent[] = [];
+  const previous = byId<LogItem>(before.logs);
+  const current = byId<LogItem>(after.logs);
+  current.forEach(({ date, item }, id) => {
+    const old = previous.get(id);
+    if (!old) {
+      events.push({ type: 'log.created', data: { date, log: item } });
+    } else if (old.date !== date || JSON.stringify(old.item) !== JSON.stringify(item)) {
+      events.push({
+        type: 'log.edited',
+        data: { date, log: item, previousDate: old.date, previous: old.item }
+      });
+    }
+  });
+  previous.forEach(({ date, item }, id) => {
+    if (!current.has(id)) events.push({ type: 'log.deleted', data: { date, log: item } });
+  });
+  return events;
+}
+
+/**
+ * A todo ticked by hand changes its manualOverride; one completed by a
+ * log keeps manualOverride null and gains a matching log on its day.
+ * New todos don't count, only ones that existed before.
+ */
+function todoEvents(before: UserItems, after: UserItems): ItemEvent[] {
+  const events: ItemEvent[] = [];
+  const previous = byId<TodoItem>(before.todos);
+  byId<TodoItem>(after.todos).forEach(({ date, item }, id) => {
+    const old = previous.get(id);
+    if (!old) return;
+    const logs = after.logs[date] || [];
+    if (item.manualOverride !== null && item.manualOverride !== old.item.manualOverride) {
+      events.push({
+        type: 'todo.toggled',
+        data: { date, todo: item, completed: item.manualOverride }
+      });
+      return;
+    }
+    if (
+      item.manualOverride === null &&
+      isTodoCompleted(item, logs) &&
+      !isTodoCompleted(old.item, before.logs[old.date] || [])
+    ) {
+      events.push({
+        type: 'todo.completed',
+        data: { date, todo: item, log: matchingLog(item, logs) }
+      });
+    }
+  });
+  return events;
+}
+
+export function diffItemEvents(before: UserItems, after: UserItems): ItemEvent[] {
+  if (before === after) return [];
+  return [...logEvents(before, after), ...todoEvents(before, after)];
+}
@@ -0,0 +1,97 @@
+import { NextResponse } from 'next/server';
+import type { DayKind } from '@/lib/storage';
+import { authenticate, Caller } from '@/lib/server/apiTokens';
+import {
+  listDays,
+  createItem,
+  updateItem,
+  deleteItem,
+  requireDate,
+  ItemError
+} from '@/lib/server/items';
+
+/* ------------------------------------------------------------------
+   Route handlers shared by /api/logs and /api/todos
+   GET  /api/<kind>?date=  one day (or every day without ?date)
+   POST /api/<kind>        { date, content, ... } creates an item
+   PATCH/DELETE /api/<kind>/:id
+   Callers use their session cookie or a personal API token; GET needs
+   a token with "read" scope, everything else "write". These are for
+   external clients only: the app reaches the server through /api/sync,
+   which picks up changes made here as server-side edits.
+--------------------------------------------------------------------- */
+
+interface ItemRouteContext {
+  params: { id: string };
+}
+
+function unauthorized(caller: Exclude<Caller, { username: string }>) {
+  return NextResponse.json({ error: caller.error }, { status: caller.status });
+}
+
+/** Turn ItemErrors into their JSON error response; rethrow anything else. */
+function errorResponse(error: unknown) {
+  if (error instanceof ItemError) {
+    return NextResponse.json({ error: error.message }, { status: error.status });
+  }
+  throw error;
+}
+
+export function createCollectionHandlers(kind: DayKind) {
+  async function GET(request: Request) {
+    const caller = await authenticate(request, 'read');
+    if ('error' in caller) return unauthorized(caller);
+    try {
+      const dateParam = new URL(request.url).searchParams.get('date');
+      const days = await listDays(caller.username, kind);
+      if (dateParam === null) return NextResponse.json({ days });
+      const date = requireDate(dateParam);
+      return NextResponse.json({ date, items: days[date] || [] });
+    } catch (error) {
+      return errorResponse(error);
+    }
+  }
+
+  async function POST(request: Request) {
+    const caller = await authenticate(request, 'write');
+    if ('error' in caller) return unauthorized(caller);
+    try {
+      const body = await request.json().catch(() => null);
+      // ?date= works as well as a "date" field in the body
+      const dateParam = new URL(request.url).searchParams.get('date');
+      const input = dateParam && body && !body.date ? { ...body, date: dateParam } : body;
+      const created = await createItem(caller.username, kind, input);
+      return NextResponse.json(created, { status: 201 });
+    } catch (error) {
+      return errorResponse(error);
+    }
+  }
+
+  return { GET, POST };
+}
+
+export function createItemHandlers(kind: DayKind) {
+  async function PATCH(request: Request, { params }: ItemRouteContext) {
+    const caller = await authenticate(request, 'write');
+    if ('error' in caller) return unauthorized(caller);
+    try {
+      const body = await request.json().catch(() => null);
+      return NextResponse.json(await updateItem(caller.username, kind, params.id, body));
+    } catch (error) {
+      return errorResponse(error);
+    }
+  }
+
+  async function DELETE(request: Request, { params }: ItemRouteContext) {
+    const caller = await authenticate(request, 'write');
+    if ('error' in caller) return unauthorized(caller);
+    try {
+      await deleteItem(caller.username, kind, params.id);
+      return NextResponse.json({ ok: true });
+    } catch (error) {
+      return errorResponse(error);
+    }
+  }
+
+  return { PATCH, DELETE };
+}
@@ -0,0 +1,420 @@
+import type { LogItem, LogsByDate, TodoItem, TodosByDate } from '@/lib/types';
+import type { DayItem, DayKind, DaysOf } from '@/lib/storage';
+import { readJSONFile, updateJSONFile } from '@/lib/server/jsonStore';
+import {
+  isDateKey,
+  isValidTimezone,
+  parseTimeOfDay,
+  sortLogsByTimestamp,
+  timestampInTimezone
+} from '@/lib/time';
+import { generateId } from '@/lib/ids';
+import { diffItemEvents, ItemEvent } from '@/lib/server/itemEvents';
+import { emitItemEvents } from '@/lib/server/webhooks';
+
+/* ------------------------------------------------------------------
+   Server-side logs and todos
+   Each user's data is one JSON file, items/<username>.json, holding
+   the same date-keyed LogsByDate/TodosByDate maps the browser keeps.
+--------------------------------------------------------------------- */
+
+export interface UserItems {
+  logs: LogsByDate;
+  todos: TodosByDate;
+}
+
+/** Why an item can't be stored; carries the HTTP status to answer with. */
+export class ItemError extends Error {
+  constructor(
+    message: string,
+    public status: number
+  ) {
+    super(message);
+    this.name = 'ItemError';
+  }
+}
+
+function itemsFile(username: string): string {
+  return `items/${encodeURIComponent(username)}.json`;
+}
+
+const EMPTY_ITEMS: UserItems = { logs: {}, todos: {} };
+
+export async function readUserItems(username: string): Promise<UserItems> {
+  const stored = await readJSONFile<Partial<UserItems>>(itemsFile(username), EMPTY_ITEMS);
+  return { logs: stored.logs || {}, todos: stored.todos || {} };
+}
+
+/**
+ * Read-modify-write a user's items; `update` may throw ItemError to
+ * abort. Once written, the changes go out to the user's webhooks.
+ */
+export async function updateUserItems<R>(
+  username: string,
+  update: (items: UserItems) => { value: UserItems; result: R }
+): Promise<R> {
+  let events: ItemEvent[] = [];
+  const result = await updateJSONFile<UserItems, R>(itemsFile(username), EMPTY_ITEMS, (stored) => {
+    const before = { logs: stored.logs || {}, todos: stored.todos || {} };
+    const { value, result } = update(before);
+    events = diffItemEvents(before, value);
+    return { value, result };
+  });
+  emitItemEvents(username, events).catch((error) =>
+    console.error('Failed to queue webhooks:', error)
+  );
+  return result;
+}
+
+export async function deleteUserItems(username: string): Promise<void> {
+  await updateJSONFile<UserItems, void>(itemsFile(username), EMPTY_ITEMS, () => ({
+    value: EMPTY_ITEMS,
+    result: undefined
+  }));
+}
+
+/** Where an item currently lives. */
+function findItem<K extends DayKind>(
+  days: DaysOf<K>,
+  id: string
+): { date: string; index: number } | null {
+  for (const [date, items] of Object.entries(days)) {
+    const index = items.findIndex((item) => item.id === id);
+    if (index !== -1) return { date, index };
+  }
+  return null;
+}
+
+function sortDay<K extends DayKind>(kind: K, items: DayItem<K>[]): DayItem<K>[] {
+  return kind === 'logs'
+    ? (sortLogsByTimestamp(items as LogItem[]) as DayItem<K>[])
+    : items;
+}
+
+/* --------------------------------
+   Input validation
+---------------------------------- */
+
+function isPlainObject(value: unknown): value is Record<string, unknown> {
+  return typeof value === 'object' && value !== null && !Array.isArray(value);
+}
+
+export function requireDate(value: unknown, field = 'date'): string {
+  if (typeof value !== 'string' || !isDateKey(value)) {
+    throw new ItemError(`"${field}" must be a YYYY-MM-DD date`, 400);
+  }
+  return value;
+}
+
+/**
+ * The IANA zone a body's times are in, from its "timezone" field; the
+ * server's own zone when it has none.
+ */
+function requireTimezone(value: unknown): string {
+  if (value === undefined || value === null || value === '') {
+    return Intl.DateTimeFormat().resolvedOptions().timeZone;
+  }
+  if (typeof value !== 'string' || !isValidTimezone(value)) {
+    throw new ItemError('"timezone" must be an IANA timezone like "Europe/Berlin"', 400);
+  }
+  return value;
+}
+
+/** "h:mm AM" for a timestamp in `timeZone`, the way the UI shows it by default. */
+function formatTime(timestamp: number, timeZone: string): string {
+  return new Date(timestamp).toLocaleTimeString('en-US', {
+    hour12: true,
+    timeZone,
+    hour: 'numeric',
+    minute: '2-digit'
+  });
+}
+
+/**
+ * Fill in a log's time from whichever of `time` / `rawTimestamp` was
+ * given; with neither, the log is stamped "now".
+ */
+function resolveLogTime(
+  date: string,
+  time: unknown,
+  rawTimestamp: unknown,
+  timeZone: string
+): { time: string; rawTimestamp: number } {
+  if (rawTimestamp !== undefined) {
+    if (typeof rawTimestamp !== 'number' || !Number.isFinite(rawTimestamp)) {
+      throw new ItemError('"rawTimestamp" must be a number', 400);
+    }
+    return {
+      time: typeof time === 'string' && time ? time : formatTime(rawTimestamp, timeZone),
+      rawTimestamp
+    };
+  }
+  if (time !== undefined) {
+    const parsed = typeof time === 'string' ? parseTimeOfDay(time) : null;
+    const timestamp = parsed && timestampInTimezone(date, parsed[0], parsed[1], timeZone);
+    if (!timestamp) {
+      throw new ItemError('"time" must look like "9:30 AM" or "21:30"', 400);
+    }
+    return { time: time as string, rawTimestamp: timestamp };
+  }
+  const now = Date.now();
+  return { time: formatTime(now, timeZone), rawTimestamp: now };
+}
+
+/**
+ * The end fields for a log starting at `start`: from `endTimestamp` in
+ * the body (null clears it), otherwise `previous`'s end moved along with
+ * its start so the duration stays the same.
+ */
+function resolveLogEndFields(
+  start: number,
+  endTime: unknown,
+  endTimestamp: unknown,
+  timeZone: string,
+  previous?: LogItem
+): Pick<LogItem, 'endTime' | 'endTimestamp'> {
+  if (endTimestamp === null) return {};
+  if (endTimestamp !== undefined) {
+    if (typeof endTimestamp !== 'number' || !Number.isFinite(endTimestamp)) {
+      throw new ItemError('"endTimestamp" must be a number or null', 400);
+    }
+    if (endTimestamp <= start) {
+      throw new ItemError('"endTimestamp" must be after the start', 400);
+    }
+    return {
+      endTime:
+        typeof endTime === 'string' && endTime ? endTime : formatTime(endTimestamp, timeZone),
+      endTimestamp
+    };
+  }
+  if (previous?.endTimestamp === undefined || previous.rawTimestamp === undefined) return {};
+  if (previous.rawTimestamp === start) {
+    return { endTime: previous.endTime, endTimestamp: previous.endTimestamp };
+  }
+  const moved = start + (previous.endTimestamp - previous.rawTimestamp);
+  return { endTime: formatTime(moved, timeZone), endTimestamp: moved };
+}
+
+function requireContent(value: unknown): string {
+  if (typeof value !== 'string' || !value.trim()) {
+    throw new ItemError('"content" must be a non-empty string', 400);
+  }
+  return value;
+}
+
+function optionalId(value: unknown): string | undefined {
+  if (value === undefined) return undefined;
+  if (typeof value !== 'string' || !value) {
+    throw new ItemError('"id" must be a string', 400);
+  }
+  return value;
+}
+
+/** A project id to set, null to clear it, undefined to leave it alone. */
+function optionalProjectId(value: unknown): string | null | undefined {
+  if (value === undefined || value === null) return value;
+  if (typeof value !== 'string' || !value) {
+    throw new ItemError('"projectId" must be a string or null', 400);
+  }
+  return value;
+}
+
+/** `item` with the project from the body applied. */
+function applyProject<T extends LogItem | TodoItem>(item: T, value: unknown): T {
+  const projectId = optionalProjectId(value);
+  if (projectId === undefined) return item;
+  const next = { ...item };
+  if (projectId === null) {
+    delete next.projectId;
+  } else {
+    next.projectId = projectId;
+  }
+  return next;
+}
+
+function requireManualOverride(value: unknown): boolean | null {
+  if (value !== null && typeof value !== 'boolean') {
+    throw new ItemError('"manualOverride" must be true, false or null', 400);
+  }
+  return value;
+}
+
+/** Build a new item of the given kind from a request body. */
+function buildItem<K extends DayKind>(
+  kind: K,
+  date: string,
+  body: Record<string, unknown>
+): DayItem<K> {
+  const id = optionalId(body.id) ?? generateId();
+  const content = requireContent(body.content);
+  if (kind === 'logs') {
+    const timeZone = requireTimezone(body.timezone);
+    const timing = resolveLogTime(date, body.time, body.rawTimestamp, timeZone);
+    const log: LogItem = {
+      id,
+      content,
+      ...timing,
+      ...resolveLogEndFields(timing.rawTimestamp, body.endTime, body.endTimestamp, timeZone)
+    };
+    return applyProject(log, body.projectId) as DayItem<K>;
+  }
+  const todo: TodoItem = {
+    id,
+    content,
+    manualOverride:
+      body.manualOverride === undefined
+        ? null
+        : requireManualOverride(body.manualOverride)
+  };
+  return applyProject(todo, body.projectId) as DayItem<K>;
+}
+
+/**
+ * Apply the editable fields present in `body` to an existing item. A log
+ * moved to another date keeps its time of day on the new date.
+ */
+function patchItem<K extends DayKind>(
+  kind: K,
+  item: DayItem<K>,
+  fromDate: string,
+  date: string,
+  body: Record<string, unknown>
+): DayItem<K> {
+  const content = body.content === undefined ? item.content : requireContent(body.content);
+  if (kind === 'logs') {
+    const log = item as LogItem;
+    const timeZone = requireTimezone(body.timezone);
+    const timeChanged = body.time !== undefined || body.rawTimestamp !== undefined;
+    const timing = timeChanged
+      ? resolveLogTime(date, body.time, body.rawTimestamp, timeZone)
+      : date !== fromDate
+        ? resolveLogTime(date, log.time, undefined, timeZone)
+        : { time: log.time, rawTimestamp: log.rawTimestamp };
+    const patched: LogItem = { ...log, content, ...timing };
+    delete patched.endTime;
+    delete patched.endTimestamp;
+    const end =
+      timing.rawTimestamp === undefined
+        ? {}
+        : resolveLogEndFields(
+            timing.rawTimestamp,
+            body.endTime,
+            body.endTimestamp,
+            timeZone,
+            log
+          );
+    return applyProject({ ...patched, ...end }, body.projectId) as DayItem<K>;
+  }
+  const todo = item as TodoItem;
+  const manualOverride =
+    body.manualOverride === undefined
+      ? todo.manualOverride
+      : requireManualOverride(body.manualOverride);
+  return applyProject({ ...todo, content, manualOverride }, body.projectId) as DayItem<K>;
+}
+
+/* --------------------------------
+   Operations
+---------------------------------- */
+
+export async function listDays<K extends DayKind>(
+  username: string,
+  kind: K
+): Promise<DaysOf<K>> {
+  const items = await readUserItems(username);
+  return items[kind] as DaysOf<K>;
+}
+
+/** One day's logs and todos, as `GET /api/days` returns them. */
+export interface DayEntries {
+  date: string;
+  logs: LogItem[];
+  todos: TodoItem[];
+}
+
+/** Every day from `from` to `to` (inclusive) that has logs or todos, oldest first. */
+export async function listDayRange(
+  username: string,
+  from: string,
+  to: string
+): Promise<DayEntries[]> {
+  if (from > to) throw new ItemError('"from" must not be after "to"', 400);
+  const items = await readUserItems(username);
+  const dates = new Set(
+    [...Object.keys(items.logs), ...Object.keys(items.todos)].filter(
+      (date) => date >= from && date <= to
+    )
+  );
+  return Array.from(dates)
+    .sort()
+    .map((date) => ({ date, logs: items.logs[date] || [], todos: items.todos[date] || [] }))
+    .filter((day) => day.logs.length || day.todos.length);
+}
+
+export async function createItem<K extends DayKind>(
+  username: string,
+  kind: K,
+  body: unknown
+): Promise<{ date: string; item: DayItem<K> }> {
+  if (!isPlainObject(body)) throw new ItemError('Expected a JSON object', 400);
+  const date = requireDate(body.date);
+  const item = buildItem(kind, date, body);
+
+  return updateUserItems(username, (items) => {
+    const days = items[kind] as DaysOf<K>;
+    if (findItem(days, item.id)) {
+      throw new ItemError(`An item with id "${item.id}" already exists`, 409);
+    }
+    const nextDays = { ...days, [date]: sortDay(kind, [...(days[date] || []), item]) };
+    return { value: { ...items, [kind]: nextDays }, result: { date, item } };
+  });
+}
+
+/** Edit an item; a new `date` moves it to that day. */
+export async function updateItem<K extends DayKind>(
+  username: string,
+  kind: K,
+  id: string,
+  body: unknown
+): Promise<{ date: string; item: DayItem<K> }> {
+  if (!isPlainObject(body)) throw new ItemError('Expected a JSON object', 400);
+  const newDate = body.date === undefined ? null : requireDate(body.date);
+
+  return updateUserItems(username, (items) => {
+    const days = items[kind] as DaysOf<K>;
+    const found = findItem(days, id);
+    if (!found) throw new ItemError('Not found', 404);
+    const date = newDate ?? found.date;
+    const item = patchItem(kind, days[found.date][found.index], found.date, date, body);
+
+    const nextDays = { ...days };
+    const remaining = days[found.date].filter((existing) => existing.id !== id);
+    if (remaining.length) {
+      nextDays[found.date] = remaining;
+    } else {
+      delete nextDays[found.date];
+    }
+    nextDays[date] = sortDay(kind, [...(nextDays[date] || []), item]);
+    return { value: { ...items, [kind]: nextDays }, result: { date, item } };
+  });
+}
+
+export async function deleteItem<K extends DayKind>(
+  username: string,
+  kind: K,
+  id: string
+): Promise<void> {
+  await updateUserItems(username, (items) => {
+    const days = items[kind] as DaysOf<K>;
+    const found = findItem(days, id);
+    if (!found) throw new ItemError('Not found', 404);
+    const nextDays = { ...days };
+    const remaining = days[found.date].filter((item) => item.id !== id);
+    if (remaining.length) {
+      nextDays[found.date] = remaining;
+    } else {
+      delete nextDays[found.date];
+    }
+    return { value: { ...items, [kind]: nextDays }, result: undefined };
+  });
+}
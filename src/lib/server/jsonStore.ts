@@ -0,0 +1,59 @@
+import { promises as fs } from 'fs';
+import path from 'path';
+
+/* ------------------------------------------------------------------
+   Tiny JSON file store for server-side data (users, sessions, ...).
+   Files live in TIMECHAPTER_DATA_DIR (default: ./data). Writes go to
+   a temp file first and are renamed into place, and read-modify-write
+   cycles on the same file are queued so they never interleave.
+--------------------------------------------------------------------- */
+
+export function dataDir(): string {
+  return process.env.TIMECHAPTER_DATA_DIR || path.join(process.cwd(), 'data');
+}
+
+function filePath(name: string): string {
+  return path.join(dataDir(), name);
+}
+
+export async function readJSONFile<T>(name: string, fallback: T): Promise<T> {
+  try {
+    const raw = await fs.readFile(filePath(name), 'utf8');
+    return JSON.parse(raw) as T;
+  } catch (error) {
+    if ((error as NodeJS.ErrnoException).code === 'ENOENT') return fallback;
+    throw error;
+  }
+}
+
+export async function writeJSONFile(name: string, value: unknown): Promise<void> {
+  const target = filePath(name);
+  await fs.mkdir(path.dirname(target), { recursive: true });
+  const tmp = `${target}.${process.pid}.${Date.now()}.tmp`;
+  await fs.writeFile(tmp, JSON.stringify(value, null, 2), { mode: 0o600 });
+  await fs.rename(tmp, target);
+}
+
+const queues = new Map<string, Promise<unknown>>();
+
+/**
+ * Read a file, transform it and write the result back, serialised per
+ * file within this process. Returns whatever `update` returned.
+ */
+export function updateJSONFile<T, R = T>(
+  name: string,
+  fallback: T,
+  update: (current: T) => Promise<{ value: T; result: R }> | { value: T; result: R }
+): Promise<R> {
+  const previous = queues.get(name) ?? Promise.resolve();
+  const next = previous
+    .catch(() => undefined)
+    .then(async () => {
+      const current = await readJSONFile<T>(name, fallback);
+      const { value, result } = await update(current);
+      await writeJSONFile(name, value);
+      return result;
+    });
+  queues.set(name, next);
+  return next;
+}
@@ -0,0 +1,115 @@
+import type { LogItem } from '@/lib/types';
+import { createItem, ItemError } from '@/lib/server/items';
+import { resolveLogEnd } from '@/lib/durations';
+import {
+  dateKeyInTimezone,
+  isDateKey,
+  isValidTimezone,
+  parseLogLine,
+  parseTimeOfDay,
+  timestampInTimezone
+} from '@/lib/time';
+
+/* ------------------------------------------------------------------
+   Quick log entry for scripts
+   Takes what the log box or the log import takes: just the content
+   (stamped "now", like addLog), or a "[YYYY-MM-DD ]HH:MM[-HH:MM] -
+   content" line, or the same pieces as separate fields. The server doesn't know
+   the user's timezone or clock format, so callers may pass them.
+--------------------------------------------------------------------- */
+
+export interface QuickLogInput {
+  content?: unknown;
+  time?: unknown;
+  /** End time ("10:30") or duration ("1h 30m"). */
+  endTime?: unknown;
+  date?: unknown;
+  /** IANA zone the time and date are in; defaults to the server's. */
+  timezone?: unknown;
+  /** '12' or '24', for the displayed time; defaults to '12'. */
+  timeFormat?: unknown;
+}
+
+function optionalString(value: unknown, field: string): string | undefined {
+  if (value === undefined || value === null || value === '') return undefined;
+  if (typeof value !== 'string') throw new ItemError(`"${field}" must be a string`, 400);
+  return value.trim();
+}
+
+function formatTime(timestamp: number, timeZone: string, hour12: boolean): string {
+  return new Date(timestamp).toLocaleTimeString('en-US', {
+    // hour12: false alone can print midnight as "24:05"
+    ...(hour12 ? { hour12 } : { hourCycle: 'h23' }),
+    timeZone,
+    hour: 'numeric',
+    minute: '2-digit'
+  });
+}
+
+/**
+ * Add a log from a script. With `parseLine`, `content` is read as an
+ * import line, so a leading date and time are picked out of it; explicit
+ * `date` and `time` fields still win.
+ */
+export async function createQuickLog(
+  username: string,
+  input: QuickLogInput,
+  parseLine: boolean
+): Promise<{ date: string; item: LogItem }> {
+  const raw = optionalString(input.content, 'content') ?? '';
+  const line = parseLine ? parseLogLine(raw) : { content: raw };
+  const timeZone =
+    optionalString(input.timezone, 'timezone') ??
+    Intl.DateTimeFormat().resolvedOptions().timeZone;
+  if (!isValidTimezone(timeZone)) {
+    throw new ItemError(`Unknown timezone "${timeZone}"`, 400);
+  }
+  const timeFormat = optionalString(input.timeFormat, 'timeFormat') ?? '12';
+  if (timeFormat !== '12' && timeFormat !== '24') {
+    throw new ItemError('"timeFormat" must be "12" or "24"', 400);
+  }
+
+  const now = Date.now();
+  const date = optionalString(input.date, 'date') ?? line.date ?? dateKeyInTimezone(now, timeZone);
+  if (!isDateKey(date)) throw new ItemError('"date" must be a YYYY-MM-DD date', 400);
+  const time = optionalString(input.time, 'time') ?? line.time;
+
+  let rawTimestamp: number;
+  if (time) {
+    const parsed = parseTimeOfDay(time);
+    const timestamp = parsed && timestampInTimezone(date, parsed[0], parsed[1], timeZone);
+    if (!timestamp) throw new ItemError('"time" must look like "9:30 AM" or "21:30"', 400);
+    rawTimestamp = timestamp;
+  } else if (date === dateKeyInTimezone(now, timeZone)) {
+    rawTimestamp = now;
+  } else {
+    // another day without a time: keep the current time of day
+    const [hour, minute] = formatTime(now, timeZone, false).split(':').map(Number);
+    rawTimestamp = timestampInTimezone(date, hour, minute, timeZone) ?? now;
+  }
+
+  const endText = optionalString(input.endTime, 'endTime') ?? line.endTime;
+  let endTimestamp: number | undefined;
+  if (endText) {
+    const end = resolveLogEnd(endText, rawTimestamp, (hour, minute) =>
+      timestampInTimezone(date, hour, minute, timeZone)
+    );
+    if (end === null) {
+      throw new ItemError('"endTime" must be a time like "10:30" or a duration like "1h 30m"', 400);
+    }
+    endTimestamp = end;
+  }
+
+  const hour12 = timeFormat === '12';
+  const created = await createItem(username, 'logs', {
+    date,
+    content: line.content,
+    time: formatTime(rawTimestamp, timeZone, hour12),
+    rawTimestamp,
+    timezone: timeZone,
+    ...(endTimestamp === undefined
+      ? {}
+      : { endTime: formatTime(endTimestamp, timeZone, hour12), endTimestamp })
+  });
+  return { date: created.date, item: created.item };
+}
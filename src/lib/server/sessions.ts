@@ -0,0 +1,182 @@
+import { createHash, createHmac, randomBytes, timingSafeEqual } from 'crypto';
+import { cookies } from 'next/headers';
+import type { NextResponse } from 'next/server';
+import { readJSONFile, updateJSONFile } from '@/lib/server/jsonStore';
+
+/* ------------------------------------------------------------------
+   Server sessions
+   The browser only ever holds a token in an HTTP-only cookie. Tokens
+   are "<random>.<expiry>.<signature>": the HMAC lets us reject forged
+   or stretched tokens before touching the store, and sessions.json
+   keeps only a SHA-256 of each token, so the file can't be replayed.
+--------------------------------------------------------------------- */
+
+export const SESSION_COOKIE = 'tc_session';
+
+/** Default lifetime of a "Remember Me" session, in days. */
+const DEFAULT_REMEMBER_ME_DAYS = 30;
+
+/** Server-side lifetime of a browser-session cookie (seconds). */
+const SESSION_MAX_AGE = 12 * 60 * 60;
+
+export interface StoredSession {
+  username: string;
+  createdAt: number;
+  expiresAt: number;
+  /** Issued with "Remember Me", so the cookie outlives the browser. */
+  persistent: boolean;
+}
+
+type SessionsFile = Record<string, StoredSession>;
+
+const SESSIONS_FILE = 'sessions.json';
+const SECRET_FILE = 'session-secret.json';
+
+/**
+ * Lifetime of a "Remember Me" session (seconds), configurable with
+ * TIMECHAPTER_REMEMBER_ME_DAYS.
+ */
+export function rememberMeMaxAge(): number {
+  const days = Number(process.env.TIMECHAPTER_REMEMBER_ME_DAYS);
+  return (days > 0 ? days : DEFAULT_REMEMBER_ME_DAYS) * 24 * 60 * 60;
+}
+
+let secretPromise: Promise<string> | null = null;
+
+/**
+ * Key for signing tokens: TIMECHAPTER_SESSION_SECRET if set, otherwise
+ * one generated on first use and kept in the data directory.
+ */
+function signingSecret(): Promise<string> {
+  const fromEnv = process.env.TIMECHAPTER_SESSION_SECRET;
+  if (fromEnv) return Promise.resolve(fromEnv);
+  secretPromise ??= updateJSONFile<{ secret?: string }, string>(
+    SECRET_FILE,
+    {},
+    (current) => {
+      const secret = current.secret || randomBytes(32).toString('base64url');
+      return { value: { secret }, result: secret };
+    }
+  );
+  return secretPromise;
+}
+
+function sign(payload: string, secret: string): string {
+  return createHmac('sha256', secret).update(payload).digest('base64url');
+}
+
+/** The token's expiry if its signature checks out, otherwise null. */
+async function verifyToken(token: string): Promise<number | null> {
+  const [random, expiry, signature] = token.split('.');
+  if (!random || !expiry || !signature) return null;
+  const expected = Buffer.from(sign(`${random}.${expiry}`, await signingSecret()));
+  const actual = Buffer.from(signature);
+  if (expected.length !== actual.length || !timingSafeEqual(expected, actual)) {
+    return null;
+  }
+  const expiresAt = parseInt(expiry, 36);
+  return Number.isFinite(expiresAt) ? expiresAt : null;
+}
+
+function hashToken(token: string): string {
+  return createHash('sha256').update(token).digest('hex');
+}
+
+function withoutExpired(sessions: SessionsFile, now: number): SessionsFile {
+  const kept: SessionsFile = {};
+  for (const [id, session] of Object.entries(sessions)) {
+    if (session.expiresAt > now) kept[id] = session;
+  }
+  return kept;
+}
+
+export async function createSession(
+  username: string,
+  persistent: boolean
+): Promise<{ token: string; session: StoredSession }> {
+  const now = Date.now();
+  const maxAge = persistent ? rememberMeMaxAge() : SESSION_MAX_AGE;
+  const session: StoredSession = {
+    username,
+    createdAt: now,
+    expiresAt: now + maxAge * 1000,
+    persistent
+  };
+  const payload = `${randomBytes(32).toString('base64url')}.${session.expiresAt.toString(36)}`;
+  const token = `${payload}.${sign(payload, await signingSecret())}`;
+  await updateJSONFile<SessionsFile, void>(SESSIONS_FILE, {}, (sessions) => ({
+    value: { ...withoutExpired(sessions, now), [hashToken(token)]: session },
+    result: undefined
+  }));
+  return { token, session };
+}
+
+export async function getSession(token: string): Promise<StoredSession | null> {
+  const expiresAt = await verifyToken(token);
+  if (expiresAt === null || expiresAt <= Date.now()) return null;
+  const sessions = await readJSONFile<SessionsFile>(SESSIONS_FILE, {});
+  const session = sessions[hashToken(token)];
+  return session && session.expiresAt > Date.now() ? session : null;
+}
+
+export async function deleteSession(token: string): Promise<void> {
+  await updateJSONFile<SessionsFile, void>(SESSIONS_FILE, {}, (sessions) => {
+    const value = withoutExpired(sessions, Date.now());
+    delete value[hashToken(token)];
+    return { value, result: undefined };
+  });
+}
+
+/** End every session of a user, optionally keeping the one with `keepToken`. */
+export async function deleteUserSessions(
+  username: string,
+  keepToken?: string
+): Promise<void> {
+  const keepId = keepToken ? hashToken(keepToken) : null;
+  await updateJSONFile<SessionsFile, void>(SESSIONS_FILE, {}, (sessions) => {
+    const value = withoutExpired(sessions, Date.now());
+    for (const [id, session] of Object.entries(value)) {
+      if (session.username === username && id !== keepId) delete value[id];
+    }
+    return { value, result: undefined };
+  });
+}
+
+/** The session for the current request's cookie, if any. */
+export async function currentSession(): Promise<StoredSession | null> {
+  const token = cookies().get(SESSION_COOKIE)?.value;
+  return token ? getSession(token) : null;
+}
+
+/**
+ * Whether the session cookie is marked Secure: TIMECHAPTER_SECURE_COOKIES
+ * ("true" or "false") when set, otherwise whether the request came over
+ * https. Browsers drop Secure cookies set over plain http.
+ */
+function secureCookies(request: Request): boolean {
+  const setting = process.env.TIMECHAPTER_SECURE_COOKIES;
+  if (setting === 'true' || setting === 'false') return setting === 'true';
+  // the proxy facing the browser is the first to set it
+  const forwarded = request.headers.get('x-forwarded-proto')?.split(',')[0].trim();
+  return (forwarded || new URL(request.url).protocol.replace(':', '')) === 'https';
+}
+
+/** Attach the session cookie; persistent sessions survive browser restarts. */
+export function setSessionCookie(
+  request: Request,
+  response: NextResponse,
+  token: string,
+  session: StoredSession
+) {
+  response.cookies.set(SESSION_COOKIE, token, {
+    httpOnly: true,
+    sameSite: 'lax',
+    secure: secureCookies(request),
+    path: '/',
+    ...(session.persistent ? { expires: new Date(session.expiresAt) } : {})
+  });
+}
+
+export function clearSessionCookie(response: NextResponse) {
+  response.cookies.set(SESSION_COOKIE, '', { httpOnly: true, path: '/', maxAge: 0 });
+}
@@ -0,0 +1,146 @@
+import {
+  captureChanges,
+  mergeRecord,
+  applyRecords,
+  maxClock,
+  recordKey,
+  ItemRecord,
+  RecordMap,
+  SyncConflict,
+  SyncRequest,
+  SyncResponse
+} from '@/lib/replication';
+import { updateJSONFile } from '@/lib/server/jsonStore';
+import { updateUserItems } from '@/lib/server/items';
+
+/* ------------------------------------------------------------------
+   Server side of sync
+   sync/<username>.json holds the replication records for the user's
+   items, each tagged with the sequence number of its last change, so a
+   client can ask for "everything since N". items/<username>.json stays
+   the materialised view the REST API reads and writes; edits made
+   through the REST API are picked up as server-side changes at the
+   start of each sync.
+--------------------------------------------------------------------- */
+
+/** Replica id the server stamps its own (REST) changes with. */
+const SERVER_NODE = 'server';
+
+/** Conflicts kept per user. */
+const CONFLICT_LIMIT = 100;
+
+/** Conflicts returned with each sync response. */
+const CONFLICTS_RETURNED = 20;
+
+interface ServerRecord extends ItemRecord {
+  /** Sequence number of the record's last change. */
+  seq: number;
+  /** Sequence number of each field's last change. */
+  fieldSeq: Record<string, number>;
+}
+
+interface SyncFile {
+  seq: number;
+  clock: number;
+  records: Record<string, ServerRecord>;
+  conflicts: SyncConflict[];
+}
+
+const EMPTY_SYNC: SyncFile = { seq: 0, clock: 0, records: {}, conflicts: [] };
+
+function syncFile(username: string): string {
+  return `sync/${encodeURIComponent(username)}.json`;
+}
+
+function toItemRecord(record: ServerRecord): ItemRecord {
+  return { kind: record.kind, id: record.id, values: record.values, stamps: record.stamps };
+}
+
+/**
+ * Merge a client's changes, resolve conflicts field by field and hand
+ * back everything the client hasn't seen yet.
+ */
+export function syncUser(username: string, request: SyncRequest): Promise<SyncResponse> {
+  return updateJSONFile<SyncFile, SyncResponse>(syncFile(username), EMPTY_SYNC, (stored) =>
+    updateUserItems(username, (items) => {
+      let seq = stored.seq;
+      const records: Record<string, ServerRecord> = { ...stored.records };
+      const conflicts: SyncConflict[] = [];
+      const touched: ItemRecord[] = [];
+      const now = Date.now();
+
+      // 1. edits made through the REST API since the last sync
+      const plain: RecordMap = {};
+      for (const [key, record] of Object.entries(records)) plain[key] = toItemRecord(record);
+      const local = captureChanges(plain, items, SERVER_NODE, stored.clock);
+      for (const record of local.changed) {
+        const key = recordKey(record.kind, record.id);
+        const previous = records[key];
+        seq++;
+        const fieldSeq = { ...previous?.fieldSeq };
+        for (const [field, stamp] of Object.entries(record.stamps)) {
+          if (previous?.stamps[field] !== stamp) fieldSeq[field] = seq;
+        }
+        records[key] = { ...record, seq, fieldSeq };
+      }
+
+      // 2. the client's changes, last writer wins per field
+      for (const incoming of request.changes) {
+        const key = recordKey(incoming.kind, incoming.id);
+        const current = records[key];
+        const merged = mergeRecord(current && toItemRecord(current), incoming);
+        for (const contest of merged.contested) {
+          // only a conflict if the client never saw the value it's up against
+          if ((current?.fieldSeq[contest.field] ?? 0) <= request.cursor) continue;
+          conflicts.push({
+            kind: incoming.kind,
+            id: incoming.id,
+            field: contest.field,
+            day: String(merged.record.values.day),
+            keptValue: merged.record.values[contest.field],
+            discardedValue: contest.discardedValue,
+            at: now
+          });
+        }
+        if (!merged.changedFields.length) continue;
+        seq++;
+        const fieldSeq = { ...current?.fieldSeq };
+        merged.changedFields.forEach((field) => {
+          fieldSeq[field] = seq;
+        });
+        records[key] = { ...merged.record, seq, fieldSeq };
+        touched.push(merged.record);
+      }
+
+      const clock = maxClock(request.changes, Math.max(local.clock, request.clock));
+      const changes = Object.values(records)
+        .filter((record) => record.seq > request.cursor)
+        .map(toItemRecord);
+      const allConflicts = [...conflicts.reverse(), ...stored.conflicts].slice(
+        0,
+        CONFLICT_LIMIT
+      );
+
+      const response: SyncResponse = {
+        cursor: seq,
+        clock,
+        changes,
+        conflicts: allConflicts.slice(0, CONFLICTS_RETURNED)
+      };
+      return {
+        value: applyRecords(items, touched),
+        result: {
+          value: { seq, clock, records, conflicts: allConflicts },
+          result: response
+        }
+      };
+    })
+  );
+}
+
+export async function deleteUserSync(username: string): Promise<void> {
+  await updateJSONFile<SyncFile, void>(syncFile(username), EMPTY_SYNC, () => ({
+    value: EMPTY_SYNC,
+    result: undefined
+  }));
+}
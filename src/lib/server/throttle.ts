@@ -0,0 +1,84 @@
+import { readJSONFile, updateJSONFile } from '@/lib/server/jsonStore';
+
+/* ------------------------------------------------------------------
+   Login throttling
+   Failed attempts are counted per username and per client address.
+   Reaching MAX_FREE_FAILURES locks the key out, and each further
+   failure doubles the lockout, up to MAX_LOCKOUT_MS. A success clears
+   the counters; failures older than FAILURE_WINDOW_MS are forgotten.
+--------------------------------------------------------------------- */
+
+const MAX_FREE_FAILURES = 5;
+const BASE_LOCKOUT_MS = 30 * 1000;
+const MAX_LOCKOUT_MS = 60 * 60 * 1000;
+const FAILURE_WINDOW_MS = 24 * 60 * 60 * 1000;
+
+interface AttemptRecord {
+  failures: number;
+  lastFailureAt: number;
+  lockedUntil: number;
+}
+
+type AttemptsFile = Record<string, AttemptRecord>;
+
+const ATTEMPTS_FILE = 'login-attempts.json';
+
+/** Throttle keys for a login attempt. */
+export function attemptKeys(username: string, ip: string): string[] {
+  return [`user:${username.toLowerCase()}`, `client:${ip}`];
+}
+
+function lockoutFor(failures: number): number {
+  const extra = failures - MAX_FREE_FAILURES;
+  if (extra < 0) return 0;
+  return Math.min(BASE_LOCKOUT_MS * 2 ** extra, MAX_LOCKOUT_MS);
+}
+
+function withoutStale(attempts: AttemptsFile, now: number): AttemptsFile {
+  const kept: AttemptsFile = {};
+  for (const [key, record] of Object.entries(attempts)) {
+    if (record.lockedUntil > now || now - record.lastFailureAt < FAILURE_WINDOW_MS) {
+      kept[key] = record;
+    }
+  }
+  return kept;
+}
+
+/** When the latest lockout among the keys ends, or null if none is active. */
+export async function lockedUntil(keys: string[]): Promise<number | null> {
+  const attempts = await readJSONFile<AttemptsFile>(ATTEMPTS_FILE, {});
+  const now = Date.now();
+  const until = Math.max(0, ...keys.map((key) => attempts[key]?.lockedUntil ?? 0));
+  return until > now ? until : null;
+}
+
+/**
+ * Count a failed attempt against every key. Returns when the resulting
+ * lockout ends, or null if this failure didn't lock anything.
+ */
+export async function recordFailure(keys: string[]): Promise<number | null> {
+  return updateJSONFile<AttemptsFile, number | null>(ATTEMPTS_FILE, {}, (attempts) => {
+    const now = Date.now();
+    const value = withoutStale(attempts, now);
+    let until: number | null = null;
+    for (const key of keys) {
+      const failures = (value[key]?.failures ?? 0) + 1;
+      const lockout = lockoutFor(failures);
+      value[key] = {
+        failures,
+        lastFailureAt: now,
+        lockedUntil: lockout ? now + lockout : 0
+      };
+      if (lockout) until = Math.max(until ?? 0, now + lockout);
+    }
+    return { value, result: until };
+  });
+}
+
+export async function clearFailures(keys: string[]): Promise<void> {
+  await updateJSONFile<AttemptsFile, void>(ATTEMPTS_FILE, {}, (attempts) => {
+    const value = withoutStale(attempts, Date.now());
+    keys.forEach((key) => delete value[key]);
+    return { value, result: undefined };
+  });
+}
@@ -0,0 +1,107 @@
+import { hashPassword, verifyPassword } from '@/lib/server/passwords';
+import { readJSONFile, updateJSONFile } from '@/lib/server/jsonStore';
+
+/* ------------------------------------------------------------------
+   User accounts, kept in users.json keyed by username.
+--------------------------------------------------------------------- */
+
+export interface StoredUser {
+  username: string;
+  passwordHash: string;
+  createdAt: string;
+}
+
+type UsersFile = Record<string, StoredUser>;
+
+const USERS_FILE = 'users.json';
+
+/** Hash compared against when the username doesn't exist, to keep timing flat. */
+let dummyHash: Promise<string> | null = null;
+
+/**
+ * On first run there is no users.json yet. Accounts can be seeded from
+ * TIMECHAPTER_INITIAL_USERS="alice:password,bob:password".
+ */
+async function seedUsers(): Promise<UsersFile> {
+  const seed = process.env.TIMECHAPTER_INITIAL_USERS;
+  const users: UsersFile = {};
+  if (!seed) return users;
+  for (const pair of seed.split(',')) {
+    const i = pair.indexOf(':');
+    if (i <= 0) continue;
+    const username = pair.slice(0, i).trim();
+    const password = pair.slice(i + 1);
+    users[username] = {
+      username,
+      passwordHash: await hashPassword(password),
+      createdAt: new Date().toISOString()
+    };
+  }
+  return users;
+}
+
+async function loadUsers(): Promise<UsersFile> {
+  const users = await readJSONFile<UsersFile | null>(USERS_FILE, null);
+  if (users) return users;
+  return updateJSONFile<UsersFile | null, UsersFile>(USERS_FILE, null, async (current) => {
+    const value = current ?? (await seedUsers());
+    return { value, result: value };
+  });
+}
+
+export async function findUser(username: string): Promise<StoredUser | null> {
+  const users = await loadUsers();
+  return Object.prototype.hasOwnProperty.call(users, username) ? users[username] : null;
+}
+
+/** The user if the password matches, otherwise null. */
+export async function verifyCredentials(
+  username: string,
+  password: string
+): Promise<StoredUser | null> {
+  const user = await findUser(username);
+  if (!user) {
+    dummyHash ??= hashPassword('not-a-real-password');
+    await verifyPassword(password, await dummyHash);
+    return null;
+  }
+  return (await verifyPassword(password, user.passwordHash)) ? user : null;
+}
+
+/** Create an account; null if the username is already taken. */
+export async function createUser(
+  username: string,
+  password: string
+): Promise<StoredUser | null> {
+  await loadUsers();
+  const passwordHash = await hashPassword(password);
+  return updateJSONFile<UsersFile, StoredUser | null>(USERS_FILE, {}, (users) => {
+    const taken = Object.keys(users).some(
+      (name) => name.toLowerCase() === username.toLowerCase()
+    );
+    if (taken) return { value: users, result: null };
+    const user: StoredUser = { username, passwordHash, createdAt: new Date().toISOString() };
+    return { value: { ...users, [username]: user }, result: user };
+  });
+}
+
+export async function setPassword(username: string, password: string): Promise<void> {
+  const passwordHash = await hashPassword(password);
+  await updateJSONFile<UsersFile, void>(USERS_FILE, {}, (users) => {
+    if (!Object.prototype.hasOwnProperty.call(users, username)) {
+      return { value: users, result: undefined };
+    }
+    return {
+      value: { ...users, [username]: { ...users[username], passwordHash } },
+      result: undefined
+    };
+  });
+}
+
+export async function deleteUser(username: string): Promise<void> {
+  await updateJSONFile<UsersFile, void>(USERS_FILE, {}, (users) => {
+    const value = { ...users };
+    delete value[username];
+    return { value, result: undefined };
+  });
+}
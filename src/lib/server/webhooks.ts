@@ -0,0 +1,333 @@
+import { createHmac, randomBytes } from 'crypto';
+import type {
+  WebhookDelivery,
+  WebhookDeliveryEvent,
+  WebhookEventType,
+  WebhookInfo
+} from '@/lib/webhooks';
+import { readJSONFile, updateJSONFile } from '@/lib/server/jsonStore';
+import type { ItemEvent } from '@/lib/server/itemEvents';
+import { generateId } from '@/lib/ids';
+
+/* ------------------------------------------------------------------
+   Outgoing webhooks
+   Subscriptions live in webhooks.json, deliveries in
+   webhook-deliveries.json (both keyed by username). Each delivery is a
+   JSON POST signed with the subscription's secret:
+
+     X-TimeChapter-Timestamp: <epoch millis>
+     X-TimeChapter-Signature: sha256=<hex HMAC of "<timestamp>.<body>">
+
+   Failed attempts (network errors and non-2xx answers) are retried
+   with exponential backoff, from a timer in this server process.
+--------------------------------------------------------------------- */
+
+const MAX_WEBHOOKS_PER_USER = 20;
+
+/** Deliveries kept per user for the history view. */
+const DELIVERY_LIMIT = 100;
+
+const MAX_ATTEMPTS = 6;
+
+/** Wait before the first retry; doubles with each attempt (~5 min in total). */
+const RETRY_BASE_DELAY = 10 * 1000;
+
+const DELIVERY_TIMEOUT = 10 * 1000;
+
+interface StoredWebhook extends WebhookInfo {
+  secret: string;
+}
+
+interface StoredDelivery extends WebhookDelivery {
+  /** The exact JSON body, so retries send (and sign) the same bytes. */
+  payload: string;
+}
+
+type WebhooksFile = Record<string, StoredWebhook[]>;
+type DeliveriesFile = Record<string, StoredDelivery[]>;
+
+const WEBHOOKS_FILE = 'webhooks.json';
+const DELIVERIES_FILE = 'webhook-deliveries.json';
+
+function toInfo({ id, url, events, createdAt }: StoredWebhook): WebhookInfo {
+  return { id, url, events, createdAt };
+}
+
+function toDelivery(stored: StoredDelivery): WebhookDelivery {
+  const delivery: WebhookDelivery & { payload?: string } = { ...stored };
+  delete delivery.payload;
+  return delivery;
+}
+
+/* --------------------------------
+   Subscriptions
+---------------------------------- */
+
+export async function listWebhooks(username: string): Promise<WebhookInfo[]> {
+  const webhooks = await readJSONFile<WebhooksFile>(WEBHOOKS_FILE, {});
+  return (webhooks[username] || []).map(toInfo);
+}
+
+/**
+ * Subscribe `url` to the given events. Without a secret one is
+ * generated; either way it's returned this once. Null if the user
+ * already has the maximum number of webhooks.
+ */
+export async function createWebhook(
+  username: string,
+  url: string,
+  events: WebhookEventType[],
+  secret?: string
+): Promise<{ webhook: WebhookInfo; secret: string } | null> {
+  const stored: StoredWebhook = {
+    id: generateId(),
+    url,
+    events,
+    createdAt: Date.now(),
+    secret: secret || randomBytes(24).toString('base64url')
+  };
+  return updateJSONFile<WebhooksFile, { webhook: WebhookInfo; secret: string } | null>(
+    WEBHOOKS_FILE,
+    {},
+    (webhooks) => {
+      const owned = webhooks[username] || [];
+      if (owned.length >= MAX_WEBHOOKS_PER_USER) return { value: webhooks, result: null };
+      return {
+        value: { ...webhooks, [username]: [...owned, stored] },
+        result: { webhook: toInfo(stored), secret: stored.secret }
+      };
+    }
+  );
+}
+
+/** Remove a subscription and its pending deliveries; false if there was none. */
+export async function deleteWebhook(username: string, id: string): Promise<boolean> {
+  const removed = await updateJSONFile<WebhooksFile, boolean>(WEBHOOKS_FILE, {}, (webhooks) => {
+    const owned = webhooks[username] || [];
+    const remaining = owned.filter((webhook) => webhook.id !== id);
+    if (remaining.length === owned.length) return { value: webhooks, result: false };
+    return { value: { ...webhooks, [username]: remaining }, result: true };
+  });
+  if (removed) {
+    await updateDeliveries(username, (deliveries) =>
+      deliveries.map((delivery) =>
+        delivery.webhookId === id && delivery.status === 'pending'
+          ? { ...delivery, status: 'failed', error: 'Webhook deleted', nextAttemptAt: null }
+          : delivery
+      )
+    );
+  }
+  return removed;
+}
+
+export async function deleteUserWebhooks(username: string): Promise<void> {
+  await updateJSONFile<WebhooksFile, void>(WEBHOOKS_FILE, {}, (webhooks) => {
+    const value = { ...webhooks };
+    delete value[username];
+    return { value, result: undefined };
+  });
+  await updateJSONFile<DeliveriesFile, void>(DELIVERIES_FILE, {}, (deliveries) => {
+    const value = { ...deliveries };
+    delete value[username];
+    return { value, result: undefined };
+  });
+}
+
+/* --------------------------------
+   Deliveries
+---------------------------------- */
+
+/** A user's deliveries, newest first. */
+export async function listDeliveries(username: string): Promise<WebhookDelivery[]> {
+  const deliveries = await readJSONFile<DeliveriesFile>(DELIVERIES_FILE, {});
+  return (deliveries[username] || []).map(toDelivery);
+}
+
+function updateDeliveries(
+  username: string,
+  update: (deliveries: StoredDelivery[]) => StoredDelivery[]
+): Promise<void> {
+  return updateJSONFile<DeliveriesFile, void>(DELIVERIES_FILE, {}, (file) => ({
+    value: { ...file, [username]: update(file[username] || []) },
+    result: undefined
+  }));
+}
+
+function newDelivery(
+  webhook: StoredWebhook,
+  event: WebhookDeliveryEvent,
+  data: Record<string, unknown>
+): StoredDelivery {
+  const now = Date.now();
+  const id = generateId();
+  return {
+    id,
+    webhookId: webhook.id,
+    url: webhook.url,
+    event,
+    status: 'pending',
+    attempts: 0,
+    responseStatus: null,
+    error: null,
+    createdAt: now,
+    lastAttemptAt: null,
+    nextAttemptAt: now,
+    payload: JSON.stringify({ id, event, createdAt: now, data })
+  };
+}
+
+/** Queue new deliveries, dropping the oldest finished ones past the limit. */
+async function enqueue(username: string, queued: StoredDelivery[]): Promise<void> {
+  if (!queued.length) return;
+  await updateDeliveries(username, (deliveries) => {
+    let finished = 0;
+    return [...queued].reverse().concat(deliveries).filter(
+      (delivery) => delivery.status === 'pending' || ++finished <= DELIVERY_LIMIT
+    );
+  });
+  scheduleDeliveries(0);
+}
+
+/** Queue a delivery for every subscription that wants one of the events. */
+export async function emitItemEvents(username: string, events: ItemEvent[]): Promise<void> {
+  if (!events.length) return;
+  const webhooks = await readJSONFile<WebhooksFile>(WEBHOOKS_FILE, {});
+  const queued: StoredDelivery[] = [];
+  for (const webhook of webhooks[username] || []) {
+    for (const event of events) {
+      if (webhook.events.includes(event.type)) {
+        queued.push(newDelivery(webhook, event.type, event.data));
+      }
+    }
+  }
+  await enqueue(username, queued);
+}
+
+/** Queue a "ping" delivery to one subscription; false if it doesn't exist. */
+export async function sendTestDelivery(username: string, id: string): Promise<boolean> {
+  const webhooks = await readJSONFile<WebhooksFile>(WEBHOOKS_FILE, {});
+  const webhook = (webhooks[username] || []).find((w) => w.id === id);
+  if (!webhook) return false;
+  await enqueue(username, [newDelivery(webhook, 'ping', { message: 'Hello from Time Chapter' })]);
+  return true;
+}
+
+function sign(secret: string, timestamp: string, payload: string): string {
+  return createHmac('sha256', secret).update(`${timestamp}.${payload}`).digest('hex');
+}
+
+/** One POST; resolves to the receiver's status, or an error message. */
+async function attempt(
+  delivery: StoredDelivery,
+  secret: string
+): Promise<{ status: number | null; error: string | null }> {
+  const timestamp = String(Date.now());
+  try {
+    const res = await fetch(delivery.url, {
+      method: 'POST',
+      headers: {
+        'Content-Type': 'application/json',
+        'User-Agent': 'TimeChapter-Webhooks',
+        'X-TimeChapter-Event': delivery.event,
+        'X-TimeChapter-Delivery': delivery.id,
+        'X-TimeChapter-Timestamp': timestamp,
+        'X-TimeChapter-Signature': `sha256=${sign(secret, timestamp, delivery.payload)}`
+      },
+      body: delivery.payload,
+      signal: AbortSignal.timeout(DELIVERY_TIMEOUT),
+      redirect: 'manual'
+    });
+    return {
+      status: res.status,
+      error: res.ok ? null : `Receiver answered ${res.status}`
+    };
+  } catch (error) {
+    return { status: null, error: (error as Error).message || 'Request failed' };
+  }
+}
+
+/** The outcome of an attempt, with the next try scheduled if it failed. */
+function afterAttempt(
+  delivery: StoredDelivery,
+  result: { status: number | null; error: string | null }
+): StoredDelivery {
+  const now = Date.now();
+  const attempts = delivery.attempts + 1;
+  const base = { ...delivery, attempts, lastAttemptAt: now, responseStatus: result.status };
+  if (!result.error) {
+    return { ...base, status: 'delivered', error: null, nextAttemptAt: null };
+  }
+  if (attempts >= MAX_ATTEMPTS) {
+    return { ...base, status: 'failed', error: result.error, nextAttemptAt: null };
+  }
+  const delay = RETRY_BASE_DELAY * 2 ** (attempts - 1);
+  return { ...base, error: result.error, nextAttemptAt: now + delay };
+}
+
+let timer: ReturnType<typeof setTimeout> | null = null;
+let timerDue = Infinity;
+let running = false;
+/** Deliveries were queued while the loop was running. */
+let rerun = false;
+
+/** Run the delivery loop in `delay` ms, unless it's already due sooner. */
+function scheduleDeliveries(delay: number) {
+  const due = Date.now() + delay;
+  if (timer && timerDue <= due) return;
+  if (timer) clearTimeout(timer);
+  timerDue = due;
+  timer = setTimeout(() => {
+    timer = null;
+    timerDue = Infinity;
+    processDeliveries().catch((error) => console.error('Webhook delivery failed:', error));
+  }, delay);
+}
+
+/** Send every delivery that's due, then sleep until the next one is. */
+async function processDeliveries(): Promise<void> {
+  if (running) {
+    rerun = true;
+    return;
+  }
+  running = true;
+  try {
+    const now = Date.now();
+    const deliveries = await readJSONFile<DeliveriesFile>(DELIVERIES_FILE, {});
+    const webhooks = await readJSONFile<WebhooksFile>(WEBHOOKS_FILE, {});
+    let next = Infinity;
+
+    for (const [username, list] of Object.entries(deliveries)) {
+      // oldest first, so a receiver sees events in the order they happened
+      for (const delivery of [...list].reverse()) {
+        if (delivery.status !== 'pending' || delivery.nextAttemptAt === null) continue;
+        if (delivery.nextAttemptAt > now) {
+          next = Math.min(next, delivery.nextAttemptAt);
+          continue;
+        }
+        const webhook = (webhooks[username] || []).find((w) => w.id === delivery.webhookId);
+        const updated = webhook
+          ? afterAttempt(delivery, await attempt(delivery, webhook.secret))
+          : { ...delivery, status: 'failed' as const, error: 'Webhook deleted', nextAttemptAt: null };
+        await updateDeliveries(username, (current) =>
+          current.map((d) => (d.id === updated.id && d.status === 'pending' ? updated : d))
+        );
+        if (updated.nextAttemptAt !== null) next = Math.min(next, updated.nextAttemptAt);
+      }
+    }
+    if (next !== Infinity) scheduleDeliveries(Math.max(0, next - Date.now()));
+  } finally {
+    running = false;
+    if (rerun) {
+      rerun = false;
+      scheduleDeliveries(0);
+    }
+  }
+}
+
+/**
+ * Pick up deliveries left pending by a previous server process. Called
+ * whenever someone looks at their webhooks.
+ */
+export function resumeDeliveries() {
+  if (!timer && !running) scheduleDeliveries(0);
+}
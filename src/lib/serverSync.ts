@@ -0,0 +1,119 @@
+import type { LogItem, TodoItem } from '@/lib/types';
+import type { DayKind, StorageAdapter } from '@/lib/storage';
+import type { PersistedData } from '@/lib/migrations';
+import {
+  captureChanges,
+  applyRecords,
+  recordKey,
+  ItemRecord,
+  RecordMap,
+  SyncConflict
+} from '@/lib/replication';
+import { syncChanges } from '@/lib/api';
+import { generateId } from '@/lib/ids';
+
+/* ------------------------------------------------------------------
+   Browser side of sync
+   The "shadow" is this browser's copy of the replication records as of
+   the last sync. Local edits are whatever differs between the current
+   logs/todos and the shadow, so the app keeps working offline and the
+   next successful sync catches up. The shadow is stored with the rest
+   of the user's data, so every tab of this browser shares it.
+--------------------------------------------------------------------- */
+
+/** Coarse state shown in the header. */
+export type SyncStatus = 'synced' | 'syncing' | 'offline' | 'error';
+
+export interface SyncShadow {
+  /** This browser's replica id. */
+  node: string;
+  clock: number;
+  cursor: number;
+  records: RecordMap;
+}
+
+export interface SyncRoundResult {
+  /** Records changed elsewhere that the local data doesn't reflect yet. */
+  incoming: ItemRecord[];
+  conflicts: SyncConflict[];
+}
+
+async function loadShadow(storage: StorageAdapter): Promise<SyncShadow> {
+  const stored = await storage.getRecord<SyncShadow>('sync');
+  return stored ?? { node: generateId(), clock: 0, cursor: 0, records: {} };
+}
+
+/** Run `fn` while holding a per-user lock, so tabs take turns syncing. */
+function withSyncLock<T>(name: string, fn: () => Promise<T>): Promise<T> {
+  if (typeof navigator !== 'undefined' && navigator.locks) {
+    return navigator.locks.request(name, fn);
+  }
+  return fn();
+}
+
+/**
+ * One round trip: push everything that changed locally since the last
+ * sync and pull everything the server has that we haven't seen.
+ */
+export function syncRound(
+  storage: StorageAdapter,
+  lockName: string,
+  data: PersistedData
+): Promise<SyncRoundResult> {
+  return withSyncLock(lockName, async () => {
+    const shadow = await loadShadow(storage);
+    const captured = captureChanges(shadow.records, data, shadow.node, shadow.clock);
+    const response = await syncChanges({
+      node: shadow.node,
+      clock: captured.clock,
+      cursor: shadow.cursor,
+      changes: captured.changed
+    });
+
+    const records = { ...captured.records };
+    const incoming: ItemRecord[] = [];
+    for (const record of response.changes) {
+      const key = recordKey(record.kind, record.id);
+      const known = records[key];
+      if (!known || JSON.stringify(known.values) !== JSON.stringify(record.values)) {
+        incoming.push(record);
+      }
+      records[key] = record;
+    }
+    await storage.setRecord<SyncShadow>('sync', {
+      node: shadow.node,
+      clock: Math.max(captured.clock, response.clock),
+      cursor: response.cursor,
+      records
+    });
+    return { incoming, conflicts: response.conflicts };
+  });
+}
+
+/**
+ * Apply pulled records to the current data, skipping items edited
+ * locally while the sync was in flight (compared by reference with the
+ * snapshot that was synced); those edits go out with the next sync.
+ */
+export function applyIncoming(
+  current: PersistedData,
+  snapshot: PersistedData,
+  incoming: ItemRecord[]
+): PersistedData {
+  function itemsById(data: PersistedData) {
+    const byId = new Map<string, LogItem | TodoItem>();
+    (['logs', 'todos'] as DayKind[]).forEach((kind) => {
+      for (const items of Object.values<(LogItem | TodoItem)[]>(data[kind])) {
+        items.forEach((item) => byId.set(recordKey(kind, item.id), item));
+      }
+    });
+    return byId;
+  }
+  const before = itemsById(snapshot);
+  const now = itemsById(current);
+  const safe = incoming.filter((record) => {
+    const key = recordKey(record.kind, record.id);
+    return before.get(key) === now.get(key);
+  });
+  return applyRecords(current, safe);
+}
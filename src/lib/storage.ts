@@ -0,0 +1,387 @@
+import type { LogItem, TodoItem } from '@/lib/types';
+
+/* ------------------------------------------------------------------
+   Storage adapters
+   Page talks to one of these instead of calling localStorage itself.
+   Data is addressed per day (logs/todos) and per setting so that a
+   backend can write only what changed.
+--------------------------------------------------------------------- */
+
+/** The two kinds of per-day collections we persist. */
+export type DayKind = 'logs' | 'todos';
+
+/** Settings persisted alongside the user's data. */
+export type SettingName =
+  | 'timezone'
+  | 'timeFormat'
+  | 'theme'
+  | 'selectedDate'
+  | 'trashRetentionDays'
+  | 'idleLockMinutes'
+  | 'lockPin'
+  | 'activeTimer'
+  | 'projects'
+  | 'savedSearches';
+
+export const SETTING_NAMES: SettingName[] = [
+  'timezone',
+  'timeFormat',
+  'theme',
+  'selectedDate',
+  'trashRetentionDays',
+  'idleLockMinutes',
+  'lockPin',
+  'activeTimer',
+  'projects',
+  'savedSearches'
+];
+
+/** Larger JSON documents kept per user (history, trash, ...). */
+export type RecordName = 'history' | 'trash' | 'sync';
+
+export const RECORD_NAMES: RecordName[] = ['history', 'trash', 'sync'];
+
+export type DayItem<K extends DayKind> = K extends 'logs' ? LogItem : TodoItem;
+
+/** Date key => items, for either logs or todos. */
+export type DaysOf<K extends DayKind> = Record<string, DayItem<K>[]>;
+
+export interface StorageAdapter {
+  readonly backend: 'localStorage' | 'indexedDB';
+  /** Load every stored day of the given kind. */
+  loadDays<K extends DayKind>(kind: K): Promise<DaysOf<K>>;
+  /** Write the given days; an empty array removes that day. */
+  saveDays<K extends DayKind>(kind: K, days: DaysOf<K>): Promise<void>;
+  getSetting(name: SettingName): Promise<string | null>;
+  setSetting(name: SettingName, value: string): Promise<void>;
+  /** Schema version of the stored data, or null if never written. */
+  getSchemaVersion(): Promise<number | null>;
+  setSchemaVersion(version: number): Promise<void>;
+  /** Read a JSON record, or null if it was never written. */
+  getRecord<T>(name: RecordName): Promise<T | null>;
+  setRecord<T>(name: RecordName, value: T): Promise<void>;
+}
+
+/** Key (under the user prefix) holding the schema version marker. */
+const SCHEMA_VERSION_KEY = 'schemaVersion';
+
+function parseVersion(value: unknown): number | null {
+  const n = Number(value);
+  return value !== null && value !== undefined && Number.isInteger(n) ? n : null;
+}
+
+/**
+ * True for a day that should be deleted rather than written. Wrapping
+ * adapters may hand down non-array values (e.g. encrypted envelopes),
+ * which always count as content.
+ */
+export function isEmptyDay(items: unknown): boolean {
+  return items === null || items === undefined || (Array.isArray(items) && !items.length);
+}
+
+/**
+ * Return the date keys whose arrays differ (by reference) between two
+ * snapshots, mapped to their new contents. Removed days map to [].
+ * State updates in Page always replace the arrays of days they touch,
+ * so a reference check is enough to find the dirty days.
+ */
+export function changedDays<T>(
+  prev: Record<string, T[]>,
+  next: Record<string, T[]>
+): Record<string, T[]> {
+  const changed: Record<string, T[]> = {};
+  for (const dateKey of Object.keys(next)) {
+    if (prev[dateKey] !== next[dateKey]) {
+      changed[dateKey] = next[dateKey];
+    }
+  }
+  for (const dateKey of Object.keys(prev)) {
+    if (!(dateKey in next)) {
+      changed[dateKey] = [];
+    }
+  }
+  return changed;
+}
+
+/* ------------------------------------------------------------------
+   localStorage backend (original format, one JSON blob per kind)
+--------------------------------------------------------------------- */
+
+function readLegacyMap<K extends DayKind>(userKey: string, kind: K): DaysOf<K> {
+  const raw = localStorage.getItem(userKey + kind);
+  if (!raw) return {};
+  try {
+    return JSON.parse(raw) as DaysOf<K>;
+  } catch {
+    return {};
+  }
+}
+
+export function createLocalStorageAdapter(userKey: string): StorageAdapter {
+  return {
+    backend: 'localStorage',
+
+    async loadDays(kind) {
+      return readLegacyMap(userKey, kind);
+    },
+
+    async saveDays(kind, days) {
+      const all = readLegacyMap(userKey, kind);
+      for (const [dateKey, items] of Object.entries(days)) {
+        if (!isEmptyDay(items)) {
+          all[dateKey] = items;
+        } else {
+          delete all[dateKey];
+        }
+      }
+      localStorage.setItem(userKey + kind, JSON.stringify(all));
+    },
+
+    async getSetting(name) {
+      return localStorage.getItem(userKey + name);
+    },
+
+    async setSetting(name, value) {
+      localStorage.setItem(userKey + name, value);
+    },
+
+    async getSchemaVersion() {
+      return parseVersion(localStorage.getItem(userKey + SCHEMA_VERSION_KEY));
+    },
+
+    async setSchemaVersion(version) {
+      localStorage.setItem(userKey + SCHEMA_VERSION_KEY, String(version));
+    },
+
+    async getRecord<T>(name: RecordName) {
+      const raw = localStorage.getItem(userKey + name);
+      if (!raw) return null;
+      try {
+        return JSON.parse(raw) as T;
+      } catch {
+        return null;
+      }
+    },
+
+    async setRecord(name, value) {
+      localStorage.setItem(userKey + name, JSON.stringify(value));
+    }
+  };
+}
+
+/* ------------------------------------------------------------------
+   IndexedDB backend (one record per day, one record per setting)
+--------------------------------------------------------------------- */
+
+const DB_VERSION = 2;
+const SETTINGS_STORE = 'settings';
+const RECORDS_STORE = 'records';
+
+function requestToPromise<T>(req: IDBRequest<T>): Promise<T> {
+  return new Promise((resolve, reject) => {
+    req.onsuccess = () => resolve(req.result);
+    req.onerror = () => reject(req.error);
+  });
+}
+
+function transactionDone(tx: IDBTransaction): Promise<void> {
+  return new Promise((resolve, reject) => {
+    tx.oncomplete = () => resolve();
+    tx.onerror = () => reject(tx.error);
+    tx.onabort = () => reject(tx.error);
+  });
+}
+
+function openDatabase(name: string): Promise<IDBDatabase> {
+  const req = indexedDB.open(name, DB_VERSION);
+  req.onupgradeneeded = () => {
+    const db = req.result;
+    for (const store of ['logs', 'todos', SETTINGS_STORE, RECORDS_STORE]) {
+      if (!db.objectStoreNames.contains(store)) {
+        db.createObjectStore(store);
+      }
+    }
+  };
+  return requestToPromise(req).then((db) => {
+    // let deleteDatabase() (e.g. account deletion) through instead of blocking
+    db.onversionchange = () => db.close();
+    return db;
+  });
+}
+
+/**
+ * Move anything still sitting in the old localStorage keys into IndexedDB,
+ * then drop those keys so they stop counting against the quota.
+ */
+async function importLegacyData(db: IDBDatabase, userKey: string) {
+  const legacyKinds = (['logs', 'todos'] as DayKind[]).filter(
+    (kind) => localStorage.getItem(userKey + kind) !== null
+  );
+  const legacySettings = [...SETTING_NAMES, SCHEMA_VERSION_KEY].filter(
+    (name) => localStorage.getItem(userKey + name) !== null
+  );
+  const legacyRecords = RECORD_NAMES.filter(
+    (name) => localStorage.getItem(userKey + name) !== null
+  );
+  if (!legacyKinds.length && !legacySettings.length && !legacyRecords.length) {
+    return;
+  }
+
+  const tx = db.transaction(
+    ['logs', 'todos', SETTINGS_STORE, RECORDS_STORE],
+    'readwrite'
+  );
+  for (const kind of legacyKinds) {
+    const store = tx.objectStore(kind);
+    for (const [dateKey, items] of Object.entries(readLegacyMap(userKey, kind))) {
+      if (!isEmptyDay(items)) store.put(items, dateKey);
+    }
+  }
+  const settingsStore = tx.objectStore(SETTINGS_STORE);
+  for (const name of legacySettings) {
+    settingsStore.put(localStorage.getItem(userKey + name), name);
+  }
+  const recordsStore = tx.objectStore(RECORDS_STORE);
+  for (const name of legacyRecords) {
+    try {
+      recordsStore.put(JSON.parse(localStorage.getItem(userKey + name) || 'null'), name);
+    } catch {}
+  }
+  await transactionDone(tx);
+
+  legacyKinds.forEach((kind) => localStorage.removeItem(userKey + kind));
+  legacySettings.forEach((name) => localStorage.removeItem(userKey + name));
+  legacyRecords.forEach((name) => localStorage.removeItem(userKey + name));
+}
+
+export async function createIndexedDBAdapter(
+  userKey: string
+): Promise<StorageAdapter> {
+  const db = await openDatabase(userKey + 'db');
+  await importLegacyData(db, userKey);
+
+  return {
+    backend: 'indexedDB',
+
+    async loadDays<K extends DayKind>(kind: K) {
+      const tx = db.transaction(kind, 'readonly');
+      const store = tx.objectStore(kind);
+      const [keys, values] = await Promise.all([
+        requestToPromise(store.getAllKeys()),
+        requestToPromise(store.getAll())
+      ]);
+      const days: DaysOf<K> = {};
+      keys.forEach((key, i) => {
+        days[String(key)] = values[i];
+      });
+      return days;
+    },
+
+    async saveDays(kind, days) {
+      const tx = db.transaction(kind, 'readwrite');
+      const store = tx.objectStore(kind);
+      for (const [dateKey, items] of Object.entries(days)) {
+        if (!isEmptyDay(items)) {
+          store.put(items, dateKey);
+        } else {
+          store.delete(dateKey);
+        }
+      }
+      await transactionDone(tx);
+    },
+
+    async getSetting(name) {
+      const tx = db.transaction(SETTINGS_STORE, 'readonly');
+      const value = await requestToPromise(tx.objectStore(SETTINGS_STORE).get(name));
+      return typeof value === 'string' ? value : null;
+    },
+
+    async setSetting(name, value) {
+      const tx = db.transaction(SETTINGS_STORE, 'readwrite');
+      tx.objectStore(SETTINGS_STORE).put(value, name);
+      await transactionDone(tx);
+    },
+
+    async getSchemaVersion() {
+      const tx = db.transaction(SETTINGS_STORE, 'readonly');
+      const value = await requestToPromise(
+        tx.objectStore(SETTINGS_STORE).get(SCHEMA_VERSION_KEY)
+      );
+      return parseVersion(value);
+    },
+
+    async setSchemaVersion(version) {
+      const tx = db.transaction(SETTINGS_STORE, 'readwrite');
+      tx.objectStore(SETTINGS_STORE).put(String(version), SCHEMA_VERSION_KEY);
+      await transactionDone(tx);
+    },
+
+    async getRecord<T>(name: RecordName) {
+      const tx = db.transaction(RECORDS_STORE, 'readonly');
+      const value = await requestToPromise(tx.objectStore(RECORDS_STORE).get(name));
+      return (value ?? null) as T | null;
+    },
+
+    async setRecord(name, value) {
+      const tx = db.transaction(RECORDS_STORE, 'readwrite');
+      tx.objectStore(RECORDS_STORE).put(value, name);
+      await transactionDone(tx);
+    }
+  };
+}
+
+/**
+ * Pick the best available backend: IndexedDB when the browser allows it,
+ * otherwise the original localStorage layout.
+ */
+export async function createStorageAdapter(
+  userKey: string
+): Promise<StorageAdapter> {
+  if (typeof indexedDB !== 'undefined') {
+    try {
+      return await createIndexedDBAdapter(userKey);
+    } catch (error) {
+      console.warn('IndexedDB unavailable, falling back to localStorage:', error);
+    }
+  }
+  return createLocalStorageAdapter(userKey);
+}
+
+/**
+ * Copy every day, setting and record from one adapter to another. Used to
+ * re-encode the whole store (e.g. when encryption is turned on or off).
+ */
+export async function copyAllData(
+  from: StorageAdapter,
+  to: StorageAdapter
+): Promise<void> {
+  const [logs, todos, settingValues, records] = await Promise.all([
+    from.loadDays('logs'),
+    from.loadDays('todos'),
+    Promise.all(SETTING_NAMES.map((name) => from.getSetting(name))),
+    Promise.all(RECORD_NAMES.map((name) => from.getRecord<unknown>(name)))
+  ]);
+  await to.saveDays('logs', logs);
+  await to.saveDays('todos', todos);
+  for (let i = 0; i < SETTING_NAMES.length; i++) {
+    const value = settingValues[i];
+    if (value !== null) await to.setSetting(SETTING_NAMES[i], value);
+  }
+  for (let i = 0; i < RECORD_NAMES.length; i++) {
+    const value = records[i];
+    if (value !== null) await to.setRecord(RECORD_NAMES[i], value);
+  }
+}
+
+/**
+ * Remove everything stored for a user in this browser: the IndexedDB
+ * database and any keys of the localStorage layout.
+ */
+export async function deleteUserData(userKey: string): Promise<void> {
+  const kinds: DayKind[] = ['logs', 'todos'];
+  const names: string[] = [...kinds, ...SETTING_NAMES, ...RECORD_NAMES, SCHEMA_VERSION_KEY];
+  names.forEach((name) => localStorage.removeItem(userKey + name));
+  if (typeof indexedDB !== 'undefined') {
+    await requestToPromise(indexedDB.deleteDatabase(userKey + 'db'));
+  }
+}
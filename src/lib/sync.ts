@@ -0,0 +1,219 @@
+import type { DayKind, SettingName } from '@/lib/storage';
+
+/* ------------------------------------------------------------------
+   Cross-tab synchronisation
+   Each tab broadcasts item-level changes (upserts + removed ids) for the
+   days it saves. Receiving tabs merge them by id into their own state,
+   so concurrent edits in two tabs never wipe each other out. Without
+   BroadcastChannel the messages pass through localStorage, so there
+   they carry only ids and names, and receivers re-read the values
+   through their storage adapter (which may be encrypted).
+--------------------------------------------------------------------- */
+
+interface Identified {
+  id: string;
+}
+
+/** Item-level change to a single day. */
+export interface DayChange<T> {
+  upserts: T[];
+  removedIds: string[];
+}
+
+/** A day change without the items: which ids were written or removed. */
+export interface DaySignal {
+  ids: string[];
+  removedIds: string[];
+}
+
+export type SyncMessage =
+  | {
+      type: 'days';
+      source: string;
+      kind: DayKind;
+      changes: Record<string, DayChange<Identified>>;
+    }
+  | {
+      type: 'setting';
+      source: string;
+      name: SettingName;
+      value: string;
+    }
+  | {
+      type: 'daysChanged';
+      source: string;
+      kind: DayKind;
+      days: Record<string, DaySignal>;
+    }
+  | {
+      type: 'settingChanged';
+      source: string;
+      name: SettingName;
+    };
+
+/** Settings that follow the user across tabs (selectedDate stays per tab). */
+export const SYNCED_SETTINGS: SettingName[] = [
+  'timezone',
+  'timeFormat',
+  'theme',
+  'trashRetentionDays',
+  'idleLockMinutes',
+  'lockPin',
+  'activeTimer',
+  'projects',
+  'savedSearches'
+];
+
+/**
+ * Compare two versions of a day. Items whose object reference changed
+ * count as upserts, ids that disappeared count as removals.
+ */
+export function diffDayItems<T extends Identified>(
+  prev: T[] | undefined,
+  next: T[] | undefined
+): DayChange<T> {
+  const prevById = new Map((prev || []).map((item) => [item.id, item]));
+  const nextIds = new Set((next || []).map((item) => item.id));
+  return {
+    upserts: (next || []).filter((item) => prevById.get(item.id) !== item),
+    removedIds: Array.from(prevById.keys()).filter((id) => !nextIds.has(id))
+  };
+}
+
+/** Merge remote day changes into a local map, replacing items by id. */
+export function applyDayChanges<T extends Identified>(
+  current: Record<string, T[]>,
+  changes: Record<string, DayChange<T>>,
+  sortDay: (items: T[]) => T[] = (items) => items
+): Record<string, T[]> {
+  const updated = { ...current };
+  for (const [dateKey, change] of Object.entries(changes)) {
+    const removed = new Set(change.removedIds);
+    const upserted = new Map(change.upserts.map((item) => [item.id, item]));
+    const kept = (updated[dateKey] || [])
+      .filter((item) => !removed.has(item.id))
+      .map((item) => upserted.get(item.id) ?? item);
+    const keptIds = new Set(kept.map((item) => item.id));
+    const added = change.upserts.filter((item) => !keptIds.has(item.id));
+    updated[dateKey] = sortDay([...kept, ...added]);
+  }
+  return updated;
+}
+
+/** The message with its data left out, for channels that touch storage. */
+function toSignal(message: SyncMessage): SyncMessage {
+  if (message.type === 'setting') {
+    return { type: 'settingChanged', source: message.source, name: message.name };
+  }
+  if (message.type !== 'days') return message;
+  const days: Record<string, DaySignal> = {};
+  for (const [dateKey, change] of Object.entries(message.changes)) {
+    days[dateKey] = {
+      ids: change.upserts.map((item) => item.id),
+      removedIds: change.removedIds
+    };
+  }
+  return { type: 'daysChanged', source: message.source, kind: message.kind, days };
+}
+
+/** The day changes a signal stands for, taken from freshly loaded days. */
+export function changesFromSignal<T extends Identified>(
+  stored: Record<string, T[]>,
+  days: Record<string, DaySignal>
+): Record<string, DayChange<T>> {
+  const changes: Record<string, DayChange<T>> = {};
+  for (const [dateKey, signal] of Object.entries(days)) {
+    const ids = new Set(signal.ids);
+    changes[dateKey] = {
+      upserts: (stored[dateKey] || []).filter((item) => ids.has(item.id)),
+      removedIds: signal.removedIds
+    };
+  }
+  return changes;
+}
+
+export interface TabChannel {
+  post: (message: SyncMessage) => void;
+  close: () => void;
+}
+
+/**
+ * Open a per-user channel to other tabs. Uses BroadcastChannel where
+ * available, otherwise piggybacks on `storage` events with signals only.
+ * Post once the data is saved, as receivers may re-read it.
+ */
+export function openTabChannel(
+  userKey: string,
+  onMessage: (message: SyncMessage) => void
+): TabChannel {
+  const channelName = userKey + 'sync';
+
+  if (typeof BroadcastChannel !== 'undefined') {
+    const channel = new BroadcastChannel(channelName);
+    channel.onmessage = (ev: MessageEvent<SyncMessage>) => onMessage(ev.data);
+    return {
+      post: (message) => channel.postMessage(message),
+      close: () => channel.close()
+    };
+  }
+
+  function handleStorage(ev: StorageEvent) {
+    if (ev.key !== channelName || !ev.newValue) return;
+    try {
+      onMessage(JSON.parse(ev.newValue) as SyncMessage);
+    } catch {}
+  }
+  window.addEventListener('storage', handleStorage);
+  return {
+    post: (message) => {
+      // write then clear so the next identical message still fires an event
+      localStorage.setItem(channelName, JSON.stringify(toSignal(message)));
+      localStorage.removeItem(channelName);
+    },
+    close: () => window.removeEventListener('storage', handleStorage)
+  };
+}
+
+/**
+ * Remembers which items and removals came from other tabs, so that the
+ * save that follows merging them does not echo them back out.
+ */
+export interface RemoteTracker {
+  markApplied: (changes: Record<string, DayChange<Identified>>) => void;
+  localChanges: <T extends Identified>(
+    prev: Record<string, T[]>,
+    dirty: Record<string, T[]>
+  ) => Record<string, DayChange<T>>;
+}
+
+export function createRemoteTracker(): RemoteTracker {
+  const remoteItems = new WeakSet<object>();
+  const remoteRemovals = new Set<string>();
+
+  return {
+    markApplied(changes) {
+      for (const change of Object.values(changes)) {
+        change.upserts.forEach((item) => remoteItems.add(item));
+        change.removedIds.forEach((id) => remoteRemovals.add(id));
+      }
+    },
+
+    localChanges<T extends Identified>(
+      prev: Record<string, T[]>,
+      dirty: Record<string, T[]>
+    ) {
+      const result: Record<string, DayChange<T>> = {};
+      for (const [dateKey, items] of Object.entries(dirty)) {
+        const { upserts, removedIds } = diffDayItems(prev[dateKey], items);
+        const local = {
+          upserts: upserts.filter((item) => !remoteItems.has(item)),
+          removedIds: removedIds.filter((id) => !remoteRemovals.delete(id))
+        };
+        if (local.upserts.length || local.removedIds.length) {
+          result[dateKey] = local;
+        }
+      }
+      return result;
+    }
+  };
+}
@@ -0,0 +1,93 @@
+import type { LogsByDate, TodosByDate } from '@/lib/types';
+import { taggableText } from '@/lib/markdown';
+
+/* ------------------------------------------------------------------
+   #tags and @projects
+   Written inline in log and todo content ("#acme standup @website").
+   A marker counts at the start of the text or after whitespace or an
+   opening bracket, so e-mail addresses and URL fragments don't; nor do
+   markers in Markdown code, links or escapes (see taggableText). Tags
+   are compared lowercased, marker included: "#acme", "@website".
+--------------------------------------------------------------------- */
+
+const TAG_PATTERN = /(^|[\s([{])([#@])([\w\u00c0-\u024f][\w\u00c0-\u024f-]*)/g;
+
+export type TagKind = 'tag' | 'project';
+
+export function tagKind(tag: string): TagKind {
+  return tag.startsWith('@') ? 'project' : 'tag';
+}
+
+/** A run of text cut into plain text and tags, in order, for rendering chips. */
+export type ContentPart =
+  | { type: 'text'; text: string }
+  | { type: 'tag'; text: string; tag: string };
+
+export function splitTags(content: string): ContentPart[] {
+  const parts: ContentPart[] = [];
+  let last = 0;
+  for (const m of Array.from(content.matchAll(TAG_PATTERN))) {
+    const start = m.index! + m[1].length;
+    if (start > last) parts.push({ type: 'text', text: content.slice(last, start) });
+    const text = m[2] + m[3];
+    parts.push({ type: 'tag', text, tag: text.toLowerCase() });
+    last = start + text.length;
+  }
+  if (last < content.length) parts.push({ type: 'text', text: content.slice(last) });
+  return parts;
+}
+
+/** The distinct tags in a piece of content, lowercased. */
+export function contentTags(content: string): string[] {
+  const tags = new Set<string>();
+  for (const run of taggableText(content)) {
+    for (const m of Array.from(run.matchAll(TAG_PATTERN))) {
+      tags.add((m[2] + m[3]).toLowerCase());
+    }
+  }
+  return Array.from(tags);
+}
+
+/** True if the content carries every one of the (lowercased) tags. */
+export function hasTags(content: string, tags: string[]): boolean {
+  if (!tags.length) return true;
+  const own = contentTags(content);
+  return tags.every((tag) => own.includes(tag));
+}
+
+/* --------------------------------
+   Index
+---------------------------------- */
+
+export interface TagUsage {
+  tag: string;
+  logs: number;
+  todos: number;
+  /** Days it appears on, oldest first. */
+  dates: string[];
+}
+
+/** Every tag used across all dates, most used first. */
+export function buildTagIndex(logs: LogsByDate, todos: TodosByDate): TagUsage[] {
+  const index = new Map<string, { logs: number; todos: number; dates: Set<string> }>();
+  function count(kind: 'logs' | 'todos', date: string, content: string) {
+    for (const tag of contentTags(content)) {
+      let usage = index.get(tag);
+      if (!usage) {
+        usage = { logs: 0, todos: 0, dates: new Set() };
+        index.set(tag, usage);
+      }
+      usage[kind]++;
+      usage.dates.add(date);
+    }
+  }
+  for (const [date, dayLogs] of Object.entries(logs)) {
+    dayLogs.forEach((log) => count('logs', date, log.content));
+  }
+  for (const [date, dayTodos] of Object.entries(todos)) {
+    dayTodos.forEach((todo) => count('todos', date, todo.content));
+  }
+  return Array.from(index.entries())
+    .map(([tag, usage]) => ({ tag, ...usage, dates: Array.from(usage.dates).sort() }))
+    .sort((a, b) => b.logs + b.todos - (a.logs + a.todos) || a.tag.localeCompare(b.tag));
+}
@@ -0,0 +1,129 @@
+import type { LogItem } from '@/lib/types';
+
+/* ------------------------------------------------------------------
+   Time helpers shared by storage, migrations and the UI
+--------------------------------------------------------------------- */
+
+const DATE_KEY_REGEX = /^(\d{4})-(\d{2})-(\d{2})$/;
+
+/** True if the string looks like one of our "YYYY-MM-DD" date keys. */
+export function isDateKey(value: string): boolean {
+  return DATE_KEY_REGEX.test(value);
+}
+
+/**
+ * Parse "HH:MM", "H:MM AM" or "HH:MM PM" into [hour, minute] (24h).
+ * Returns null when nothing time-like is found.
+ */
+export function parseTimeOfDay(timeStr: string): [number, number] | null {
+  const m = timeStr.match(/(\d{1,2}):(\d{2})\s*(AM|PM)?/i);
+  if (!m) return null;
+  let hh = parseInt(m[1], 10);
+  const mm = parseInt(m[2], 10);
+  const ampm = (m[3] || '').toUpperCase();
+  if (ampm === 'PM' && hh < 12) hh += 12;
+  if (ampm === 'AM' && hh === 12) hh = 0;
+  if (hh > 23 || mm > 59) return null;
+  return [hh, mm];
+}
+
+/* Sort logs by their rawTimestamp. */
+export function sortLogsByTimestamp(logs: LogItem[]): LogItem[] {
+  return [...logs].sort((a, b) => {
+    const ta = a.rawTimestamp ?? 0;
+    const tb = b.rawTimestamp ?? 0;
+    return ta - tb;
+  });
+}
+
+/** The "YYYY-MM-DD" calendar day a timestamp falls on in the given timezone. */
+export function dateKeyInTimezone(timestamp: number, timeZone: string): string {
+  const parts = new Intl.DateTimeFormat('en-US', {
+    timeZone,
+    year: 'numeric',
+    month: '2-digit',
+    day: '2-digit'
+  }).formatToParts(new Date(timestamp));
+  const get = (type: string) => parts.find((p) => p.type === type)?.value ?? '';
+  return `${get('year')}-${get('month')}-${get('day')}`;
+}
+
+/** Minutes `timeZone` is ahead of UTC at the given instant. */
+function timezoneOffsetMinutes(timestamp: number, timeZone: string): number {
+  const parts = new Intl.DateTimeFormat('en-US', {
+    timeZone,
+    hourCycle: 'h23',
+    year: 'numeric',
+    month: 'numeric',
+    day: 'numeric',
+    hour: 'numeric',
+    minute: 'numeric'
+  }).formatToParts(new Date(timestamp));
+  const get = (type: string) => Number(parts.find((p) => p.type === type)?.value);
+  const asUTC = Date.UTC(get('year'), get('month') - 1, get('day'), get('hour'), get('minute'));
+  return Math.round((asUTC - Math.floor(timestamp / 60000) * 60000) / 60000);
+}
+
+/** Epoch millis for the date key at hour:minute on the clocks of `timeZone`. */
+export function timestampInTimezone(
+  dateKey: string,
+  hour: number,
+  minute: number,
+  timeZone: string
+): number | null {
+  const m = dateKey.match(DATE_KEY_REGEX);
+  if (!m) return null;
+  const wallClock = Date.UTC(Number(m[1]), Number(m[2]) - 1, Number(m[3]), hour, minute);
+  // correct twice, in case the first guess lands across a DST change
+  let timestamp = wallClock - timezoneOffsetMinutes(wallClock, timeZone) * 60000;
+  timestamp = wallClock - timezoneOffsetMinutes(timestamp, timeZone) * 60000;
+  return timestamp;
+}
+
+/** True if `timeZone` is an IANA zone name this runtime knows. */
+export function isValidTimezone(timeZone: string): boolean {
+  try {
+    new Intl.DateTimeFormat('en-US', { timeZone });
+    return true;
+  } catch {
+    return false;
+  }
+}
+
+const TIME_PATTERN = '\\d{1,2}:\\d{2}(?:\\s*(?:AM|PM))?';
+const TIME_REGEX = new RegExp(`^${TIME_PATTERN}$`, 'i');
+const TIME_RANGE_REGEX = new RegExp(`^(${TIME_PATTERN})\\s*[-–]\\s*(${TIME_PATTERN})$`, 'i');
+
+/** "9:00 AM-10:30 AM" => start and end; a single time => just the start. */
+export function splitTimeRange(text: string): { start: string; end?: string } {
+  const m = text.trim().match(TIME_RANGE_REGEX);
+  return m ? { start: m[1], end: m[2] } : { start: text.trim() };
+}
+
+/**
+ * Split a line in the log import format, "[YYYY-MM-DD ]HH:MM - content"
+ * (or "HH:MM-HH:MM - content" with an end time), into its parts. Date
+ * and time are optional; a line without a leading time is all content.
+ */
+export function parseLogLine(line: string): {
+  date?: string;
+  time?: string;
+  endTime?: string;
+  content: string;
+} {
+  let rest = line.trim();
+  let date: string | undefined;
+  const dated = rest.match(/^(\d{4}-\d{2}-\d{2})\s+(.*)$/);
+  if (dated) {
+    date = dated[1];
+    rest = dated[2];
+  }
+  const separator = rest.indexOf(' - ');
+  if (separator !== -1) {
+    const { start, end } = splitTimeRange(rest.slice(0, separator));
+    if (TIME_REGEX.test(start) && parseTimeOfDay(start) && (!end || parseTimeOfDay(end))) {
+      return { date, time: start, endTime: end, content: rest.slice(separator + 3).trim() };
+    }
+  }
+  return { date, content: rest };
+}
@@ -0,0 +1,63 @@
+import type { LogItem } from '@/lib/types';
+
+/* ------------------------------------------------------------------
+   Running timer
+   At most one activity is timed at a time. It's kept as the
+   "activeTimer" setting (JSON, empty when idle), so it survives reloads
+   and other open tabs see it start and stop. Stopping it turns it into
+   a log with an explicit end.
+--------------------------------------------------------------------- */
+
+export interface ActiveTimer {
+  content: string;
+  /** Epoch millis. */
+  startedAt: number;
+  /** The todo the time is tracked against, if it was started from one. */
+  todoId?: string;
+  /** Carried over to the log. */
+  projectId?: string;
+}
+
+export function serializeTimer(timer: ActiveTimer | null): string {
+  return timer ? JSON.stringify(timer) : '';
+}
+
+/** The timer stored in the setting; null when idle or unreadable. */
+export function parseTimer(value: string | null | undefined): ActiveTimer | null {
+  if (!value) return null;
+  try {
+    const timer = JSON.parse(value) as ActiveTimer;
+    if (typeof timer?.content !== 'string' || typeof timer.startedAt !== 'number') {
+      return null;
+    }
+    return timer;
+  } catch {
+    return null;
+  }
+}
+
+/** "4:05" under an hour, "1:04:05" after. */
+export function formatElapsed(ms: number): string {
+  const seconds = Math.max(0, Math.floor(ms / 1000));
+  const h = Math.floor(seconds / 3600);
+  const m = Math.floor((seconds % 3600) / 60);
+  const s = String(seconds % 60).padStart(2, '0');
+  return h ? `${h}:${String(m).padStart(2, '0')}:${s}` : `${m}:${s}`;
+}
+
+/** Milliseconds logged against a todo, counting only logs with an explicit end. */
+export function trackedTime(todoId: string, allLogs: Record<string, LogItem[]>): number {
+  let total = 0;
+  for (const dayLogs of Object.values(allLogs)) {
+    for (const log of dayLogs) {
+      if (
+        log.todoId === todoId &&
+        typeof log.rawTimestamp === 'number' &&
+        typeof log.endTimestamp === 'number'
+      ) {
+        total += log.endTimestamp - log.rawTimestamp;
+      }
+    }
+  }
+  return total;
+}
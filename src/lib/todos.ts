@@ -0,0 +1,24 @@
+import type { LogItem, TodoItem } from '@/lib/types';
+
+/* ------------------------------------------------------------------
+   Todo completion, shared by the dashboard and the server. A todo is
+   done when a log of the same day mentions it, unless the user ticked
+   or unticked it by hand (manualOverride).
+--------------------------------------------------------------------- */
+
+/* Word-boundary matching for log vs. todo content. */
+export function todoMatchesLog(todoContent: string, logContent: string): boolean {
+  const escaped = todoContent.replace(/[.*+?^${}()|[\]\\]/g, '\\$&');
+  const regex = new RegExp(`\\b${escaped}\\b`, 'i');
+  return regex.test(logContent);
+}
+
+/** The first of the day's logs that mentions the todo, if any. */
+export function matchingLog(todo: TodoItem, dayLogs: LogItem[]): LogItem | undefined {
+  return dayLogs.find((log) => todoMatchesLog(todo.content, log.content));
+}
+
+export function isTodoCompleted(todo: TodoItem, dayLogs: LogItem[]): boolean {
+  if (todo.manualOverride !== null) return todo.manualOverride;
+  return !!matchingLog(todo, dayLogs);
+}
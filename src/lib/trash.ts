@@ -0,0 +1,83 @@
+import type { LogItem, TodoItem } from '@/lib/types';
+import type { DayKind } from '@/lib/storage';
+
+/* ------------------------------------------------------------------
+   Trash bin
+   Items removed from a day are parked here with their original date
+   and the time they were deleted, until restored or purged.
+--------------------------------------------------------------------- */
+
+/** Days to keep trashed items by default; 0 keeps them forever. */
+export const DEFAULT_TRASH_RETENTION_DAYS = 30;
+
+const DAY_MS = 24 * 60 * 60 * 1000;
+
+export type TrashEntry =
+  | { kind: 'logs'; date: string; deletedAt: number; item: LogItem }
+  | { kind: 'todos'; date: string; deletedAt: number; item: TodoItem };
+
+/**
+ * Update the trash after a set of days went from `fromDays` to `toDays`:
+ * items that disappeared are trashed, items that came back are taken out.
+ */
+export function reconcileTrash<T extends LogItem | TodoItem>(
+  trash: TrashEntry[],
+  kind: DayKind,
+  fromDays: Record<string, T[]>,
+  toDays: Record<string, T[]>,
+  now: number = Date.now()
+): TrashEntry[] {
+  const presentIds = new Set<string>();
+  Object.values(toDays).forEach((items) =>
+    items.forEach((item) => presentIds.add(item.id))
+  );
+
+  const removed: TrashEntry[] = [];
+  for (const [dateKey, items] of Object.entries(fromDays)) {
+    for (const item of items) {
+      if (presentIds.has(item.id)) continue;
+      removed.push({ kind, date: dateKey, deletedAt: now, item } as TrashEntry);
+    }
+  }
+
+  const kept = trash.filter(
+    (entry) => entry.kind !== kind || !presentIds.has(entry.item.id)
+  );
+  return removed.length || kept.length !== trash.length
+    ? [...removed, ...kept]
+    : trash;
+}
+
+/** Drop entries older than the retention period (0 = never). */
+export function purgeExpired(
+  trash: TrashEntry[],
+  retentionDays: number,
+  now: number = Date.now()
+): TrashEntry[] {
+  if (retentionDays <= 0) return trash;
+  const cutoff = now - retentionDays * DAY_MS;
+  const kept = trash.filter((entry) => entry.deletedAt >= cutoff);
+  return kept.length === trash.length ? trash : kept;
+}
+
+/** Group trashed items back into per-day maps, ready to merge into state. */
+export function entriesToDays(entries: TrashEntry[]): {
+  logs: Record<string, LogItem[]>;
+  todos: Record<string, TodoItem[]>;
+} {
+  const logs: Record<string, LogItem[]> = {};
+  const todos: Record<string, TodoItem[]> = {};
+  for (const entry of entries) {
+    if (entry.kind === 'logs') {
+      (logs[entry.date] ||= []).push(entry.item);
+    } else {
+      (todos[entry.date] ||= []).push(entry.item);
+    }
+  }
+  return { logs, todos };
+}
+
+/** Stable key for an entry, for React lists and selection state. */
+export function trashEntryKey(entry: TrashEntry): string {
+  return `${entry.kind}:${entry.item.id}`;
+}
@@ -0,0 +1,37 @@
+/* ------------------------------------------------------------------
+   Shared data types
+--------------------------------------------------------------------- */
+
+/** Allowed time formats. */
+export type TimeFormat = '12' | '24';
+
+/** A single log item. */
+export interface LogItem {
+  id: string;
+  time: string;
+  content: string;
+  rawTimestamp?: number;
+  /** Explicit end, formatted like `time`. Without one a log ends when the next starts. */
+  endTime?: string;
+  endTimestamp?: number;
+  /** The todo this log's time was tracked against (see the running timer). */
+  todoId?: string;
+  /** Id of the project (see lib/projects) the log belongs to. */
+  projectId?: string;
+  date?: string;
+}
+
+/** Logs are grouped by date string, e.g. "2025-01-07" => array of logs. */
+export type LogsByDate = Record<string, LogItem[]>;
+
+/** A single todo item. */
+export interface TodoItem {
+  id: string;
+  content: string;
+  manualOverride: boolean | null;
+  projectId?: string;
+  date?: string;
+}
+
+/** Todos are grouped by date, e.g. "2025-01-07" => array of todos. */
+export type TodosByDate = Record<string, TodoItem[]>;
@@ -0,0 +1,72 @@
+/* ------------------------------------------------------------------
+   Outgoing webhooks: types shared by the settings screen and the
+   server that sends them.
+--------------------------------------------------------------------- */
+
+export type WebhookEventType =
+  | 'log.created'
+  | 'log.edited'
+  | 'log.deleted'
+  | 'todo.completed'
+  | 'todo.toggled';
+
+/** Sent by "Send test"; not something a subscription can choose. */
+export type WebhookDeliveryEvent = WebhookEventType | 'ping';
+
+export const WEBHOOK_EVENT_TYPES: WebhookEventType[] = [
+  'log.created',
+  'log.edited',
+  'log.deleted',
+  'todo.completed',
+  'todo.toggled'
+];
+
+export const WEBHOOK_EVENT_LABELS: Record<WebhookDeliveryEvent, string> = {
+  'log.created': 'Log created',
+  'log.edited': 'Log edited',
+  'log.deleted': 'Log deleted',
+  'todo.completed': 'Todo completed by a log',
+  'todo.toggled': 'Todo ticked or unticked by hand',
+  ping: 'Test'
+};
+
+/** A subscription as the settings screen sees it (the secret stays on the server). */
+export interface WebhookInfo {
+  id: string;
+  url: string;
+  events: WebhookEventType[];
+  /** Epoch millis. */
+  createdAt: number;
+}
+
+export type WebhookDeliveryStatus = 'pending' | 'delivered' | 'failed';
+
+export interface WebhookDelivery {
+  id: string;
+  webhookId: string;
+  url: string;
+  event: WebhookDeliveryEvent;
+  status: WebhookDeliveryStatus;
+  attempts: number;
+  /** HTTP status of the last attempt, if the receiver answered. */
+  responseStatus: number | null;
+  /** Why the last attempt failed. */
+  error: string | null;
+  createdAt: number;
+  lastAttemptAt: number | null;
+  /** When a pending delivery is tried next. */
+  nextAttemptAt: number | null;
+}
+
+/** Why a webhook URL can't be used, or null if it's fine. */
+export function webhookUrlProblem(url: string): string | null {
+  try {
+    const parsed = new URL(url);
+    if (parsed.protocol !== 'http:' && parsed.protocol !== 'https:') {
+      return 'URL must start with http:// or https://';
+    }
+    return null;
+  } catch {
+    return 'Enter a full URL, e.g. https://example.com/hooks/timechapter';
+  }
+}